@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { getAttributionMetrics, getAttributionStore } from "@/lib/attribution-store"
+
+/**
+ * Métricas de consulta do armazenamento de atribuição (hit/miss/expirado)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  return NextResponse.json({
+    store: getAttributionStore().name,
+    metrics: await getAttributionMetrics(),
+  })
+}
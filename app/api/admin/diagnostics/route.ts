@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { DIAGNOSTIC_CHECKS, getDiagnosticsStatus, runDiagnosticChecks, type DiagnosticCheckName } from "@/lib/diagnostics"
+
+/**
+ * Situação da configuração (sem chamadas externas)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  return NextResponse.json(getDiagnosticsStatus())
+}
+
+/**
+ * Executa as verificações de conectividade sob demanda
+ * Body: { checks?: ["trexpay", "utmify", "meta_capi", "ga4"] } (padrão: todas)
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const body = await request.json().catch(() => ({}))
+  const requested: unknown[] = Array.isArray(body.checks) ? body.checks : [...DIAGNOSTIC_CHECKS]
+  const invalid = requested.filter((check) => !DIAGNOSTIC_CHECKS.includes(check as DiagnosticCheckName))
+  if (invalid.length > 0) {
+    return NextResponse.json(
+      { error: `Verificação desconhecida: ${invalid.join(", ")}` },
+      { status: 400 }
+    )
+  }
+
+  const results = await runDiagnosticChecks(requested as DiagnosticCheckName[])
+  return NextResponse.json({
+    success: results.every((result) => result.success || result.skipped),
+    results,
+  })
+}
@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { getOrder } from "@/lib/orders"
+import { getRefundSummary, requestRefund } from "@/lib/refunds"
+import { withRequestCorrelation } from "@/lib/logger"
+
+const REFUND_ERROR_STATUS = {
+  NOT_FOUND: 404,
+  NOT_REFUNDABLE: 409,
+  INVALID_AMOUNT: 400,
+  GATEWAY_ERROR: 502,
+} as const
+
+/**
+ * Estornos do pedido e valor ainda disponível para estorno
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ orderId: string }> }) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const { orderId } = await params
+  const order = await getOrder(decodeURIComponent(orderId))
+  if (!order) {
+    return NextResponse.json(
+      { error: "Pedido não encontrado" },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(getRefundSummary(order))
+}
+
+/**
+ * Solicita um estorno por PIX
+ * Body: { amount?: number, reason?: string } (sem amount, estorna todo o valor disponível)
+ */
+async function createRefund(request: NextRequest, orderId: string) {
+  const body = await request.json().catch(() => ({}))
+  const amount = body.amount === undefined || body.amount === null ? undefined : body.amount
+  if (amount !== undefined && (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0)) {
+    return NextResponse.json(
+      { error: "amount deve ser um valor positivo" },
+      { status: 400 }
+    )
+  }
+  if (body.reason !== undefined && typeof body.reason !== "string") {
+    return NextResponse.json(
+      { error: "reason deve ser um texto" },
+      { status: 400 }
+    )
+  }
+
+  const result = await requestRefund(orderId, { amount, reason: body.reason?.trim().slice(0, 200) || undefined })
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.message, code: result.error, refund: result.refund },
+      { status: REFUND_ERROR_STATUS[result.error || "GATEWAY_ERROR"] }
+    )
+  }
+
+  // O pedido muda de estado quando o gateway confirma o envio (webhook pix.sent)
+  return NextResponse.json(
+    { success: true, refund: result.refund, message: result.message, ...getRefundSummary(result.order!) },
+    { status: 202 }
+  )
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ orderId: string }> }) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const { orderId } = await params
+  return withRequestCorrelation(request, () => createRefund(request, decodeURIComponent(orderId)))
+}
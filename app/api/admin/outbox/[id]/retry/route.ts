@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { retryOutboxMessage, scheduleOutboxDispatch } from "@/lib/outbox"
+import "@/lib/utmfy"
+
+/**
+ * Devolve uma mensagem em dead-letter para a fila
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const { id } = await params
+  const message = await retryOutboxMessage(decodeURIComponent(id))
+
+  if (!message) {
+    return NextResponse.json(
+      { error: "Mensagem não encontrada ou fora do dead-letter" },
+      { status: 404 }
+    )
+  }
+
+  scheduleOutboxDispatch()
+  return NextResponse.json({ success: true, message })
+}
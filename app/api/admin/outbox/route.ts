@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { listOutboxMessages, type OutboxDestination, type OutboxStatus } from "@/lib/outbox"
+
+/**
+ * Situação do outbox: contagem por status e últimas mensagens
+ * Filtros: ?status=dead&destination=utmify&limit=50
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const { searchParams } = new URL(request.url)
+  const result = await listOutboxMessages({
+    status: (searchParams.get("status") as OutboxStatus) || undefined,
+    destination: (searchParams.get("destination") as OutboxDestination) || undefined,
+    limit: Number(searchParams.get("limit")) || undefined,
+  })
+
+  return NextResponse.json(result)
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  adminUnauthorizedResponse,
+  clearAdminSessionCookie,
+  isValidAdminToken,
+  setAdminSessionCookie,
+} from "@/lib/admin-auth"
+import { createLogger } from "@/lib/logger"
+import { checkRateLimit, getClientIp, rateLimitResponse } from "@/lib/rate-limit"
+
+const log = createLogger("Admin")
+
+/**
+ * Abre a sessão administrativa: body { token: ADMIN_API_TOKEN }
+ */
+export async function POST(request: NextRequest) {
+  // Conta todas as tentativas, não só as inválidas, para travar força bruta
+  const ipLimit = await checkRateLimit("admin_login_ip", getClientIp(request) || "unknown")
+  if (!ipLimit.allowed) return rateLimitResponse(ipLimit)
+
+  const body = await request.json().catch(() => ({}))
+  if (typeof body.token !== "string" || !isValidAdminToken(body.token)) {
+    log.warn("Tentativa de login inválida")
+    return adminUnauthorizedResponse()
+  }
+
+  return setAdminSessionCookie(NextResponse.json({ success: true }))
+}
+
+/**
+ * Encerra a sessão administrativa
+ */
+export async function DELETE() {
+  return clearAdminSessionCookie(NextResponse.json({ success: true }))
+}
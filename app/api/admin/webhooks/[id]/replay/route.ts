@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { replayWebhookEvent } from "@/lib/payment-webhooks"
+
+/**
+ * Reprocessa um webhook registrado
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const { id } = await params
+  const result = await replayWebhookEvent(id)
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, event: result.record },
+      { status: result.record ? 422 : 404 }
+    )
+  }
+
+  return NextResponse.json({ success: true, event: result.record })
+}
@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { getWebhookEvent } from "@/lib/webhook-events"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const { id } = await params
+  const event = await getWebhookEvent(id)
+
+  if (!event) {
+    return NextResponse.json(
+      { error: "Evento não encontrado" },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(event)
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { adminUnauthorizedResponse, isAdminRequestAuthorized } from "@/lib/admin-auth"
+import { listWebhookEvents, type WebhookEventOutcome } from "@/lib/webhook-events"
+
+/**
+ * Lista os webhooks recebidos
+ * Filtros: ?outcome=failed&transactionId=...&limit=50
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequestAuthorized(request)) return adminUnauthorizedResponse()
+
+  const { searchParams } = new URL(request.url)
+  const events = await listWebhookEvents({
+    outcome: (searchParams.get("outcome") as WebhookEventOutcome) || undefined,
+    transactionId: searchParams.get("transactionId") || undefined,
+    limit: Number(searchParams.get("limit")) || undefined,
+  })
+
+  return NextResponse.json({ events })
+}
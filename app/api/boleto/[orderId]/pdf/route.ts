@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOrder } from "@/lib/orders"
+import { renderBoletoPdf } from "@/lib/boleto-pdf"
+import { checkRateLimit, getClientIp, rateLimitResponse } from "@/lib/rate-limit"
+
+/**
+ * PDF do boleto para impressão (o do gateway, quando existe, ou o gerado pela loja)
+ * O CPF do pagador sai mascarado: o link depende apenas do número do pedido
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ orderId: string }> }) {
+  const ipLimit = await checkRateLimit("pix_status_ip", getClientIp(request) || "unknown")
+  if (!ipLimit.allowed) {
+    return rateLimitResponse(ipLimit)
+  }
+
+  const { orderId } = await params
+  const order = await getOrder(decodeURIComponent(orderId))
+  if (!order || order.payment.method !== "boleto" || !order.payment.boleto) {
+    return NextResponse.json(
+      { error: "Boleto não encontrado" },
+      { status: 404 }
+    )
+  }
+
+  if (order.payment.boleto.pdfUrl) {
+    return NextResponse.redirect(order.payment.boleto.pdfUrl)
+  }
+
+  const pdf = renderBoletoPdf(order)!
+  return new Response(pdf, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="boleto-${order.id}.pdf"`,
+      "Cache-Control": "private, no-store",
+    },
+  })
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { resolveCep } from "@/lib/cep"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ cep: string }> }) {
+  const { cep } = await params
+  const result = await resolveCep(cep)
+
+  if (!result.success || !result.address) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.error === "CEP inválido" ? 400 : 404 }
+    )
+  }
+
+  return NextResponse.json({
+    ...result.address,
+    deliverable: result.deliverable,
+    coverageMessage: result.coverageMessage,
+  })
+}
@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { evaluateCoupon } from "@/lib/coupons"
+import { getProductById } from "@/data/products"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("Coupons")
+
+export async function POST(request: NextRequest) {
+  try {
+    const { code, items, cpf } = await request.json()
+
+    if (!code || typeof code !== "string") {
+      return NextResponse.json(
+        { valid: false, error: "Informe o código do cupom" },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json(
+        { valid: false, error: "Carrinho vazio" },
+        { status: 400 }
+      )
+    }
+
+    // Preços sempre vêm do catálogo
+    const cartItems = items.flatMap((item: { id: string; quantity: number }) => {
+      const product = getProductById(String(item.id))
+      if (!product || !product.price) return []
+      return [{ productId: product.id, unitPrice: product.price, quantity: Math.max(1, Number(item.quantity) || 1) }]
+    })
+
+    const result = await evaluateCoupon({ code, items: cartItems, cpf })
+
+    if (!result.success || !result.coupon) {
+      return NextResponse.json(
+        { valid: false, error: result.error },
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json({
+      valid: true,
+      type: result.type,
+      coupon: result.coupon,
+    })
+  } catch (error) {
+    log.error("Erro ao validar cupom", { error })
+    return NextResponse.json(
+      { valid: false, error: "Erro interno ao validar cupom" },
+      { status: 500 }
+    )
+  }
+}
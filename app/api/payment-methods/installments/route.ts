@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getInstallmentOptions } from "@/lib/installments"
+
+/**
+ * Opções de parcelamento no cartão para o total do pedido
+ * Query: ?amount=123.45 (o valor é conferido de novo na criação do pedido)
+ */
+export async function GET(request: NextRequest) {
+  const amount = Number(request.nextUrl.searchParams.get("amount"))
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return NextResponse.json(
+      { error: "Valor inválido" },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({ amount, options: getInstallmentOptions(amount) })
+}
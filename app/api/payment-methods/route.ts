@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { getPaymentProvider } from "@/lib/payment-provider"
+import { getConfig } from "@/lib/config"
+
+// Formas de pagamento oferecidas no checkout (as aceitas pelo gateway configurado)
+export async function GET() {
+  const provider = getPaymentProvider()
+  return NextResponse.json({
+    methods: provider.methods,
+    boletoExpirationBusinessDays: getConfig().payments.boletoExpirationBusinessDays,
+    // Página dos campos hospedados do cartão (carregada em iframe pelo checkout)
+    card: provider.methods.includes("credit_card") ? provider.getCardHostedFields?.() || null : null,
+  })
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import { issueCheckoutChallenge } from "@/lib/bot-protection"
+
+// Desafio anti-robô pedido pelo checkout antes de gerar o PIX
+export async function GET() {
+  return NextResponse.json(issueCheckoutChallenge(), {
+    headers: { "Cache-Control": "no-store" },
+  })
+}
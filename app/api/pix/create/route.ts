@@ -1,56 +1,166 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { createPixDeposit } from "@/lib/trexpay"
+import { queueConversionEvent } from "@/lib/conversion-sinks"
+import { saveAttribution } from "@/lib/attribution-store"
+import { buildChargeResponse, issueCharge } from "@/lib/payment-charges"
+import { getPaymentProvider, type PaymentMethod } from "@/lib/payment-provider"
 import {
-  sendOrderToUtmfy,
-  formatUtmfyDate,
-  type UtmfyOrderRequest,
-} from "@/lib/utmfy"
-import { saveUtmParams } from "@/lib/server-utm-store"
-
-// Gera ID único para o pedido
-function generateOrderId(): string {
-  const timestamp = Date.now().toString(36).toUpperCase()
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase()
-  return `PED-${timestamp}-${random}`
+  createOrder,
+  createOrderOnce,
+  getOrderByIdempotencyKey,
+  isOrderSettled,
+  transitionOrder,
+  type Order,
+  type OrderClientContext,
+  type OrderTotals,
+} from "@/lib/orders"
+import { toCents } from "@/lib/pricing"
+import { priceOrder } from "@/lib/order-pricing"
+import { reserveCouponUsage } from "@/lib/coupons"
+import { resolveOrderSplit } from "@/lib/payment-split"
+import { findInstallmentOption } from "@/lib/installments"
+import { validateAddressAgainstCep } from "@/lib/cep"
+import { addressSchema, customerSchema, getFieldErrors } from "@/lib/validation"
+import { applyAttributionWindow, attributionSchema, getCampaignParams, type AttributionData } from "@/lib/attribution"
+import { createLogger, getCorrelationId, withRequestCorrelation } from "@/lib/logger"
+import { checkRateLimit, getClientIp, rateLimitResponse } from "@/lib/rate-limit"
+import { challengeFailedResponse, verifyCheckoutChallenge } from "@/lib/bot-protection"
+
+const log = createLogger("PIX Create")
+
+function prefixFieldErrors(prefix: string, errors: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(errors).map(([field, message]) => [`${prefix}.${field}`, message]))
+}
+
+// Atribuição enviada pelo checkout; dados inválidos ou fora da janela são descartados
+function parseAttribution(value: unknown): AttributionData | null {
+  const parsed = attributionSchema.safeParse(value)
+  if (!parsed.success) return null
+  const attribution = applyAttributionWindow(parsed.data)
+  return attribution.firstTouch || attribution.lastTouch ? attribution : null
+}
+
+// Dados do navegador usados nos eventos de conversão server-side (Meta CAPI / GA4)
+function getClientContext(request: NextRequest): OrderClientContext {
+  const gaCookie = request.cookies.get("_ga")?.value
+  return {
+    ip: getClientIp(request),
+    userAgent: request.headers.get("user-agent"),
+    fbp: request.cookies.get("_fbp")?.value || null,
+    fbc: request.cookies.get("_fbc")?.value || null,
+    // _ga = GA1.1.<client_id>
+    gaClientId: gaCookie ? gaCookie.split(".").slice(2).join(".") || null : null,
+  }
 }
 
-// Converte valor em reais para centavos
-function toCents(value: number): number {
-  return Math.round(value * 100)
+// Chave enviada pelo checkout (conteúdo do carrinho + nonce do cliente)
+function getIdempotencyKey(request: NextRequest): string | null {
+  const key = request.headers.get("Idempotency-Key")?.trim()
+  if (!key || key.length > 200) return null
+  return key
 }
 
-// Obtém URL base para webhooks
-function getBaseUrl(): string {
-  if (process.env.VERCEL_URL) {
-    return `https://${process.env.VERCEL_URL}`
+/**
+ * Resposta para uma requisição repetida com a mesma chave de idempotência
+ */
+function respondWithExistingOrder(order: Order, cpf: string, total: number) {
+  // O total enviado pelo checkout não inclui os juros do parcelamento
+  if (
+    order.customer.cpf.replace(/\D/g, "") !== cpf.replace(/\D/g, "") ||
+    toCents(order.totals.total) - toCents(order.totals.interest || 0) !== toCents(total)
+  ) {
+    return NextResponse.json(
+      {
+        error: "Chave de idempotência já utilizada em outro pedido",
+        code: "IDEMPOTENCY_KEY_REUSED",
+      },
+      { status: 422 }
+    )
+  }
+
+  // A primeira requisição ainda está gerando o PIX
+  if (order.status === "created") {
+    return NextResponse.json(
+      {
+        error: "Seu pedido já está sendo processado. Aguarde alguns segundos.",
+        code: "ORDER_IN_PROGRESS",
+        orderId: order.id,
+      },
+      { status: 409 }
+    )
   }
-  if (process.env.NEXT_PUBLIC_SITE_URL) {
-    return process.env.NEXT_PUBLIC_SITE_URL
+
+  // Cartão já recusado: repete a recusa; uma nova tentativa usa outra chave
+  if (order.status === "refused") {
+    return NextResponse.json(
+      {
+        error: order.payment.card?.declineMessage || "Pagamento recusado pelo emissor do cartão",
+        code: "CARD_DECLINED",
+        orderId: order.id,
+        replayed: true,
+      },
+      { status: 402 }
+    )
   }
-  return "http://localhost:3000"
+
+  log.info("Devolvendo cobrança já gerada para o pedido", { orderId: order.id })
+  return NextResponse.json({ ...buildChargeResponse(order), replayed: true })
 }
 
-export async function POST(request: NextRequest) {
+async function createPix(request: NextRequest) {
   try {
+    const ipLimit = await checkRateLimit("pix_create_ip", getClientIp(request) || "unknown")
+    if (!ipLimit.allowed) {
+      return rateLimitResponse(ipLimit)
+    }
+
     const body = await request.json()
-    console.log("[PIX Create] Recebendo requisição:", JSON.stringify(body))
-
-    const { customer, address, items, total, shipping, trackingParams } = body
-
-    // Validações básicas
-    if (
-      !customer ||
-      !customer.name ||
-      !customer.email ||
-      !customer.cpf ||
-      !customer.phone
-    ) {
+    log.debug("Recebendo requisição", { body })
+
+    const idempotencyKey = getIdempotencyKey(request)
+    const challenge = await verifyCheckoutChallenge(body.challenge, idempotencyKey)
+    if (!challenge.success) {
+      return challengeFailedResponse()
+    }
+
+    const { items, total, shipping, coupon } = body
+    const attribution = parseAttribution(body.attribution)
+    // Sem UTMs explícitos, usa os do último toque que os tenha
+    const trackingParams = body.trackingParams || getCampaignParams(attribution)
+
+    // Validações básicas (mesmas regras do formulário de checkout)
+    const customerValidation = customerSchema.safeParse(body.customer ?? {})
+    const addressValidation = addressSchema.safeParse(body.address ?? {})
+    if (!customerValidation.success || !addressValidation.success) {
+      const fieldErrors = {
+        ...(customerValidation.success ? {} : prefixFieldErrors("customer", getFieldErrors(customerValidation.error))),
+        ...(addressValidation.success ? {} : prefixFieldErrors("address", getFieldErrors(addressValidation.error))),
+      }
       return NextResponse.json(
-        { error: "Dados do cliente incompletos" },
+        {
+          error: Object.values(fieldErrors)[0] || "Dados do cliente incompletos",
+          fieldErrors,
+        },
         { status: 400 }
       )
     }
 
+    const customer = customerValidation.data
+    const address = addressValidation.data
+
+    // Repetição de um pedido já pago ou recusado: devolve o resultado antes dos limites
+    // e do cupom, que a primeira requisição já consumiu
+    if (idempotencyKey) {
+      const existing = await getOrderByIdempotencyKey(idempotencyKey)
+      if (existing && isOrderSettled(existing)) {
+        return respondWithExistingOrder(existing, customer.cpf, Number(total))
+      }
+    }
+
+    const cpfLimit = await checkRateLimit("pix_create_cpf", customer.cpf.replace(/\D/g, ""))
+    if (!cpfLimit.allowed) {
+      return rateLimitResponse(cpfLimit)
+    }
+
     if (!items || items.length === 0) {
       return NextResponse.json(
         { error: "Nenhum item no pedido" },
@@ -58,6 +168,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Forma de pagamento escolhida no checkout (PIX quando não informada)
+    const paymentMethod: PaymentMethod = body.payment?.method ?? "pix"
+    if (!getPaymentProvider().methods.includes(paymentMethod)) {
+      return NextResponse.json(
+        { error: "Forma de pagamento indisponível", code: "PAYMENT_METHOD_UNAVAILABLE" },
+        { status: 400 }
+      )
+    }
+
+    // Cartão: só o token do gateway chega aqui (dados do cartão ficam no navegador)
+    const cardToken = typeof body.payment?.cardToken === "string" ? body.payment.cardToken.trim() : ""
+    const installments = Number(body.payment?.installments ?? 1)
+    if (paymentMethod === "credit_card" && (!cardToken || !Number.isInteger(installments))) {
+      return NextResponse.json(
+        { error: "Dados do cartão incompletos", code: "INVALID_CARD" },
+        { status: 400 }
+      )
+    }
+
     if (!total || total <= 0) {
       return NextResponse.json(
         { error: "Valor total inválido" },
@@ -65,154 +194,185 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const orderId = generateOrderId()
-    const amountInCents = toCents(total)
+    // Cidade/UF precisam corresponder ao CEP e o CEP precisa estar na área de entrega
+    const addressErrors = await validateAddressAgainstCep(address)
+    if (Object.keys(addressErrors).length > 0) {
+      return NextResponse.json(
+        {
+          error: Object.values(addressErrors)[0],
+          fieldErrors: prefixFieldErrors("address", addressErrors),
+        },
+        { status: 400 }
+      )
+    }
 
-    // Salvar UTM params para uso posterior no webhook
-    if (trackingParams) {
-      saveUtmParams(orderId, {
-        src: trackingParams.src || null,
-        sck: trackingParams.sck || null,
-        utm_source: trackingParams.utm_source || null,
-        utm_campaign: trackingParams.utm_campaign || null,
-        utm_medium: trackingParams.utm_medium || null,
-        utm_content: trackingParams.utm_content || null,
-        utm_term: trackingParams.utm_term || null,
-      })
-      console.log("[PIX Create] UTMs salvos no servidor para orderId:", orderId)
-    }
-
-    // Criar depósito PIX na TrexPay
-    const baseUrl = getBaseUrl()
-    const postbackUrl = `${baseUrl}/api/webhook/trexpay`
-
-    const trexPayResult = await createPixDeposit({
-      amount: total,
-      customerName: customer.name,
-      customerEmail: customer.email,
-      customerDocument: customer.cpf,
-      customerPhone: customer.phone,
-      postbackUrl,
+    // Recalcular valores a partir do catálogo (nunca confiar nos preços do cliente)
+    const pricing = await priceOrder({
+      items: items.map((item: { id: string; quantity: number }) => ({
+        id: item.id,
+        quantity: item.quantity,
+      })),
+      couponCode: coupon || null,
+      shippingOptionId: shipping?.id || null,
+      cep: address.cep,
+      cpf: customer.cpf,
+    })
+
+    if (!pricing.success || !pricing.items || !pricing.breakdown) {
+      return NextResponse.json(
+        { error: pricing.error || "Pedido inválido" },
+        { status: 400 }
+      )
+    }
+
+    let totals: OrderTotals = pricing.breakdown
+
+    if (toCents(Number(total)) !== toCents(totals.total)) {
+      log.warn("Total divergente", { clientTotal: total, serverTotal: totals.total })
+      return NextResponse.json(
+        {
+          error: "O valor do pedido foi atualizado. Confira o resumo antes de continuar.",
+          code: "TOTAL_MISMATCH",
+          totals,
+        },
+        { status: 409 }
+      )
+    }
+
+    // Parcelamento recalculado sobre o total do pedido; os juros entram no valor cobrado
+    const installmentOption = paymentMethod === "credit_card" ? findInstallmentOption(totals.total, installments) : null
+    if (paymentMethod === "credit_card") {
+      if (!installmentOption) {
+        return NextResponse.json(
+          { error: "Parcelamento indisponível para este valor", code: "INVALID_INSTALLMENTS" },
+          { status: 400 }
+        )
+      }
+      totals = { ...totals, interest: installmentOption.interest, total: installmentOption.total }
+    }
+
+    const orderParams = {
+      customer,
+      address,
+      items: pricing.items,
+      shipping: pricing.shipping || null,
+      coupon: pricing.coupon?.code || null,
+      totals,
+      paymentMethod,
+      split: resolveOrderSplit({ items: pricing.items, totals, src: trackingParams?.src }),
       trackingParams: trackingParams
         ? {
-            src: trackingParams.src,
-            sck: trackingParams.sck,
-            utm_source: trackingParams.utm_source,
-            utm_campaign: trackingParams.utm_campaign,
-            utm_medium: trackingParams.utm_medium,
-            utm_content: trackingParams.utm_content,
-            utm_term: trackingParams.utm_term,
+            src: trackingParams.src || null,
+            sck: trackingParams.sck || null,
+            utm_source: trackingParams.utm_source || null,
+            utm_campaign: trackingParams.utm_campaign || null,
+            utm_medium: trackingParams.utm_medium || null,
+            utm_content: trackingParams.utm_content || null,
+            utm_term: trackingParams.utm_term || null,
           }
-        : undefined,
-    })
+        : null,
+      attribution,
+      client: getClientContext(request),
+      correlationId: getCorrelationId(),
+    }
+
+    let order: Order
+    if (idempotencyKey) {
+      const result = await createOrderOnce({ ...orderParams, idempotencyKey })
+      if (!result.created) {
+        return respondWithExistingOrder(result.order, customer.cpf, pricing.breakdown.total)
+      }
+      order = result.order
+    } else {
+      order = await createOrder(orderParams)
+    }
+    const orderId = order.id
+
+    // Limites do cupom conferidos e contados numa única gravação (o pedido pago mantém a
+    // utilização; vencido ou cancelado a devolve)
+    if (order.coupon) {
+      const reservation = await reserveCouponUsage(order.coupon, customer.cpf, orderId)
+      if (!reservation.success) {
+        await transitionOrder(orderId, "cancelled", { reason: "Limite do cupom atingido" })
+        return NextResponse.json(
+          { error: reservation.error, code: "COUPON_UNAVAILABLE" },
+          { status: 409 }
+        )
+      }
+    }
+
+    // Salvar UTM params para uso posterior no webhook
+    if (order.trackingParams || order.attribution) {
+      await saveAttribution(orderId, order.trackingParams || {}, order.attribution)
+    }
 
-    if (!trexPayResult.success) {
-      console.error("[PIX Create] Erro TrexPay:", trexPayResult.error, trexPayResult.message)
+    // Criar cobrança (PIX, boleto ou cartão) no gateway configurado
+    const charge = await issueCharge(
+      order,
+      installmentOption
+        ? {
+            card: {
+              token: cardToken,
+              installments: installmentOption.installments,
+              installmentAmount: installmentOption.installmentAmount,
+            },
+          }
+        : {}
+    )
+
+    // Cartão recusado: o pedido fica "refused" e o cliente pode tentar outro cartão
+    if (charge.error === "CARD_DECLINED") {
+      return NextResponse.json(
+        {
+          error: charge.message,
+          code: "CARD_DECLINED",
+          orderId,
+        },
+        { status: 402 }
+      )
+    }
+
+    if (!charge.success || !charge.order) {
+      await transitionOrder(orderId, "cancelled", { reason: `Falha ao gerar cobrança: ${charge.error}` })
       return NextResponse.json(
         { 
-          error: trexPayResult.message || "Erro ao gerar PIX",
-          details: trexPayResult.error,
+          error:
+            charge.message ||
+            (paymentMethod === "boleto"
+              ? "Erro ao gerar boleto"
+              : paymentMethod === "credit_card"
+                ? "Erro ao processar o cartão"
+                : "Erro ao gerar PIX"),
+          details: charge.error,
           debug: {
-            errorCode: trexPayResult.error,
-            message: trexPayResult.message
+            errorCode: charge.error,
+            message: charge.message
           }
         },
-        { status: 500 }
+        // Token do cartão vencido ou já usado: o checkout tokeniza o cartão de novo
+        { status: charge.error === "INVALID_CARD_TOKEN" ? 400 : 500 }
       )
     }
+    order = charge.order
 
-    const transactionId = trexPayResult.idTransaction || orderId
-
-    // Salvar UTMs também com o transactionId da TrexPay
-    if (trackingParams && trexPayResult.idTransaction) {
-      saveUtmParams(trexPayResult.idTransaction, {
-        src: trackingParams.src || null,
-        sck: trackingParams.sck || null,
-        utm_source: trackingParams.utm_source || null,
-        utm_campaign: trackingParams.utm_campaign || null,
-        utm_medium: trackingParams.utm_medium || null,
-        utm_content: trackingParams.utm_content || null,
-        utm_term: trackingParams.utm_term || null,
-      })
-    }
-
-    // Enviar evento para UTMify (status waiting_payment)
+    // Eventos server-side (Meta CAPI / GA4)
     try {
-      const utmfyOrder: UtmfyOrderRequest = {
-        orderId: transactionId,
-        platform: "papelaria-site",
-        paymentMethod: "pix",
-        status: "waiting_payment",
-        createdAt: formatUtmfyDate(new Date()) || "",
-        approvedDate: null,
-        refundedAt: null,
-        customer: {
-          name: customer.name,
-          email: customer.email,
-          phone: customer.phone?.replace(/\D/g, "") || null,
-          document: customer.cpf?.replace(/\D/g, "") || null,
-          country: "BR",
-        },
-        products: items.map(
-          (item: {
-            id: string
-            name: string
-            price: number
-            quantity: number
-          }) => ({
-            id: item.id || "product",
-            name: item.name,
-            planId: null,
-            planName: null,
-            quantity: item.quantity,
-            priceInCents: toCents(item.price),
-          })
-        ),
-        trackingParameters: {
-          src: trackingParams?.src || null,
-          sck: trackingParams?.sck || null,
-          utm_source: trackingParams?.utm_source || null,
-          utm_campaign: trackingParams?.utm_campaign || null,
-          utm_medium: trackingParams?.utm_medium || null,
-          utm_content: trackingParams?.utm_content || null,
-          utm_term: trackingParams?.utm_term || null,
-        },
-        commission: {
-          totalPriceInCents: amountInCents,
-          gatewayFeeInCents: 0,
-          userCommissionInCents: amountInCents,
-          currency: "BRL",
-        },
-      }
+      await queueConversionEvent(order, "InitiateCheckout")
+    } catch (conversionError) {
+      log.error("Erro ao enfileirar eventos de conversão", { orderId, error: conversionError })
+    }
 
-      console.log(
-        "[PIX Create] Enviando evento waiting_payment para UTMify:",
-        JSON.stringify(utmfyOrder)
-      )
-      const utmfyResult = await sendOrderToUtmfy(utmfyOrder)
-      console.log("[PIX Create] Resultado UTMify:", utmfyResult)
-    } catch (utmfyError) {
-      console.error("[PIX Create] Erro ao enviar para UTMify:", utmfyError)
-    }
-
-    // Retorna dados do PIX
-    return NextResponse.json({
-      success: true,
-      orderId,
-      transactionId,
-      pix: {
-        qrcode: trexPayResult.pixKey || trexPayResult.qrCode || "",
-        qrCodeBase64: trexPayResult.qrCodeBase64 || "",
-        expiresAt:
-          trexPayResult.expiresAt ||
-          new Date(Date.now() + 30 * 60 * 1000).toISOString(),
-      },
-    })
+    // Retorna dados do PIX, do boleto ou do pagamento no cartão
+    return NextResponse.json(buildChargeResponse(order, charge.qrCodeBase64))
   } catch (error) {
-    console.error("[PIX Create] Erro:", error)
+    log.error("Erro ao criar PIX", { error })
     return NextResponse.json(
       { error: "Erro interno ao processar pagamento" },
       { status: 500 }
     )
   }
 }
+
+export async function POST(request: NextRequest) {
+  return withRequestCorrelation(request, () => createPix(request))
+}
@@ -0,0 +1,136 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOrder, getOrderByTransactionId, type Order } from "@/lib/orders"
+import { subscribeToOrder } from "@/lib/order-events"
+import {
+  expireIfOverdue,
+  isOrderAwaitingPayment,
+  mapOrderStatus,
+  syncOrderWithGatewayThrottled,
+} from "@/lib/payment-status"
+import { createLogger } from "@/lib/logger"
+import { checkRateLimit, getClientIp, rateLimitResponse } from "@/lib/rate-limit"
+
+const log = createLogger("PIX Events")
+
+// Releitura do pedido (webhook recebido por outra instância), vencimento e consulta ao gateway
+const REFRESH_INTERVAL_MS = 5 * 1000
+// Comentário periódico para proxies não encerrarem a conexão ociosa
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+// A conexão é renovada pelo EventSource após este tempo
+const STREAM_MAX_DURATION_MS = 5 * 60 * 1000
+
+function buildStatusEvent(order: Order) {
+  return {
+    orderId: order.id,
+    transactionId: order.payment.transactionId,
+    status: mapOrderStatus(order),
+    orderStatus: order.status,
+    paidAt: order.payment.paidAt,
+    expiresAt: order.payment.expiresAt,
+  }
+}
+
+/**
+ * Stream (Server-Sent Events) com o status do pedido: um evento "status"
+ * na conexão e a cada mudança, até o pedido sair do aguardo do pagamento
+ */
+export async function GET(request: NextRequest) {
+  const ipLimit = await checkRateLimit("pix_status_ip", getClientIp(request) || "unknown")
+  if (!ipLimit.allowed) {
+    return rateLimitResponse(ipLimit)
+  }
+
+  const { searchParams } = new URL(request.url)
+  const orderId = searchParams.get("orderId")
+  const transactionId = searchParams.get("transactionId")
+
+  if (!orderId && !transactionId) {
+    return NextResponse.json(
+      { error: "orderId é obrigatório" },
+      { status: 400 }
+    )
+  }
+
+  const order = orderId ? await getOrder(orderId) : await getOrderByTransactionId(transactionId!)
+  if (!order) {
+    return NextResponse.json(
+      { error: "Pedido não encontrado" },
+      { status: 404 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let current = order
+      let closed = false
+      let refreshing = false
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+
+      const sendStatus = (updated: Order) => {
+        current = updated
+        write(`event: status\ndata: ${JSON.stringify(buildStatusEvent(updated))}\n\n`)
+        if (!isOrderAwaitingPayment(updated)) close()
+      }
+
+      const refresh = async () => {
+        if (refreshing || closed) return
+        refreshing = true
+        try {
+          const stored = (await getOrder(current.id)) || current
+          const updated = await syncOrderWithGatewayThrottled(await expireIfOverdue(stored))
+          if (updated.status !== current.status) sendStatus(updated)
+        } catch (error) {
+          log.error("Erro ao atualizar o status", { orderId: current.id, error })
+        } finally {
+          refreshing = false
+        }
+      }
+
+      const unsubscribe = subscribeToOrder(order.id, (updated) => {
+        if (updated.status !== current.status) sendStatus(updated)
+      })
+      const refreshTimer = setInterval(refresh, REFRESH_INTERVAL_MS)
+      const heartbeatTimer = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS)
+      const maxDurationTimer = setTimeout(() => close(), STREAM_MAX_DURATION_MS)
+
+      function close() {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(refreshTimer)
+        clearInterval(heartbeatTimer)
+        clearTimeout(maxDurationTimer)
+        try {
+          controller.close()
+        } catch {
+          // Conexão já encerrada pelo cliente
+        }
+      }
+
+      cleanup = close
+      request.signal.addEventListener("abort", close)
+
+      // Intervalo de reconexão do EventSource e status atual
+      write("retry: 3000\n\n")
+      sendStatus(order)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getOrder } from "@/lib/orders"
+import { releaseCouponUsage, reserveCouponUsage } from "@/lib/coupons"
+import { buildChargeResponse, issueCharge } from "@/lib/payment-charges"
+import { expireIfOverdue, mapOrderStatus } from "@/lib/payment-status"
+import { createLogger, withRequestCorrelation } from "@/lib/logger"
+import { checkRateLimit, getClientIp, rateLimitResponse } from "@/lib/rate-limit"
+
+const log = createLogger("PIX Regenerate")
+
+/**
+ * Gera um novo PIX (ou boleto) para um pedido expirado (mesmo pedido, itens e valor)
+ * Body: { orderId }
+ */
+async function regeneratePix(request: NextRequest) {
+  try {
+    const ipLimit = await checkRateLimit("pix_create_ip", getClientIp(request) || "unknown")
+    if (!ipLimit.allowed) {
+      return rateLimitResponse(ipLimit)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const orderId = typeof body.orderId === "string" ? body.orderId : null
+    if (!orderId) {
+      return NextResponse.json(
+        { error: "orderId é obrigatório" },
+        { status: 400 }
+      )
+    }
+
+    let order = await getOrder(orderId)
+    if (!order) {
+      return NextResponse.json(
+        { error: "Pedido não encontrado" },
+        { status: 404 }
+      )
+    }
+
+    const cpfLimit = await checkRateLimit("pix_create_cpf", order.customer.cpf.replace(/\D/g, ""))
+    if (!cpfLimit.allowed) {
+      return rateLimitResponse(cpfLimit)
+    }
+
+    // Cartão: uma nova tentativa precisa de um novo token, gerado no checkout
+    if (order.payment.method === "credit_card") {
+      return NextResponse.json(
+        {
+          error: "Pagamentos no cartão devem ser refeitos pelo checkout",
+          code: "CARD_PAYMENT_REQUIRED",
+        },
+        { status: 409 }
+      )
+    }
+
+    // O vencimento pode ainda não ter sido registrado pelo worker
+    order = await expireIfOverdue(order)
+    if (order.status !== "expired") {
+      return NextResponse.json(
+        {
+          error: "Este pedido não está com o pagamento expirado",
+          code: "ORDER_NOT_EXPIRED",
+          status: mapOrderStatus(order),
+        },
+        { status: 409 }
+      )
+    }
+
+    // A reserva do cupom foi devolvida no vencimento
+    if (order.coupon) {
+      const reservation = await reserveCouponUsage(order.coupon, order.customer.cpf, order.id)
+      if (!reservation.success) {
+        return NextResponse.json(
+          { error: reservation.error, code: "COUPON_UNAVAILABLE" },
+          { status: 409 }
+        )
+      }
+    }
+
+    const charge = await issueCharge(order)
+    if (!charge.success || !charge.order) {
+      if (order.coupon) await releaseCouponUsage(order.coupon, order.id)
+      return NextResponse.json(
+        { error: charge.message || "Erro ao gerar PIX", details: charge.error },
+        { status: 502 }
+      )
+    }
+
+    log.info("Novo PIX gerado", { orderId, transactionId: charge.order.payment.transactionId })
+    return NextResponse.json(buildChargeResponse(charge.order, charge.qrCodeBase64))
+  } catch (error) {
+    log.error("Erro ao gerar novo PIX", { error })
+    return NextResponse.json(
+      { error: "Erro interno ao gerar novo PIX" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withRequestCorrelation(request, () => regeneratePix(request))
+}
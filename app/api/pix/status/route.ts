@@ -1,49 +1,105 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { getPixStatus } from "@/lib/trexpay"
+import { getPaymentProvider } from "@/lib/payment-provider"
+import { getOrder, getOrderByTransactionId } from "@/lib/orders"
+import { getBoletoDetails, getCardDetails, getConversionEventIds } from "@/lib/payment-charges"
+import { expireIfOverdue, isOrderAwaitingPayment, mapOrderStatus, syncOrderWithGateway } from "@/lib/payment-status"
+import { createLogger, withRequestCorrelation } from "@/lib/logger"
+import { checkRateLimit, getClientIp, rateLimitResponse } from "@/lib/rate-limit"
 
-export async function GET(request: NextRequest) {
+const log = createLogger("PIX Status")
+
+async function getPixStatus(request: NextRequest) {
   try {
+    const ipLimit = await checkRateLimit("pix_status_ip", getClientIp(request) || "unknown")
+    if (!ipLimit.allowed) {
+      return rateLimitResponse(ipLimit)
+    }
+
     const { searchParams } = new URL(request.url)
-    const transactionId = searchParams.get("transactionId")
+    const orderId = searchParams.get("orderId")
+    let transactionId = searchParams.get("transactionId")
 
-    if (!transactionId) {
+    if (!transactionId && !orderId) {
       return NextResponse.json(
         { error: "transactionId é obrigatório" },
         { status: 400 }
       )
     }
 
-    console.log("[PIX Status] Consultando transação:", transactionId)
+    let order = orderId ? await getOrder(orderId) : await getOrderByTransactionId(transactionId!)
+    transactionId = transactionId || order?.payment.transactionId || null
 
-    // Consultar status na TrexPay
-    const result = await getPixStatus(transactionId)
+    // PIX (ou boleto) vencido: expira o pedido (após confirmar no gateway) antes de responder
+    if (order) {
+      order = await expireIfOverdue(order)
+    }
 
-    if (!result.success) {
-      console.error("[PIX Status] Erro ao consultar:", result.error)
+    // Pedidos que já saíram do estado pendente não precisam consultar o gateway
+    if (order && !isOrderAwaitingPayment(order)) {
+      return NextResponse.json({
+        success: true,
+        orderId: order.id,
+        transactionId,
+        status: mapOrderStatus(order),
+        orderStatus: order.status,
+        amount: order.totals.total,
+        paidAt: order.payment.paidAt,
+        expiresAt: order.payment.expiresAt,
+        paymentMethod: order.payment.method,
+        boleto: getBoletoDetails(order),
+        card: getCardDetails(order),
+        conversionEventIds: getConversionEventIds(order),
+      })
     }
 
-    // Mapear status da TrexPay para o formato esperado pelo frontend
-    let mappedStatus = "pending"
-    if (result.status === "paid") {
-      mappedStatus = "paid"
-    } else if (result.status === "expired") {
-      mappedStatus = "expired"
-    } else if (result.status === "cancelled") {
-      mappedStatus = "cancelled"
+    if (!transactionId) {
+      return NextResponse.json(
+        { error: "Pedido sem transação de pagamento" },
+        { status: 404 }
+      )
+    }
+
+    // Transação sem pedido local: apenas repassa o status do gateway
+    if (!order) {
+      const result = await getPaymentProvider().getChargeStatus(transactionId)
+      if (!result.success) {
+        log.error("Erro ao consultar o gateway", { transactionId, error: result.error })
+      }
+      return NextResponse.json({
+        success: true,
+        transactionId,
+        status: result.success && ["paid", "expired", "cancelled"].includes(result.status) ? result.status : "pending",
+        amount: result.amount,
+        paidAt: result.paidAt,
+      })
     }
 
+    const sync = await syncOrderWithGateway(order)
+    order = sync.order
+
     return NextResponse.json({
       success: true,
+      orderId: order.id,
       transactionId,
-      status: mappedStatus,
-      amount: result.amount,
-      paidAt: result.paid_at,
+      status: sync.status,
+      orderStatus: order.status,
+      amount: sync.result?.amount,
+      paidAt: sync.result?.paidAt,
+      expiresAt: order.payment.expiresAt,
+      paymentMethod: order.payment.method,
+      boleto: getBoletoDetails(order),
+      card: getCardDetails(order),
+      conversionEventIds: getConversionEventIds(order),
     })
   } catch (error) {
-    console.error("[PIX Status] Erro:", error)
+    log.error("Erro ao consultar status", { error })
     return NextResponse.json(
       { error: "Erro interno ao consultar status" },
       { status: 500 }
     )
   }
 }
+
+export async function GET(request: NextRequest) {
+  return withRequestCorrelation(request, () => getPixStatus(request))
+}
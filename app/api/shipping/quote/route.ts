@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { quoteShipping } from "@/lib/shipping"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("Shipping")
+
+export async function POST(request: NextRequest) {
+  try {
+    const { cep, items } = await request.json()
+
+    if (!cep || String(cep).replace(/\D/g, "").length !== 8) {
+      return NextResponse.json(
+        { error: "Informe um CEP válido" },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json(
+        { error: "Nenhum item para cotar" },
+        { status: 400 }
+      )
+    }
+
+    const result = quoteShipping({ cep: String(cep), items })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json({
+      cep: String(cep).replace(/\D/g, ""),
+      options: result.options,
+    })
+  } catch (error) {
+    log.error("Erro ao cotar frete", { error })
+    return NextResponse.json(
+      { error: "Erro interno ao calcular frete" },
+      { status: 500 }
+    )
+  }
+}
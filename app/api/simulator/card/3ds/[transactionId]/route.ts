@@ -0,0 +1,79 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { completeSimulatedAuthentication, getSimulatedCharge } from "@/lib/payment-simulator"
+import { formatPrice } from "@/lib/utils"
+
+// Página simulada do emissor para a autenticação 3DS
+// (disponível apenas com PAYMENT_PROVIDER=simulator)
+function simulatorDisabled() {
+  return NextResponse.json(
+    { error: "Simulador de pagamento desativado" },
+    { status: 404 }
+  )
+}
+
+function renderPage(body: string, status = 200) {
+  return new NextResponse(
+    `<!doctype html><html lang="pt-BR"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">` +
+      `<title>Autenticação do cartão</title></head>` +
+      `<body style="font-family: sans-serif; max-width: 420px; margin: 48px auto; padding: 0 16px; text-align: center">` +
+      `${body}</body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ transactionId: string }> }) {
+  if (!isSimulatorEnabled()) return simulatorDisabled()
+
+  const { transactionId } = await params
+  const charge = await getSimulatedCharge(transactionId)
+
+  if (!charge?.card) {
+    return renderPage("<h1>Cobrança não encontrada</h1>", 404)
+  }
+  if (charge.status !== "pending") {
+    return renderPage(
+      `<h1>Autenticação encerrada</h1><p>Status da cobrança: ${charge.status}</p>` +
+        `<p><a href="${charge.card.returnUrl}">Voltar para a loja</a></p>`
+    )
+  }
+
+  return renderPage(
+    `<h1>Autenticação do cartão</h1>` +
+      `<p>Simulador 3DS: confirme a compra de <strong>${formatPrice(charge.amount)}</strong> ` +
+      `no cartão final <strong>${charge.card.lastDigits}</strong>.</p>` +
+      `<form method="post" style="display: flex; gap: 12px; justify-content: center; margin-top: 24px">` +
+      `<button name="action" value="approve" style="padding: 12px 20px">Autenticar</button>` +
+      `<button name="action" value="fail" style="padding: 12px 20px">Falhar autenticação</button>` +
+      `</form>`
+  )
+}
+
+/**
+ * Form: action=approve | fail; devolve o cliente à loja
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ transactionId: string }> }) {
+  if (!isSimulatorEnabled()) return simulatorDisabled()
+
+  const { transactionId } = await params
+  const form = await request.formData().catch(() => null)
+  const action = form?.get("action")
+
+  if (action !== "approve" && action !== "fail") {
+    return NextResponse.json(
+      { error: "Ação inválida. Use \"approve\" ou \"fail\"" },
+      { status: 400 }
+    )
+  }
+
+  const result = await completeSimulatedAuthentication(transactionId, action === "approve")
+
+  if (!result.returnUrl) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.redirect(result.returnUrl, 303)
+}
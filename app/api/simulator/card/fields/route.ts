@@ -0,0 +1,167 @@
+import { NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { SIMULATOR_CARD_PUBLIC_KEY } from "@/lib/payment-simulator"
+import { CARD_BRAND_PATTERNS } from "@/lib/card"
+import { CARD_FIELDS_MESSAGE_SOURCE } from "@/lib/card-hosted-fields"
+import { getConfig } from "@/lib/config"
+
+// Campos hospedados simulados: a página que o gateway serviria no iframe do
+// checkout. Os dados do cartão ficam nela e vão direto para a tokenização
+// (disponível apenas com PAYMENT_PROVIDER=simulator)
+
+const INPUT_STYLE =
+  "width: 100%; box-sizing: border-box; height: 42px; padding: 0 12px; border: 1px solid #d4d4d8; border-radius: 6px; font-size: 14px"
+
+function field(id: string, label: string, attributes: string) {
+  return (
+    `<div style="margin-bottom: 12px"><label for="${id}" style="display: block; font-size: 14px; margin-bottom: 6px">${label} *</label>` +
+    `<input id="${id}" ${attributes} style="${INPUT_STYLE}">` +
+    `<p id="${id}-error" style="color: #dc2626; font-size: 12px; margin: 4px 0 0; min-height: 0"></p></div>`
+  )
+}
+
+function buildScript(parentOrigin: string): string {
+  return `
+(function () {
+  var source = ${JSON.stringify(CARD_FIELDS_MESSAGE_SOURCE)};
+  var parentOrigin = ${JSON.stringify(parentOrigin)};
+  var publicKey = ${JSON.stringify(SIMULATOR_CARD_PUBLIC_KEY)};
+  var brands = ${JSON.stringify(CARD_BRAND_PATTERNS.map(([brand, pattern]) => [brand, pattern.source]))};
+  var inputs = {
+    number: document.getElementById("number"),
+    holderName: document.getElementById("holderName"),
+    expiry: document.getElementById("expiry"),
+    cvv: document.getElementById("cvv")
+  };
+
+  function digits(value) { return value.replace(/\\D/g, ""); }
+  function detectBrand(number) {
+    for (var i = 0; i < brands.length; i++) {
+      if (new RegExp(brands[i][1]).test(number)) return brands[i][0];
+    }
+    return "unknown";
+  }
+  function luhn(number) {
+    if (number.length < 13 || number.length > 19) return false;
+    var sum = 0;
+    for (var i = 0; i < number.length; i++) {
+      var digit = Number(number[number.length - 1 - i]);
+      if (i % 2 === 1) { digit *= 2; if (digit > 9) digit -= 9; }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+  function parseExpiry(value) {
+    var match = value.match(/^(\\d{2})\\/(\\d{2})$/);
+    if (!match) return null;
+    var month = Number(match[1]);
+    var year = 2000 + Number(match[2]);
+    var now = new Date();
+    if (month < 1 || month > 12) return null;
+    if (year < now.getFullYear() || (year === now.getFullYear() && month < now.getMonth() + 1)) return null;
+    return { month: month, year: year };
+  }
+  function getErrors() {
+    var number = digits(inputs.number.value);
+    var errors = {};
+    if (!luhn(number)) errors.number = "Número do cartão inválido";
+    if (inputs.holderName.value.trim().split(/\\s+/).length < 2) errors.holderName = "Informe o nome impresso no cartão";
+    if (!parseExpiry(inputs.expiry.value)) errors.expiry = "Validade inválida";
+    if (inputs.cvv.value.length !== (detectBrand(number) === "amex" ? 4 : 3)) errors.cvv = "CVV inválido";
+    return errors;
+  }
+  function send(message) {
+    message.source = source;
+    window.parent.postMessage(message, parentOrigin);
+  }
+  function sendState() {
+    send({ type: "state", complete: Object.keys(getErrors()).length === 0, brand: detectBrand(digits(inputs.number.value)) });
+  }
+  function showError(name, errors) {
+    document.getElementById(name + "-error").textContent = errors[name] || "";
+  }
+
+  inputs.number.addEventListener("input", function () {
+    inputs.number.value = digits(inputs.number.value).slice(0, 19).replace(/(\\d{4})(?=\\d)/g, "$1 ");
+  });
+  inputs.holderName.addEventListener("input", function () {
+    inputs.holderName.value = inputs.holderName.value.toUpperCase();
+  });
+  inputs.expiry.addEventListener("input", function () {
+    inputs.expiry.value = digits(inputs.expiry.value).slice(0, 4).replace(/(\\d{2})(\\d)/, "$1/$2");
+  });
+  inputs.cvv.addEventListener("input", function () {
+    inputs.cvv.value = digits(inputs.cvv.value).slice(0, 4);
+  });
+  Object.keys(inputs).forEach(function (name) {
+    inputs[name].addEventListener("input", sendState);
+    inputs[name].addEventListener("blur", function () { showError(name, getErrors()); });
+  });
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.origin !== parentOrigin || !data || data.source !== source || data.type !== "tokenize") return;
+
+    var errors = getErrors();
+    Object.keys(inputs).forEach(function (name) { showError(name, errors); });
+    if (Object.keys(errors).length > 0) {
+      send({ type: "error", requestId: data.requestId, error: "Confira os dados do cartão" });
+      return;
+    }
+
+    var expiry = parseExpiry(inputs.expiry.value);
+    fetch("tokens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        publicKey: publicKey,
+        number: digits(inputs.number.value),
+        holderName: inputs.holderName.value.trim(),
+        expMonth: expiry.month,
+        expYear: expiry.year,
+        cvv: inputs.cvv.value
+      })
+    })
+      .then(function (response) { return response.json(); })
+      .then(function (result) {
+        if (!result.token) throw new Error(result.error);
+        send({ type: "token", requestId: data.requestId, token: result.token, brand: result.brand, lastDigits: result.lastDigits });
+      })
+      .catch(function (error) {
+        send({ type: "error", requestId: data.requestId, error: (error && error.message) || "Não foi possível validar o cartão" });
+      });
+  });
+
+  sendState();
+})();
+`
+}
+
+export async function GET() {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: "Simulador de pagamento desativado" },
+      { status: 404 }
+    )
+  }
+
+  // Só o checkout da loja pode exibir os campos e receber as mensagens
+  const parentOrigin = new URL(getConfig().siteUrl).origin
+  const html =
+    `<!doctype html><html lang="pt-BR"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">` +
+    `<title>Dados do cartão</title></head>` +
+    `<body style="font-family: sans-serif; margin: 0; padding: 2px">` +
+    field("number", "Número do cartão", `inputmode="numeric" autocomplete="cc-number" placeholder="0000 0000 0000 0000"`) +
+    field("holderName", "Nome impresso no cartão", `autocomplete="cc-name" placeholder="Como está no cartão"`) +
+    `<div style="display: grid; grid-template-columns: 1fr 1fr; gap: 12px">` +
+    field("expiry", "Validade", `inputmode="numeric" autocomplete="cc-exp" placeholder="MM/AA"`) +
+    field("cvv", "CVV", `inputmode="numeric" autocomplete="cc-csc" placeholder="000"`) +
+    `</div><script>${buildScript(parentOrigin)}</script></body></html>`
+
+  return new NextResponse(html, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": `frame-ancestors ${parentOrigin}`,
+    },
+  })
+}
@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { createSimulatedCardToken } from "@/lib/payment-simulator"
+
+/**
+ * Tokenização simulada do cartão, chamada pelos campos hospedados (/api/simulator/card/fields)
+ * (no gateway real, este endpoint fica fora do servidor da loja)
+ * Body: { publicKey, number, holderName, expMonth, expYear, cvv }
+ */
+export async function POST(request: NextRequest) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: "Simulador de pagamento desativado" },
+      { status: 404 }
+    )
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const result = await createSimulatedCardToken(body)
+
+  if (!result.success || !result.token) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: 422 }
+    )
+  }
+
+  return NextResponse.json({
+    token: result.token.token,
+    brand: result.token.brand,
+    lastDigits: result.token.lastDigits,
+    expiresAt: result.token.expiresAt,
+  })
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { listReceivedConversions } from "@/lib/conversion-simulator"
+
+/**
+ * Eventos recebidos pelos simuladores da Meta CAPI e do GA4
+ * Query: ?sink=meta_capi|ga4&orderId=
+ * (disponível apenas com PAYMENT_PROVIDER=simulator)
+ */
+export async function GET(request: NextRequest) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: "Simulador desativado" },
+      { status: 404 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const sink = searchParams.get("sink")
+  const events = await listReceivedConversions({
+    sink: sink === "meta_capi" || sink === "ga4" ? sink : undefined,
+    transactionId: searchParams.get("orderId") || undefined,
+  })
+
+  return NextResponse.json({ events })
+}
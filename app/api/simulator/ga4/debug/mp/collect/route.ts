@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { receiveGa4Events } from "@/lib/conversion-simulator"
+
+// Endpoint de depuração do GA4 simulado: valida sem registrar o evento
+// (disponível apenas com PAYMENT_PROVIDER=simulator)
+export async function POST(request: NextRequest) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: "Simulador desativado" },
+      { status: 404 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const body = await request.json().catch(() => null)
+  const { validationMessages } = await receiveGa4Events(body, {
+    measurementId: searchParams.get("measurement_id"),
+    apiSecret: searchParams.get("api_secret"),
+    debug: true,
+  })
+
+  return NextResponse.json({
+    validationMessages: validationMessages.map((description) => ({ description, validationCode: "VALUE_INVALID" })),
+  })
+}
@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { receiveGa4Events } from "@/lib/conversion-simulator"
+
+// GA4 Measurement Protocol simulado (GA4_BASE_URL=<site>/api/simulator/ga4)
+// (disponível apenas com PAYMENT_PROVIDER=simulator)
+export async function POST(request: NextRequest) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: "Simulador desativado" },
+      { status: 404 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const body = await request.json().catch(() => null)
+  await receiveGa4Events(body, {
+    measurementId: searchParams.get("measurement_id"),
+    apiSecret: searchParams.get("api_secret"),
+  })
+
+  // Como o GA4: 204 mesmo com payload inválido (erros só no endpoint de depuração)
+  return new NextResponse(null, { status: 204 })
+}
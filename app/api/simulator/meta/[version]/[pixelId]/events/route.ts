@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { receiveMetaCapiEvents } from "@/lib/conversion-simulator"
+
+// Meta Conversions API simulada (META_CAPI_BASE_URL=<site>/api/simulator/meta)
+// (disponível apenas com PAYMENT_PROVIDER=simulator)
+export async function POST(request: NextRequest) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: "Simulador desativado" },
+      { status: 404 }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const result = await receiveMetaCapiEvents(body)
+
+  // Erros no formato da Graph API
+  if (!result.success) {
+    return NextResponse.json(
+      { error: { message: result.validationMessages.join("; "), type: "OAuthException", code: 100 } },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({ events_received: result.eventsReceived, fbtrace_id: "simulator" })
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isSimulatorEnabled } from "@/lib/payment-provider"
+import { getSimulatedCharge, simulateChargeEvent } from "@/lib/payment-simulator"
+
+// Rotas de controle do simulador (disponíveis apenas com PAYMENT_PROVIDER=simulator)
+function simulatorDisabled() {
+  return NextResponse.json(
+    { error: "Simulador de pagamento desativado" },
+    { status: 404 }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ transactionId: string }> }) {
+  if (!isSimulatorEnabled()) return simulatorDisabled()
+
+  const { transactionId } = await params
+  const charge = await getSimulatedCharge(transactionId)
+
+  if (!charge) {
+    return NextResponse.json(
+      { error: "Cobrança não encontrada" },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(charge)
+}
+
+/**
+ * Body: { action: "pay" | "expire" | "chargeback" }
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ transactionId: string }> }) {
+  if (!isSimulatorEnabled()) return simulatorDisabled()
+
+  const { transactionId } = await params
+  const body = await request.json().catch(() => ({}))
+
+  if (body.action !== "pay" && body.action !== "expire" && body.action !== "chargeback") {
+    return NextResponse.json(
+      { error: "Ação inválida. Use \"pay\", \"expire\" ou \"chargeback\"" },
+      { status: 400 }
+    )
+  }
+
+  const result = await simulateChargeEvent(transactionId, body.action)
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.charge ? 409 : 404 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    charge: result.charge,
+    webhook: result.webhook,
+  })
+}
@@ -1,122 +1,83 @@
 import { type NextRequest, NextResponse } from "next/server"
-import {
-  verifyWebhookSignature,
-  processPixInWebhook,
-  type TrexPayWebhookPayload,
-} from "@/lib/trexpay"
-import {
-  sendOrderToUtmfy,
-  formatUtmfyDate,
-  type UtmfyOrderRequest,
-} from "@/lib/utmfy"
-import { getUtmParams } from "@/lib/server-utm-store"
+import { getPaymentProvider } from "@/lib/payment-provider"
+import { releaseWebhookNonce } from "@/lib/webhook-signature"
+import { markWebhookEvent, recordWebhookEvent } from "@/lib/webhook-events"
+import { processPaymentWebhookEvent } from "@/lib/payment-webhooks"
+import { createLogger, withRequestCorrelation } from "@/lib/logger"
 
-export async function POST(request: NextRequest) {
-  try {
-    // A TrexPay pode enviar a assinatura em diferentes headers
-    const signature =
-      request.headers.get("x-trexpay-signature") ||
-      request.headers.get("x-signature") ||
-      request.headers.get("signature") ||
-      ""
+const log = createLogger("TrexPay Webhook")
 
-    const body = await request.json()
+async function handleWebhook(request: NextRequest) {
+  let nonce: string | undefined
+  let eventId: string | undefined
 
-    console.log("[TrexPay Webhook] Recebido evento:", body.event)
-    console.log("[TrexPay Webhook] Headers recebidos:", Object.fromEntries(request.headers.entries()))
+  try {
+    const rawBody = await request.text()
+    const paymentProvider = getPaymentProvider()
 
-    // Verificar assinatura se disponível
-    const secret = process.env.TREXPAY_SECRET
-    if (secret) {
-      // Se há assinatura no payload (body.signature), usar ela
-      const signatureToVerify = signature || body.signature || ""
-      
-      if (signatureToVerify) {
-        const isValid = verifyWebhookSignature(body, signatureToVerify, secret)
-        if (!isValid) {
-          console.error("[TrexPay Webhook] Assinatura inválida")
-          console.error("[TrexPay Webhook] Assinatura recebida:", signatureToVerify)
-          return NextResponse.json(
-            { error: "Assinatura inválida" },
-            { status: 401 }
-          )
-        }
-        console.log("[TrexPay Webhook] Assinatura verificada com sucesso")
-      } else {
-        console.warn("[TrexPay Webhook] Nenhuma assinatura fornecida - prosseguindo sem validação")
-      }
-    }
+    // Validação da assinatura e normalização ficam a cargo do provedor configurado
+    const parsed = await paymentProvider.parseWebhook(rawBody, request.headers)
 
-    const payload = body as TrexPayWebhookPayload
+    // Toda entrega é registrada, inclusive as rejeitadas
+    const record = await recordWebhookEvent({
+      provider: paymentProvider.name,
+      headers: request.headers,
+      rawBody,
+      parsed,
+    })
+    eventId = record.id
 
-    // Processar evento de pagamento recebido (PIX IN)
-    if (payload.event === "pix.received") {
-      const pixData = processPixInWebhook(payload)
-      console.log("[TrexPay Webhook] PIX recebido:", pixData)
+    log.info("Evento registrado", { eventId: record.id, outcome: record.outcome, dedupeKey: record.dedupeKey })
 
-      // Se o pagamento foi aprovado, enviar para UTMify
-      if (pixData.status === "paid") {
-        try {
-          const storedUtmParams = getUtmParams(pixData.transactionId)
+    if (!parsed.success) {
+      if (parsed.error === "INVALID_PAYLOAD") {
+        return NextResponse.json(
+          { error: "Payload inválido" },
+          { status: 400 }
+        )
+      }
+      if (parsed.error === "REPLAYED") {
+        return NextResponse.json(
+          { error: "Webhook já recebido" },
+          { status: 409 }
+        )
+      }
+      return NextResponse.json(
+        { error: "Assinatura inválida", code: parsed.error },
+        { status: 401 }
+      )
+    }
+    nonce = parsed.nonce
 
-          const utmfyOrder: UtmfyOrderRequest = {
-            orderId: pixData.transactionId,
-            platform: "papelaria-site",
-            paymentMethod: "pix",
-            status: "paid",
-            createdAt: formatUtmfyDate(new Date()),
-            approvedDate: formatUtmfyDate(
-              pixData.paidAt ? new Date(pixData.paidAt) : new Date()
-            ),
-            refundedAt: null,
-            customer: {
-              name: pixData.payerName || "Cliente",
-              email: null,
-              phone: null,
-              document: pixData.payerDocument || null,
-              country: "BR",
-            },
-            products: [
-              {
-                id: "pix-payment",
-                name: "Pagamento PIX",
-                planId: null,
-                planName: null,
-                quantity: 1,
-                priceInCents: Math.round(pixData.amount * 100),
-              },
-            ],
-            trackingParameters: storedUtmParams || {
-              src: null,
-              sck: null,
-              utm_source: null,
-              utm_campaign: null,
-              utm_medium: null,
-              utm_content: null,
-              utm_term: null,
-            },
-            commission: {
-              totalPriceInCents: Math.round(pixData.amount * 100),
-              gatewayFeeInCents: 0,
-              userCommissionInCents: Math.round(pixData.amount * 100),
-              currency: "BRL",
-            },
-          }
+    if (record.outcome === "duplicate") {
+      log.info("Evento repetido ignorado", { eventId: record.id, duplicateOf: record.duplicateOf })
+      return NextResponse.json({ success: true, duplicate: true })
+    }
 
-          console.log("[TrexPay Webhook] Enviando para UTMify:", utmfyOrder)
-          await sendOrderToUtmfy(utmfyOrder)
-        } catch (utmfyError) {
-          console.error("[TrexPay Webhook] Erro ao enviar para UTMify:", utmfyError)
-        }
-      }
+    if (parsed.event) {
+      await processPaymentWebhookEvent(parsed.event)
+      await markWebhookEvent(record.id, "processed")
     }
 
     return NextResponse.json({ success: true })
   } catch (error) {
-    console.error("[TrexPay Webhook] Erro:", error)
+    log.error("Erro ao processar webhook", { eventId, error })
+    if (eventId) {
+      await markWebhookEvent(eventId, "failed", error instanceof Error ? error.message : "Erro desconhecido").catch(
+        () => undefined
+      )
+    }
+    // Permite que o gateway reenvie a mesma entrega
+    if (nonce) {
+      await releaseWebhookNonce(nonce).catch(() => undefined)
+    }
     return NextResponse.json(
       { error: "Erro interno ao processar webhook" },
       { status: 500 }
     )
   }
 }
+
+export async function POST(request: NextRequest) {
+  return withRequestCorrelation(request, () => handleWebhook(request))
+}
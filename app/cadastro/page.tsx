@@ -11,6 +11,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { useAuth } from "@/contexts/auth-context"
+import { getFieldErrors, signupSchema } from "@/lib/validation"
 
 export default function RegisterPage() {
   const router = useRouter()
@@ -22,6 +23,7 @@ export default function RegisterPage() {
   const [confirmPassword, setConfirmPassword] = useState("")
   const [showPassword, setShowPassword] = useState(false)
   const [error, setError] = useState("")
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
 
   const passwordRequirements = [
     { label: "Mínimo 6 caracteres", met: password.length >= 6 },
@@ -32,22 +34,16 @@ export default function RegisterPage() {
     e.preventDefault()
     setError("")
 
-    if (!name || !email || !password || !confirmPassword) {
-      setError("Preencha todos os campos.")
+    const validation = signupSchema.safeParse({ name, email, password, confirmPassword })
+    if (!validation.success) {
+      const errors = getFieldErrors(validation.error)
+      setFieldErrors(errors)
+      setError(errors.password || errors.confirmPassword || "Confira os campos destacados.")
       return
     }
+    setFieldErrors({})
 
-    if (password.length < 6) {
-      setError("A senha deve ter pelo menos 6 caracteres.")
-      return
-    }
-
-    if (password !== confirmPassword) {
-      setError("As senhas não coincidem.")
-      return
-    }
-
-    const result = await register(name, email, password)
+    const result = await register(validation.data.name, validation.data.email, password)
 
     if (result.success) {
       router.push("/")
@@ -96,9 +92,11 @@ export default function RegisterPage() {
                   className="pl-10 h-10 sm:h-11 text-sm"
                   value={name}
                   onChange={(e) => setName(e.target.value)}
+                  aria-invalid={!!fieldErrors.name}
                   disabled={isLoading}
                 />
               </div>
+              {fieldErrors.name && <p className="text-[10px] sm:text-xs text-destructive">{fieldErrors.name}</p>}
             </div>
 
             <div className="space-y-1.5 sm:space-y-2">
@@ -114,9 +112,11 @@ export default function RegisterPage() {
                   className="pl-10 h-10 sm:h-11 text-sm"
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
+                  aria-invalid={!!fieldErrors.email}
                   disabled={isLoading}
                 />
               </div>
+              {fieldErrors.email && <p className="text-[10px] sm:text-xs text-destructive">{fieldErrors.email}</p>}
             </div>
 
             <div className="space-y-1.5 sm:space-y-2">
@@ -9,13 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { useCart } from "@/contexts/cart-context"
 import { formatPrice } from "@/lib/utils"
-import type { ShippingOption } from "@/types"
-
-const shippingOptions: ShippingOption[] = [
-  { id: "pac", name: "PAC - Correios", price: 0, days: "5-8 dias úteis" },
-  { id: "sedex", name: "SEDEX", price: 7.9, days: "2-3 dias úteis" },
-  { id: "express", name: "Entrega Expressa", price: 12.9, days: "1-2 dias úteis" },
-]
+import { useShippingQuote } from "@/hooks/use-shipping-quote"
 
 export default function CartPage() {
   const {
@@ -23,9 +17,10 @@ export default function CartPage() {
     removeItem,
     updateQuantity,
     subtotal,
+    discountAmount,
     total,
     coupon,
-    couponDiscount,
+    couponNotice,
     applyCoupon,
     removeCoupon,
     shipping,
@@ -34,24 +29,43 @@ export default function CartPage() {
 
   const [couponInput, setCouponInput] = useState("")
   const [couponError, setCouponError] = useState("")
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false)
   const [cep, setCep] = useState("")
-  const [showShippingOptions, setShowShippingOptions] = useState(false)
+  const {
+    options: shippingOptions,
+    isLoading: isQuotingShipping,
+    error: shippingError,
+    quote: quoteShipping,
+    reset: resetShippingQuote,
+  } = useShippingQuote()
 
-  const handleApplyCoupon = () => {
+  const handleApplyCoupon = async () => {
     if (!couponInput.trim()) return
 
-    const success = applyCoupon(couponInput)
-    if (success) {
+    setIsApplyingCoupon(true)
+    const result = await applyCoupon(couponInput)
+    setIsApplyingCoupon(false)
+
+    if (result.success) {
       setCouponError("")
       setCouponInput("")
     } else {
-      setCouponError("Cupom inválido ou expirado")
+      setCouponError(result.error || "Cupom inválido ou expirado")
     }
   }
 
-  const handleCalculateShipping = () => {
-    if (cep.replace(/\D/g, "").length === 8) {
-      setShowShippingOptions(true)
+  const handleCalculateShipping = async () => {
+    if (cep.replace(/\D/g, "").length !== 8) return
+
+    const options = await quoteShipping(
+      cep,
+      items.map((item) => ({ id: item.product.id, quantity: item.quantity })),
+    )
+
+    // Mantém a opção escolhida, mas com o valor recalculado para o CEP
+    const refreshed = options?.find((option) => option.id === shipping?.id)
+    if (refreshed) {
+      setShipping(refreshed)
     }
   }
 
@@ -83,8 +97,6 @@ export default function CartPage() {
     )
   }
 
-  const discountAmount = (subtotal * couponDiscount) / 100
-
   return (
     <div className="min-h-screen bg-background">
       {/* Breadcrumb */}
@@ -204,19 +216,22 @@ export default function CartPage() {
                     value={cep}
                     onChange={(e) => {
                       setCep(e.target.value.replace(/\D/g, "").slice(0, 8))
-                      setShowShippingOptions(false)
+                      resetShippingQuote()
                     }}
                     className="flex-1 h-9 sm:h-10 text-sm"
                   />
                   <Button
                     onClick={handleCalculateShipping}
+                    disabled={isQuotingShipping}
                     className="bg-primary text-primary-foreground h-9 sm:h-10 text-sm px-3 sm:px-4"
                   >
-                    OK
+                    {isQuotingShipping ? "..." : "OK"}
                   </Button>
                 </div>
 
-                {showShippingOptions && (
+                {shippingError && <p className="text-xs sm:text-sm text-destructive">{shippingError}</p>}
+
+                {shippingOptions && (
                   <div className="space-y-2">
                     {shippingOptions.map((option) => (
                       <label
@@ -264,8 +279,8 @@ export default function CartPage() {
                 {coupon ? (
                   <div className="flex items-center justify-between p-2 sm:p-3 bg-primary/10 rounded-lg">
                     <div>
-                      <p className="font-medium text-primary text-sm sm:text-base">{coupon}</p>
-                      <p className="text-xs sm:text-sm text-muted-foreground">{couponDiscount}% de desconto aplicado</p>
+                      <p className="font-medium text-primary text-sm sm:text-base">{coupon.code}</p>
+                      <p className="text-xs sm:text-sm text-muted-foreground">{coupon.description}</p>
                     </div>
                     <Button
                       variant="ghost"
@@ -290,12 +305,16 @@ export default function CartPage() {
                       />
                       <Button
                         onClick={handleApplyCoupon}
+                        disabled={isApplyingCoupon}
                         className="bg-primary text-primary-foreground h-9 sm:h-10 text-sm px-3 sm:px-4"
                       >
-                        Aplicar
+                        {isApplyingCoupon ? "..." : "Aplicar"}
                       </Button>
                     </div>
                     {couponError && <p className="text-xs sm:text-sm text-destructive">{couponError}</p>}
+                    {!couponError && couponNotice && (
+                      <p className="text-xs sm:text-sm text-destructive">{couponNotice}</p>
+                    )}
                     <p className="text-[10px] sm:text-xs text-muted-foreground">
                       Experimente: VOLTA10, ESCOLA20 ou PRIMEIRACOMPRA
                     </p>
@@ -316,9 +335,9 @@ export default function CartPage() {
                     <span className="font-medium break-all text-right">{formatPrice(subtotal)}</span>
                   </div>
 
-                  {coupon && (
+                  {coupon && discountAmount > 0 && (
                     <div className="flex flex-wrap justify-between gap-x-2 text-green-600 text-sm sm:text-base">
-                      <span className="flex-shrink-0">Desconto ({couponDiscount}%)</span>
+                      <span className="flex-shrink-0">Desconto ({coupon.code})</span>
                       <span className="font-medium break-all text-right">-{formatPrice(discountAmount)}</span>
                     </div>
                   )}
@@ -326,9 +345,13 @@ export default function CartPage() {
                   <div className="flex flex-wrap justify-between gap-x-2 text-sm sm:text-base text-card-foreground">
                     <span className="flex-shrink-0">Frete</span>
                     <span
-                      className={`font-medium break-all text-right ${shipping?.price === 0 ? "text-green-600 font-semibold" : ""}`}
+                      className={`font-medium break-all text-right ${shipping?.price === 0 || coupon?.freeShipping ? "text-green-600 font-semibold" : ""}`}
                     >
-                      {shipping ? (shipping.price === 0 ? "Grátis" : formatPrice(shipping.price)) : "Calcule o frete"}
+                      {shipping
+                        ? shipping.price === 0 || coupon?.freeShipping
+                          ? "Grátis"
+                          : formatPrice(shipping.price)
+                        : "Calcule o frete"}
                     </span>
                   </div>
                 </div>
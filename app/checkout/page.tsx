@@ -1,28 +1,110 @@
 "use client"
 
-import { useState, Suspense, useEffect, useCallback } from "react"
+import { useState, Suspense, useEffect, useRef } from "react"
 import Image from "next/image"
 import { useRouter } from "next/navigation"
-import { Check, MapPin, Truck, CreditCard, Shield, QrCode, Loader2, Copy, Clock, CheckCircle, X } from "lucide-react"
+import {
+  Check,
+  MapPin,
+  Truck,
+  CreditCard,
+  Shield,
+  QrCode,
+  Loader2,
+  Copy,
+  Clock,
+  CheckCircle,
+  X,
+  RefreshCw,
+  Barcode,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { useCart } from "@/contexts/cart-context"
-import { formatPrice, formatCPF, formatPhone, formatCEP } from "@/lib/utils"
-import { useUtmParams, getUtmParamsFromStorage } from "@/hooks/use-utm-params"
-import type { ShippingOption } from "@/types"
+import { formatPrice, formatCPF, formatPhone, formatCEP, normalizeText, formatCountdown } from "@/lib/utils"
+import { useUtmParams, getUtmParamsFromStorage, getAttributionFromStorage } from "@/hooks/use-utm-params"
+import { useShippingQuote } from "@/hooks/use-shipping-quote"
+import { usePaymentStatus, requestNewCharge } from "@/hooks/use-payment-status"
+import { useCountdown } from "@/hooks/use-countdown"
+import type { PriceBreakdown } from "@/lib/pricing"
+import type { CardHostedFieldsConfig, PaymentMethod } from "@/lib/payment-provider"
+import type { InstallmentOption } from "@/lib/installments"
+import { requestCardToken, subscribeCardFieldsState, type CardFieldsState } from "@/lib/card-hosted-fields"
+import { CardPaymentForm } from "@/components/card-payment-form"
+import { trackPixelConversion } from "@/lib/conversion-pixels"
+import { addressSchema, customerSchema, getFieldErrors } from "@/lib/validation"
+import {
+  HONEYPOT_FIELD,
+  solveProofOfWork,
+  type CheckoutChallengeSolution,
+  type ProofOfWorkChallenge,
+} from "@/lib/checkout-challenge"
 import { QRCodeSVG } from "qrcode.react"
 
+interface CepInfo {
+  city: string
+  state: string
+  deliverable: boolean
+  coverageMessage?: string
+}
+
 interface PixData {
   qrcode: string
   transactionId: string
   orderId: string
+  totals: PriceBreakdown
+  expiresAt: string | null
+}
+
+// Hash curto (FNV-1a) do conteúdo do pedido para compor a chave de idempotência
+function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, { title: string; description: string }> = {
+  pix: { title: "Pix", description: "Aprovação imediata" },
+  boleto: { title: "Boleto bancário", description: "Confirmação em até 3 dias úteis após o pagamento" },
+  credit_card: { title: "Cartão de crédito", description: "Parcele sua compra, aprovação na hora" },
+}
+
+const EMPTY_CARD_FIELDS: CardFieldsState = { complete: false, brand: "unknown" }
+
+const ORDER_IN_PROGRESS_RETRY_MS = 1500
+const ORDER_IN_PROGRESS_MAX_RETRIES = 5
+
+// Desafio anti-robô configurado no servidor (honeypot e, no modo "pow", prova de trabalho)
+async function solveCheckoutChallenge(idempotencyKey: string, honeypot: string): Promise<CheckoutChallengeSolution> {
+  const solution: CheckoutChallengeSolution = { [HONEYPOT_FIELD]: honeypot }
+  const response = await fetch("/api/pix/challenge", { cache: "no-store" })
+  const data: { mode?: string; challenge?: ProofOfWorkChallenge } = await response.json()
+  if (data.mode === "pow" && data.challenge) {
+    solution.token = data.challenge.token
+    solution.nonce = await solveProofOfWork(data.challenge, idempotencyKey)
+  }
+  return solution
 }
 
 function CheckoutContent() {
   const router = useRouter()
-  const { items, subtotal, total, couponDiscount, shipping, setShipping, clearCart } = useCart()
+  const {
+    items,
+    subtotal,
+    discountAmount,
+    total,
+    coupon,
+    couponNotice,
+    shipping,
+    setShipping,
+    updateCheckoutData,
+    clearCart,
+  } = useCart()
   const utmParams = useUtmParams()
 
   const [step, setStep] = useState(1)
@@ -42,46 +124,237 @@ function CheckoutContent() {
     cpf: "",
     phone: "",
   })
+  // Nonce da sessão de checkout: repetições do mesmo pedido reutilizam a mesma chave
+  const checkoutNonceRef = useRef<string | null>(null)
+  const isSubmittingRef = useRef(false)
+  const cardFrameRef = useRef<HTMLIFrameElement>(null)
+  const [touchedFields, setTouchedFields] = useState<Record<string, boolean>>({})
   const [error, setError] = useState<string | null>(null)
+  // Campo invisível: só robôs o preenchem
+  const [honeypot, setHoneypot] = useState("")
+  // Fim do bloqueio após um 429 (muitas tentativas)
+  const [retryAt, setRetryAt] = useState<number | null>(null)
+  const [cepInfo, setCepInfo] = useState<CepInfo | null>(null)
+  const [cepError, setCepError] = useState<string | null>(null)
+  const [isLookingUpCep, setIsLookingUpCep] = useState(false)
 
   const [showPixModal, setShowPixModal] = useState(false)
   const [pixData, setPixData] = useState<PixData | null>(null)
   const [copied, setCopied] = useState(false)
-  const [paymentStatus, setPaymentStatus] = useState<"waiting" | "paid" | "error">("waiting")
+  const [paymentStatus, setPaymentStatus] = useState<"waiting" | "paid" | "expired" | "error">("waiting")
   const [isPolling, setIsPolling] = useState(false)
+  const [isRegeneratingPix, setIsRegeneratingPix] = useState(false)
+  const [regenerateError, setRegenerateError] = useState<string | null>(null)
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("pix")
+  const [availableMethods, setAvailableMethods] = useState<PaymentMethod[]>(["pix"])
+  const [boletoBusinessDays, setBoletoBusinessDays] = useState<number | null>(null)
+  const [cardHostedFields, setCardHostedFields] = useState<CardHostedFieldsConfig | null>(null)
+  const [cardFieldsState, setCardFieldsState] = useState<CardFieldsState>(EMPTY_CARD_FIELDS)
+  const [installmentOptions, setInstallmentOptions] = useState<InstallmentOption[] | null>(null)
+  const [isLoadingInstallments, setIsLoadingInstallments] = useState(false)
+  const [installments, setInstallments] = useState(1)
+  // Boleto emitido: o carrinho é limpo antes de ir para a página de obrigado
+  const [isRedirecting, setIsRedirecting] = useState(false)
+  const {
+    options: shippingOptions,
+    isLoading: isQuotingShipping,
+    error: shippingError,
+    quote: quoteShipping,
+  } = useShippingQuote()
 
-  const checkPaymentStatus = useCallback(async () => {
-    if (!pixData?.transactionId) return
-
-    try {
-      const response = await fetch(`/api/pix/status?transactionId=${pixData.transactionId}`)
-      const data = await response.json()
+  // Cotação com o CEP do endereço de entrega ao chegar na etapa de pagamento
+  useEffect(() => {
+    if (step !== 3 || cep.replace(/\D/g, "").length !== 8 || items.length === 0) return
 
-      if (data.status === "paid" || data.status === "approved") {
-        setPaymentStatus("paid")
-        setIsPolling(false)
-        setTimeout(() => {
-          clearCart()
-          router.push(`/obrigado?pedido=${pixData.orderId}&metodo=pix&status=paid`)
-        }, 2000)
+    quoteShipping(
+      cep,
+      items.map((item) => ({ id: item.product.id, quantity: item.quantity })),
+    ).then((options) => {
+      const refreshed = options?.find((option) => option.id === shipping?.id)
+      if (refreshed && refreshed.price !== shipping?.price) {
+        setShipping(refreshed)
       }
-    } catch (error) {
-      console.error("Error checking status:", error)
+    })
+  }, [step, cep, items, quoteShipping])
+
+  // O carrinho revalida o cupom com o CPF informado (limite de uso por CPF)
+  useEffect(() => {
+    updateCheckoutData({ customer: customerData })
+  }, [customerData, updateCheckoutData])
+
+  // Formas de pagamento aceitas pelo gateway configurado
+  useEffect(() => {
+    fetch("/api/payment-methods")
+      .then((response) => response.json())
+      .then(
+        (data: {
+          methods?: PaymentMethod[]
+          boletoExpirationBusinessDays?: number
+          card?: CardHostedFieldsConfig | null
+        }) => {
+          // Cartão só é oferecido com os campos hospedados do gateway disponíveis
+          const methods = data.methods?.filter((method) => method !== "credit_card" || !!data.card)
+          if (methods?.length) setAvailableMethods(methods)
+          if (data.boletoExpirationBusinessDays) setBoletoBusinessDays(data.boletoExpirationBusinessDays)
+          if (data.card) setCardHostedFields(data.card)
+        }
+      )
+      .catch(() => {})
+  }, [])
+
+  // Preenchimento dos campos hospedados do cartão (o iframe recomeça vazio a cada exibição)
+  useEffect(() => {
+    if (paymentMethod !== "credit_card" || !cardHostedFields) return
+    setCardFieldsState(EMPTY_CARD_FIELDS)
+    return subscribeCardFieldsState(cardHostedFields.url, setCardFieldsState)
+  }, [paymentMethod, cardHostedFields])
+
+  // Parcelas calculadas no servidor para o total atual do carrinho
+  useEffect(() => {
+    if (paymentMethod !== "credit_card" || total <= 0) return
+
+    let cancelled = false
+    setIsLoadingInstallments(true)
+    fetch(`/api/payment-methods/installments?amount=${total.toFixed(2)}`)
+      .then((response) => response.json())
+      .then((data: { options?: InstallmentOption[] }) => {
+        if (cancelled) return
+        const options = data.options || []
+        setInstallmentOptions(options)
+        setInstallments((current) => (options.some((option) => option.installments === current) ? current : 1))
+      })
+      .catch(() => {
+        if (!cancelled) setInstallmentOptions(null)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingInstallments(false)
+      })
+
+    return () => {
+      cancelled = true
     }
-  }, [pixData, clearCart, router])
+  }, [paymentMethod, total])
 
+  // Preenche cidade/UF (e logradouro/bairro, quando disponíveis) a partir do CEP
   useEffect(() => {
-    if (!isPolling || !pixData) return
+    const digits = cep.replace(/\D/g, "")
+    setCepInfo(null)
+    setCepError(null)
+    if (digits.length !== 8) return
+
+    let cancelled = false
+    setIsLookingUpCep(true)
 
-    checkPaymentStatus()
-    const interval = setInterval(checkPaymentStatus, 5000)
-    const timeout = setTimeout(() => setIsPolling(false), 30 * 60 * 1000)
+    fetch(`/api/cep/${digits}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (cancelled) return
+
+        if (!response.ok) {
+          setCepError(data.error || "CEP não encontrado")
+          return
+        }
+
+        setCepInfo({
+          city: data.city,
+          state: data.state,
+          deliverable: data.deliverable,
+          coverageMessage: data.coverageMessage,
+        })
+        setAddressData((prev) => ({
+          ...prev,
+          street: data.street || prev.street,
+          neighborhood: data.neighborhood || prev.neighborhood,
+          city: data.city || prev.city,
+          state: data.state,
+        }))
+      })
+      .catch(() => {
+        if (!cancelled) setCepError("Não foi possível consultar o CEP")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLookingUpCep(false)
+      })
 
     return () => {
-      clearInterval(interval)
-      clearTimeout(timeout)
+      cancelled = true
+    }
+  }, [cep])
+
+  const addressErrors: Record<string, string> = {}
+  if (cepInfo) {
+    if (!cepInfo.deliverable) {
+      addressErrors.cep = cepInfo.coverageMessage || "CEP fora da área de entrega"
+    }
+    if (addressData.state && addressData.state !== cepInfo.state) {
+      addressErrors.state = `O estado não corresponde ao CEP (esperado ${cepInfo.state})`
+    }
+    if (cepInfo.city && addressData.city && normalizeText(addressData.city) !== normalizeText(cepInfo.city)) {
+      addressErrors.city = `A cidade não corresponde ao CEP (esperado ${cepInfo.city})`
+    }
+  } else if (cepError) {
+    addressErrors.cep = cepError
+  }
+
+  const customerValidation = customerSchema.safeParse(customerData)
+  const customerErrors: Record<string, string> = customerValidation.success ? {} : getFieldErrors(customerValidation.error)
+  const markTouched = (field: string) => setTouchedFields((prev) => ({ ...prev, [field]: true }))
+
+  const selectedInstallment = installmentOptions?.find((option) => option.installments === installments) || null
+
+  useEffect(() => {
+    if (!retryAt) return
+    const timer = setTimeout(() => {
+      setRetryAt(null)
+      setError(null)
+    }, Math.max(0, retryAt - Date.now()))
+    return () => clearTimeout(timer)
+  }, [retryAt])
+
+  // Status ao vivo do PIX (stream do pedido, com consulta de reserva)
+  usePaymentStatus({
+    orderId: pixData?.orderId,
+    transactionId: pixData?.transactionId,
+    enabled: isPolling,
+    onChange: (status) => {
+      if (status === "expired") {
+        setPaymentStatus("expired")
+        setIsPolling(false)
+        return
+      }
+      if (status !== "paid" || !pixData) return
+      setPaymentStatus("paid")
+      setIsPolling(false)
+      setTimeout(() => {
+        clearCart()
+        router.push(`/obrigado?pedido=${pixData.orderId}&metodo=pix&status=paid`)
+      }, 2000)
+    },
+  })
+
+  // Contagem regressiva a partir do vencimento real do PIX
+  const pixSecondsLeft = useCountdown(pixData?.expiresAt)
+
+  const handleRegeneratePix = async () => {
+    if (!pixData || isRegeneratingPix) return
+    setIsRegeneratingPix(true)
+    setRegenerateError(null)
+
+    const result = await requestNewCharge(pixData.orderId)
+    if (result.success && result.transactionId) {
+      setPixData({
+        ...pixData,
+        qrcode: result.qrcode || "",
+        transactionId: result.transactionId,
+        expiresAt: result.expiresAt || null,
+      })
+      setPaymentStatus("waiting")
+      setIsPolling(true)
+    } else {
+      setRegenerateError(result.error || "Não foi possível gerar um novo PIX")
     }
-  }, [isPolling, pixData, checkPaymentStatus])
+    setIsRegeneratingPix(false)
+  }
 
   const handleCopyPixCode = () => {
     if (pixData?.qrcode) {
@@ -94,18 +367,16 @@ function CheckoutContent() {
   const validateStep = (step: number): boolean => {
     switch (step) {
       case 1:
-        return !!(items.length > 0 && customerData.name && customerData.email && customerData.cpf && customerData.phone)
+        return items.length > 0 && customerValidation.success
       case 2:
-        return !!(
-          cep &&
-          addressData.street &&
-          addressData.number &&
-          addressData.neighborhood &&
-          addressData.city &&
-          addressData.state
+        return (
+          !!cepInfo &&
+          Object.keys(addressErrors).length === 0 &&
+          addressSchema.safeParse({ ...addressData, cep }).success
         )
       case 3:
-        return !!shipping
+        if (!shipping || !shippingOptions?.some((option) => option.id === shipping.id)) return false
+        return paymentMethod !== "credit_card" || (cardFieldsState.complete && !!selectedInstallment)
       default:
         return false
     }
@@ -128,46 +399,141 @@ function CheckoutContent() {
   const handleFinishOrder = async () => {
     if (!validateStep(3)) return
 
+    if (isSubmittingRef.current) return
+    isSubmittingRef.current = true
     setIsProcessing(true)
     setError(null)
 
     try {
       const freshUtmParams = getUtmParamsFromStorage()
-      console.log("[v0] UTM Params being sent:", JSON.stringify(freshUtmParams))
+      const attribution = getAttributionFromStorage()
+
+      const orderItems = items.map((item) => ({
+        id: item.product.id,
+        name: item.product.name,
+        price: item.product.price,
+        quantity: item.quantity,
+      }))
+
+      if (!checkoutNonceRef.current) {
+        checkoutNonceRef.current = crypto.randomUUID()
+      }
+      const idempotencyKey = `${checkoutNonceRef.current}-${hashString(
+        JSON.stringify({
+          items: orderItems.map((item) => [item.id, item.quantity]),
+          cpf: customerData.cpf,
+          cep,
+          shipping: shipping?.id || null,
+          coupon: coupon?.code || null,
+          paymentMethod,
+          installments: paymentMethod === "credit_card" ? installments : null,
+        })
+      )}`
 
-      const response = await fetch("/api/pix/create", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+      // Cartão: os dados ficam nos campos hospedados do gateway; a loja recebe apenas o token
+      let payment: { method: PaymentMethod; cardToken?: string; installments?: number } = { method: paymentMethod }
+      if (paymentMethod === "credit_card") {
+        if (!cardHostedFields) throw new Error("Pagamento no cartão indisponível no momento")
+        const tokenResult = await requestCardToken(cardFrameRef.current, cardHostedFields.url)
+        if (!tokenResult.success || !tokenResult.token) {
+          throw new Error(tokenResult.error || "Não foi possível validar o cartão")
+        }
+        payment = { method: paymentMethod, cardToken: tokenResult.token, installments }
+      }
+
+      const challenge = await solveCheckoutChallenge(idempotencyKey, honeypot)
+
+      const body = JSON.stringify({
+        customer: customerData,
+        address: {
+          ...addressData,
+          cep: cep,
         },
-        body: JSON.stringify({
-          customer: customerData,
-          address: {
-            ...addressData,
-            cep: cep,
-          },
-          items: items.map((item) => ({
-            id: item.product.id,
-            name: item.product.name,
-            price: item.product.price,
-            quantity: item.quantity,
-          })),
-          total: total,
-          shipping: shipping,
-          trackingParams: freshUtmParams,
-        }),
+        items: orderItems,
+        total: total,
+        shipping: shipping,
+        coupon: coupon?.code || null,
+        payment,
+        trackingParams: freshUtmParams,
+        attribution,
+        challenge,
       })
 
-      const data = await response.json()
+      let response: Response
+      let data
+      let attempt = 0
+      while (true) {
+        response = await fetch("/api/pix/create", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": idempotencyKey,
+            "X-Correlation-Id": checkoutNonceRef.current,
+          },
+          body,
+        })
+        data = await response.json()
+
+        // Outra requisição com a mesma chave ainda está gerando o PIX
+        if (data.code !== "ORDER_IN_PROGRESS" || attempt >= ORDER_IN_PROGRESS_MAX_RETRIES) break
+        attempt++
+        await new Promise((resolve) => setTimeout(resolve, ORDER_IN_PROGRESS_RETRY_MS))
+      }
 
       if (!response.ok) {
-        throw new Error(data.error || "Erro ao gerar PIX")
+        if (data.code === "RATE_LIMITED") {
+          setRetryAt(Date.now() + (Number(data.retryAfter) || 60) * 1000)
+        }
+        if (data.fieldErrors && Object.keys(data.fieldErrors).some((field) => field.startsWith("customer."))) {
+          setTouchedFields({ name: true, email: true, cpf: true, phone: true })
+          setStep(1)
+        }
+        if (data.code === "CARD_DECLINED") {
+          // A recusa fica gravada para a chave atual: a próxima tentativa é um novo pedido
+          checkoutNonceRef.current = null
+          throw new Error(`Pagamento não aprovado: ${data.error}. Confira os dados ou use outro cartão.`)
+        }
+        if (data.code === "TOTAL_MISMATCH" && data.totals) {
+          throw new Error(`${data.error} Valor correto: ${formatPrice(data.totals.total)}`)
+        }
+        throw new Error(data.error || "Erro ao gerar pagamento")
+      }
+
+      // Pixels do navegador com o mesmo eventID do InitiateCheckout enviado pelo servidor
+      if (data.conversionEventIds) {
+        trackPixelConversion("InitiateCheckout", {
+          orderId: data.orderId,
+          eventId: data.conversionEventIds.initiateCheckout,
+          value: data.totals?.total ?? total,
+        })
+      }
+
+      // Boleto: linha digitável, código de barras e PDF ficam na página de obrigado
+      if (data.paymentMethod === "boleto") {
+        setIsRedirecting(true)
+        clearCart()
+        router.push(`/obrigado?pedido=${data.orderId}&metodo=boleto`)
+        return
+      }
+
+      // Cartão: aprovado na hora ou autenticação 3DS na página do emissor (volta para a página de obrigado)
+      if (data.paymentMethod === "credit_card") {
+        setIsRedirecting(true)
+        if (data.card?.authenticationUrl) {
+          window.location.assign(data.card.authenticationUrl)
+          return
+        }
+        if (data.card?.status === "paid") clearCart()
+        router.push(`/obrigado?pedido=${data.orderId}&metodo=credit_card`)
+        return
       }
 
       setPixData({
         qrcode: data.pix?.qrcode || data.pix?.pixKey || "",
         transactionId: data.transactionId,
         orderId: data.orderId,
+        totals: data.totals,
+        expiresAt: data.pix?.expiresAt || null,
       })
       setShowPixModal(true)
       setIsPolling(true)
@@ -176,11 +542,12 @@ function CheckoutContent() {
       console.error("Checkout Error:", err)
       setError(err instanceof Error ? err.message : "Erro ao processar pagamento")
     } finally {
+      isSubmittingRef.current = false
       setIsProcessing(false)
     }
   }
 
-  if (items.length === 0 && !showPixModal) {
+  if (items.length === 0 && !showPixModal && !isRedirecting) {
     router.push("/carrinho")
     return null
   }
@@ -191,12 +558,6 @@ function CheckoutContent() {
     { id: 3, title: "Pagamento", icon: CreditCard },
   ]
 
-  const shippingOptions: ShippingOption[] = [
-    { id: "pac", name: "PAC - Correios", price: 0, days: "5-8 dias úteis" },
-    { id: "sedex", name: "SEDEX", price: 7.9, days: "2-3 dias úteis" },
-    { id: "express", name: "Entrega Expressa", price: 12.9, days: "1-2 dias úteis" },
-  ]
-
   return (
     <div className="min-h-screen bg-muted/30">
       {showPixModal && pixData && (
@@ -217,7 +578,11 @@ function CheckoutContent() {
                   )}
                   <div>
                     <h2 className="font-bold text-card-foreground text-sm sm:text-base">
-                      {paymentStatus === "paid" ? "Pagamento Aprovado!" : "Aguardando Pagamento"}
+                      {paymentStatus === "paid"
+                        ? "Pagamento Aprovado!"
+                        : paymentStatus === "expired"
+                          ? "PIX Expirado"
+                          : "Aguardando Pagamento"}
                     </h2>
                     <p className="text-xs sm:text-sm text-muted-foreground">Pedido #{pixData.orderId}</p>
                   </div>
@@ -243,6 +608,29 @@ function CheckoutContent() {
                   </p>
                   <p className="text-xs sm:text-sm text-muted-foreground">Redirecionando...</p>
                 </div>
+              ) : paymentStatus === "expired" ? (
+                <div className="text-center py-4 sm:py-6">
+                  <div className="w-16 h-16 sm:w-20 sm:h-20 mx-auto mb-3 sm:mb-4 rounded-full bg-yellow-500 flex items-center justify-center">
+                    <Clock className="h-10 w-10 sm:h-12 sm:w-12 text-white" />
+                  </div>
+                  <h3 className="text-lg sm:text-xl font-bold text-card-foreground mb-2">O prazo do PIX terminou</h3>
+                  <p className="text-sm sm:text-base text-muted-foreground mb-4">
+                    Seu pedido continua reservado. Gere um novo código para concluir o pagamento.
+                  </p>
+                  {regenerateError && <p className="text-xs sm:text-sm text-destructive mb-3">{regenerateError}</p>}
+                  <Button
+                    onClick={handleRegeneratePix}
+                    disabled={isRegeneratingPix}
+                    className="w-full bg-primary text-primary-foreground hover:bg-primary/90 h-10 sm:h-11 text-sm"
+                  >
+                    {isRegeneratingPix ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                    )}
+                    Gerar novo PIX
+                  </Button>
+                </div>
               ) : (
                 <>
                   {/* QR Code */}
@@ -268,7 +656,7 @@ function CheckoutContent() {
                   <div className="bg-green-500/10 rounded-xl p-3 sm:p-4 mb-3 sm:mb-4 text-center">
                     <p className="text-xs sm:text-sm text-muted-foreground mb-1">Valor a pagar</p>
                     <p className="text-xl sm:text-2xl font-bold text-green-600">
-                      {formatPrice(subtotal + (shipping?.price || 0))}
+                      {formatPrice(pixData.totals?.total ?? total)}
                     </p>
                   </div>
 
@@ -313,7 +701,13 @@ function CheckoutContent() {
                     <div className="flex items-start gap-2 sm:gap-3">
                       <Clock className="h-4 w-4 sm:h-5 sm:w-5 text-yellow-600 mt-0.5 flex-shrink-0" />
                       <div>
-                        <p className="font-medium text-card-foreground text-xs sm:text-sm">Pague em até 30 minutos</p>
+                        <p className="font-medium text-card-foreground text-xs sm:text-sm">
+                          {pixSecondsLeft === null
+                            ? "Pague o quanto antes"
+                            : pixSecondsLeft > 0
+                              ? `Este PIX expira em ${formatCountdown(pixSecondsLeft)}`
+                              : "Prazo encerrado, verificando pagamento..."}
+                        </p>
                         <p className="text-[10px] sm:text-xs text-muted-foreground">
                           O pagamento é confirmado automaticamente. Não feche esta página.
                         </p>
@@ -406,11 +800,24 @@ function CheckoutContent() {
                     <span className="text-card-foreground">{formatPrice(subtotal)}</span>
                   </div>
 
+                  {coupon && discountAmount > 0 && (
+                    <div className="flex justify-between text-xs sm:text-sm text-green-600">
+                      <span>Desconto ({coupon.code})</span>
+                      <span>-{formatPrice(discountAmount)}</span>
+                    </div>
+                  )}
+
+                  {couponNotice && <p className="text-xs sm:text-sm text-destructive">{couponNotice}</p>}
+
                   {shipping && (
                     <div className="flex justify-between text-xs sm:text-sm">
                       <span className="text-muted-foreground">Frete</span>
-                      <span className={shipping.price === 0 ? "text-green-600 font-medium" : "text-card-foreground"}>
-                        {shipping.price === 0 ? "Grátis" : formatPrice(shipping.price)}
+                      <span
+                        className={
+                          shipping.price === 0 || coupon?.freeShipping ? "text-green-600 font-medium" : "text-card-foreground"
+                        }
+                      >
+                        {shipping.price === 0 || coupon?.freeShipping ? "Grátis" : formatPrice(shipping.price)}
                       </span>
                     </div>
                   )}
@@ -419,9 +826,7 @@ function CheckoutContent() {
                 <div className="border-t border-border pt-3 sm:pt-4">
                   <div className="flex justify-between">
                     <span className="font-semibold text-card-foreground text-sm sm:text-base">Total</span>
-                    <span className="font-bold text-lg sm:text-xl text-primary">
-                      {formatPrice(subtotal + (shipping?.price || 0))}
-                    </span>
+                    <span className="font-bold text-lg sm:text-xl text-primary">{formatPrice(total)}</span>
                   </div>
                 </div>
               </CardContent>
@@ -475,8 +880,13 @@ function CheckoutContent() {
                           placeholder="Seu nome"
                           value={customerData.name}
                           onChange={(e) => setCustomerData((prev) => ({ ...prev, name: e.target.value }))}
+                          onBlur={() => markTouched("name")}
+                          aria-invalid={!!(touchedFields.name && customerErrors.name)}
                           className="h-10 sm:h-11 text-sm"
                         />
+                        {touchedFields.name && customerErrors.name && (
+                          <p className="text-[10px] sm:text-xs text-destructive">{customerErrors.name}</p>
+                        )}
                       </div>
 
                       <div className="grid gap-1.5 sm:gap-2">
@@ -488,10 +898,27 @@ function CheckoutContent() {
                           placeholder="seuemail@example.com"
                           value={customerData.email}
                           onChange={(e) => setCustomerData((prev) => ({ ...prev, email: e.target.value }))}
+                          onBlur={() => markTouched("email")}
+                          aria-invalid={!!(touchedFields.email && customerErrors.email)}
                           className="h-10 sm:h-11 text-sm"
                         />
+                        {touchedFields.email && customerErrors.email && (
+                          <p className="text-[10px] sm:text-xs text-destructive">{customerErrors.email}</p>
+                        )}
                       </div>
 
+                      {/* Honeypot: fora da tela e fora da navegação por teclado */}
+                      <input
+                        type="text"
+                        name={HONEYPOT_FIELD}
+                        value={honeypot}
+                        onChange={(e) => setHoneypot(e.target.value)}
+                        tabIndex={-1}
+                        autoComplete="off"
+                        aria-hidden="true"
+                        className="absolute -left-[9999px] h-px w-px opacity-0"
+                      />
+
                       <div className="grid gap-1.5 sm:gap-2">
                         <Label htmlFor="cpf" className="text-foreground text-sm">
                           CPF *
@@ -501,8 +928,13 @@ function CheckoutContent() {
                           placeholder="000.000.000-00"
                           value={customerData.cpf}
                           onChange={(e) => setCustomerData((prev) => ({ ...prev, cpf: formatCPF(e.target.value) }))}
+                          onBlur={() => markTouched("cpf")}
+                          aria-invalid={!!(touchedFields.cpf && customerErrors.cpf)}
                           className="h-10 sm:h-11 text-sm"
                         />
+                        {touchedFields.cpf && customerErrors.cpf && (
+                          <p className="text-[10px] sm:text-xs text-destructive">{customerErrors.cpf}</p>
+                        )}
                       </div>
 
                       <div className="grid gap-1.5 sm:gap-2">
@@ -514,8 +946,13 @@ function CheckoutContent() {
                           placeholder="(00) 00000-0000"
                           value={customerData.phone}
                           onChange={(e) => setCustomerData((prev) => ({ ...prev, phone: formatPhone(e.target.value) }))}
+                          onBlur={() => markTouched("phone")}
+                          aria-invalid={!!(touchedFields.phone && customerErrors.phone)}
                           className="h-10 sm:h-11 text-sm"
                         />
+                        {touchedFields.phone && customerErrors.phone && (
+                          <p className="text-[10px] sm:text-xs text-destructive">{customerErrors.phone}</p>
+                        )}
                       </div>
                     </div>
 
@@ -562,6 +999,15 @@ function CheckoutContent() {
                           maxLength={9}
                           className="h-10 sm:h-11 text-sm"
                         />
+                        {isLookingUpCep && (
+                          <p className="text-[10px] sm:text-xs text-muted-foreground flex items-center gap-1">
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                            Buscando endereço...
+                          </p>
+                        )}
+                        {addressErrors.cep && (
+                          <p className="text-[10px] sm:text-xs text-destructive">{addressErrors.cep}</p>
+                        )}
                       </div>
 
                       <div className="grid gap-1.5 sm:gap-2">
@@ -629,6 +1075,9 @@ function CheckoutContent() {
                             onChange={(e) => setAddressData((prev) => ({ ...prev, city: e.target.value }))}
                             className="h-10 sm:h-11 text-sm"
                           />
+                          {addressErrors.city && (
+                            <p className="text-[10px] sm:text-xs text-destructive">{addressErrors.city}</p>
+                          )}
                         </div>
                         <div className="grid gap-1.5 sm:gap-2">
                           <Label htmlFor="state" className="text-foreground text-sm">
@@ -644,6 +1093,9 @@ function CheckoutContent() {
                             maxLength={2}
                             className="h-10 sm:h-11 text-sm"
                           />
+                          {addressErrors.state && (
+                            <p className="text-[10px] sm:text-xs text-destructive">{addressErrors.state}</p>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -675,19 +1127,29 @@ function CheckoutContent() {
                   <div className="space-y-4 sm:space-y-6">
                     <div className="mb-4 sm:mb-6">
                       <h2 className="text-lg sm:text-xl font-bold text-card-foreground mb-1">Forma de Pagamento</h2>
-                      <p className="text-muted-foreground text-xs sm:text-sm">Pagamento via Pix</p>
+                      <p className="text-muted-foreground text-xs sm:text-sm">
+                        {paymentMethod === "boleto"
+                          ? "Pagamento via boleto bancário"
+                          : paymentMethod === "credit_card"
+                            ? "Pagamento com cartão de crédito"
+                            : "Pagamento via Pix"}
+                      </p>
                     </div>
 
-                    {console.log("[v0] Step 3 rendering, shippingOptions:", shippingOptions)}
-
                     {/* Shipping Options */}
                     <div className="mb-4 sm:mb-6">
                       <h3 className="font-medium text-card-foreground mb-2 sm:mb-3 text-sm sm:text-base">
                         Escolha o frete
                       </h3>
+                      {isQuotingShipping && (
+                        <div className="flex items-center gap-2 text-muted-foreground text-xs sm:text-sm">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Calculando frete...
+                        </div>
+                      )}
+                      {shippingError && <p className="text-xs sm:text-sm text-destructive">{shippingError}</p>}
                       <div className="space-y-2">
-                        {shippingOptions.map((option) => {
-                          console.log("[v0] Rendering shipping option:", option)
+                        {shippingOptions?.map((option) => {
                           return (
                             <label
                               key={option.id}
@@ -722,25 +1184,109 @@ function CheckoutContent() {
                       </div>
                     </div>
 
-                    {/* Pix Payment */}
-                    <div className="bg-muted/50 rounded-xl p-4 sm:p-6 text-center">
-                      <div className="w-24 h-24 sm:w-32 sm:h-32 mx-auto mb-3 sm:mb-4 rounded-lg flex items-center justify-center overflow-hidden">
-                        <img
-                          src="https://i.postimg.cc/DZhxRJxg/Untitled-design-3.png"
-                          alt="PIX QR Code"
-                          className="w-full h-full object-contain"
+                    {/* Payment Method */}
+                    {availableMethods.length > 1 && (
+                      <div className="mb-4 sm:mb-6">
+                        <h3 className="font-medium text-card-foreground mb-2 sm:mb-3 text-sm sm:text-base">
+                          Como você prefere pagar?
+                        </h3>
+                        <div className="space-y-2">
+                          {availableMethods.map((method) => (
+                            <label
+                              key={method}
+                              className={`flex items-center gap-2 sm:gap-3 p-3 sm:p-4 rounded-xl border cursor-pointer transition-colors ${
+                                paymentMethod === method
+                                  ? "border-primary bg-primary/5"
+                                  : "border-border hover:border-primary/50"
+                              }`}
+                            >
+                              <input
+                                type="radio"
+                                name="paymentMethod"
+                                value={method}
+                                checked={paymentMethod === method}
+                                onChange={() => setPaymentMethod(method)}
+                                className="w-4 h-4 text-primary"
+                              />
+                              {method === "boleto" ? (
+                                <Barcode className="h-4 w-4 sm:h-5 sm:w-5 text-muted-foreground" />
+                              ) : method === "credit_card" ? (
+                                <CreditCard className="h-4 w-4 sm:h-5 sm:w-5 text-muted-foreground" />
+                              ) : (
+                                <QrCode className="h-4 w-4 sm:h-5 sm:w-5 text-muted-foreground" />
+                              )}
+                              <div>
+                                <p className="font-medium text-card-foreground text-xs sm:text-sm">
+                                  {PAYMENT_METHOD_LABELS[method].title}
+                                </p>
+                                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                                  {PAYMENT_METHOD_LABELS[method].description}
+                                </p>
+                              </div>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {paymentMethod === "credit_card" && cardHostedFields ? (
+                      <div className="bg-muted/50 rounded-xl p-4 sm:p-6">
+                        <CardPaymentForm
+                          hostedFields={cardHostedFields}
+                          frameRef={cardFrameRef}
+                          fieldsState={cardFieldsState}
+                          installmentOptions={installmentOptions}
+                          installments={installments}
+                          isLoadingInstallments={isLoadingInstallments}
+                          onInstallmentsChange={setInstallments}
                         />
+                        <div className="mt-3 sm:mt-4 p-2 sm:p-3 bg-green-500/10 rounded-lg text-center">
+                          <p className="text-green-600 font-semibold text-sm sm:text-base">
+                            Valor: {formatPrice(selectedInstallment?.total ?? total)}
+                          </p>
+                          {!!selectedInstallment?.interest && (
+                            <p className="text-[10px] sm:text-xs text-muted-foreground">
+                              Inclui {formatPrice(selectedInstallment.interest)} de juros do parcelamento
+                            </p>
+                          )}
+                        </div>
                       </div>
-                      <p className="text-card-foreground font-medium mb-2 text-sm sm:text-base">Pague com Pix</p>
-                      <p className="text-xs sm:text-sm text-muted-foreground">
-                        O QR Code será gerado após a confirmação do pedido
-                      </p>
-                      <div className="mt-3 sm:mt-4 p-2 sm:p-3 bg-green-500/10 rounded-lg">
-                        <p className="text-green-600 font-semibold text-sm sm:text-base">
-                          Valor: {formatPrice(subtotal + (shipping?.price || 0))}
+                    ) : paymentMethod === "boleto" ? (
+                      <div className="bg-muted/50 rounded-xl p-4 sm:p-6 text-center">
+                        <Barcode className="h-16 w-16 sm:h-20 sm:w-20 mx-auto mb-3 sm:mb-4 text-card-foreground" />
+                        <p className="text-card-foreground font-medium mb-2 text-sm sm:text-base">Pague com boleto</p>
+                        <p className="text-xs sm:text-sm text-muted-foreground">
+                          {boletoBusinessDays
+                            ? `O boleto vence em ${boletoBusinessDays} ${boletoBusinessDays === 1 ? "dia útil" : "dias úteis"}. `
+                            : ""}
+                          O pedido é enviado após a confirmação do pagamento pelo banco.
+                        </p>
+                        <div className="mt-3 sm:mt-4 p-2 sm:p-3 bg-green-500/10 rounded-lg">
+                          <p className="text-green-600 font-semibold text-sm sm:text-base">
+                            Valor: {formatPrice(total)}
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="bg-muted/50 rounded-xl p-4 sm:p-6 text-center">
+                        <div className="w-24 h-24 sm:w-32 sm:h-32 mx-auto mb-3 sm:mb-4 rounded-lg flex items-center justify-center overflow-hidden">
+                          <img
+                            src="https://i.postimg.cc/DZhxRJxg/Untitled-design-3.png"
+                            alt="PIX QR Code"
+                            className="w-full h-full object-contain"
+                          />
+                        </div>
+                        <p className="text-card-foreground font-medium mb-2 text-sm sm:text-base">Pague com Pix</p>
+                        <p className="text-xs sm:text-sm text-muted-foreground">
+                          O QR Code será gerado após a confirmação do pedido
                         </p>
+                        <div className="mt-3 sm:mt-4 p-2 sm:p-3 bg-green-500/10 rounded-lg">
+                          <p className="text-green-600 font-semibold text-sm sm:text-base">
+                            Valor: {formatPrice(total)}
+                          </p>
+                        </div>
                       </div>
-                    </div>
+                    )}
 
                     {/* Security Badge */}
                     <div className="flex items-center gap-2 sm:gap-3 p-3 sm:p-4 bg-muted/50 rounded-xl">
@@ -766,7 +1312,7 @@ function CheckoutContent() {
 
                       <Button
                         onClick={handleFinishOrder}
-                        disabled={!validateStep(3) || isProcessing}
+                        disabled={!validateStep(3) || isProcessing || !!retryAt}
                         className="bg-primary text-primary-foreground hover:bg-primary/90 min-w-[140px] sm:min-w-[180px] text-sm h-10 sm:h-11"
                       >
                         {isProcessing ? (
@@ -774,6 +1320,8 @@ function CheckoutContent() {
                             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                             Processando...
                           </>
+                        ) : retryAt ? (
+                          "Aguarde para tentar"
                         ) : (
                           "Finalizar Pedido"
                         )}
@@ -9,6 +9,8 @@ import { AuthProvider } from "@/contexts/auth-context"
 import { Header } from "@/components/layout/header"
 import { Footer } from "@/components/layout/footer"
 import { MiniCart } from "@/components/cart/mini-cart"
+import { ConversionPixels } from "@/components/layout/conversion-pixels"
+import { ATTRIBUTION_CAPTURE_SCRIPT } from "@/lib/attribution"
 
 const fredoka = Fredoka({ subsets: ["latin"], variable: "--font-sans", weight: ["300", "400", "500", "600", "700"] })
 const geistMono = Geist_Mono({ subsets: ["latin"], variable: "--font-mono" })
@@ -35,36 +37,7 @@ export default function RootLayout({
   return (
     <html lang="pt-BR">
       <head>
-        <script
-          dangerouslySetInnerHTML={{
-            __html: `
-              (function () {
-                var params = new URLSearchParams(window.location.search);
-                var utms = ['utm_source', 'utm_campaign', 'utm_content', 'utm_term', 'utm_medium', 'src', 'sck'];
-                var hasNew = false;
-                
-                utms.forEach(function(u) {
-                  if (params.get(u)) {
-                    hasNew = true;
-                  }
-                });
-                
-                // Only save if we have new UTM params (don't overwrite on internal navigation)
-                if (hasNew) {
-                  var data = {};
-                  utms.forEach(function(u) {
-                    if (params.get(u)) {
-                      data[u] = params.get(u);
-                    }
-                  });
-                  try {
-                    localStorage.setItem('cometa_utm_params', JSON.stringify(data));
-                  } catch(e) {}
-                }
-              })();
-            `,
-          }}
-        />
+        <script dangerouslySetInnerHTML={{ __html: ATTRIBUTION_CAPTURE_SCRIPT }} />
       </head>
       <body className={`${fredoka.variable} ${geistMono.variable} font-sans antialiased`}>
         <Script
@@ -85,6 +58,7 @@ export default function RootLayout({
             document.head.appendChild(a);
           `}
         </Script>
+        <ConversionPixels />
 
         <AuthProvider>
           <CartProvider>
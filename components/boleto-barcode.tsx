@@ -0,0 +1,32 @@
+import { encodeInterleaved2of5 } from "@/lib/boleto"
+
+interface BoletoBarcodeProps {
+  barcode: string
+  className?: string
+}
+
+// Código de barras do boleto (Interleaved 2 of 5) desenhado em SVG
+export function BoletoBarcode({ barcode, className }: BoletoBarcodeProps) {
+  const elements = encodeInterleaved2of5(barcode)
+  const height = 50
+  let cursor = 0
+
+  const bars = elements.map((width, index) => {
+    const x = cursor
+    cursor += width
+    return index % 2 === 0 ? <rect key={index} x={x} y={0} width={width} height={height} /> : null
+  })
+
+  return (
+    <svg
+      viewBox={`0 0 ${cursor} ${height}`}
+      preserveAspectRatio="none"
+      className={className}
+      fill="currentColor"
+      role="img"
+      aria-label="Código de barras do boleto"
+    >
+      {bars}
+    </svg>
+  )
+}
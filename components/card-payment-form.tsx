@@ -0,0 +1,81 @@
+"use client"
+
+import type { RefObject } from "react"
+import { Loader2 } from "lucide-react"
+import { Label } from "@/components/ui/label"
+import { CARD_BRAND_LABELS } from "@/lib/card"
+import type { CardFieldsState } from "@/lib/card-hosted-fields"
+import type { CardHostedFieldsConfig } from "@/lib/payment-provider"
+import type { InstallmentOption } from "@/lib/installments"
+import { formatPrice } from "@/lib/utils"
+
+interface CardPaymentFormProps {
+  hostedFields: CardHostedFieldsConfig
+  frameRef: RefObject<HTMLIFrameElement | null>
+  fieldsState: CardFieldsState
+  installmentOptions: InstallmentOption[] | null
+  installments: number
+  isLoadingInstallments: boolean
+  onInstallmentsChange: (installments: number) => void
+}
+
+export function formatInstallmentOption(option: InstallmentOption): string {
+  if (option.installments === 1) return `À vista (${formatPrice(option.total)})`
+  return option.interestFree
+    ? `${option.installments}x de ${formatPrice(option.installmentAmount)} sem juros`
+    : `${option.installments}x de ${formatPrice(option.installmentAmount)} (total ${formatPrice(option.total)})`
+}
+
+// Formulário do cartão: número, validade e CVV ficam nos campos hospedados do
+// gateway (iframe); a loja só escolhe as parcelas e recebe o token
+export function CardPaymentForm({
+  hostedFields,
+  frameRef,
+  fieldsState,
+  installmentOptions,
+  installments,
+  isLoadingInstallments,
+  onInstallmentsChange,
+}: CardPaymentFormProps) {
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="grid gap-1.5 sm:gap-2">
+        <iframe
+          ref={frameRef}
+          src={hostedFields.url}
+          title="Dados do cartão"
+          className="w-full h-[300px] border-0 bg-transparent"
+        />
+        {fieldsState.brand !== "unknown" && (
+          <p className="text-[10px] sm:text-xs font-medium text-muted-foreground">{CARD_BRAND_LABELS[fieldsState.brand]}</p>
+        )}
+      </div>
+
+      <div className="grid gap-1.5 sm:gap-2">
+        <Label htmlFor="cardInstallments" className="text-foreground text-sm">
+          Parcelas
+        </Label>
+        {isLoadingInstallments && !installmentOptions ? (
+          <div className="flex items-center gap-2 text-muted-foreground text-xs sm:text-sm h-10 sm:h-11">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Calculando parcelas...
+          </div>
+        ) : (
+          <select
+            id="cardInstallments"
+            value={installments}
+            onChange={(e) => onInstallmentsChange(Number(e.target.value))}
+            disabled={!installmentOptions?.length}
+            className="h-10 sm:h-11 w-full rounded-md border border-input bg-transparent px-3 text-sm text-foreground"
+          >
+            {installmentOptions?.map((option) => (
+              <option key={option.installments} value={option.installments}>
+                {formatInstallmentOption(option)}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { connection } from "next/server"
+import Script from "next/script"
+import { getConfig } from "@/lib/config"
+import { buildGa4TagScript, buildMetaPixelScript } from "@/lib/conversion-pixels"
+
+/**
+ * Meta Pixel e gtag do GA4 com os IDs públicos da configuração, os mesmos da
+ * Meta CAPI e do GA4 Measurement Protocol. Renderizado a cada requisição para
+ * que os IDs venham do ambiente em execução, não do build
+ */
+export async function ConversionPixels() {
+  await connection()
+  const { meta, ga4 } = getConfig()
+
+  return (
+    <>
+      {meta.pixelId && (
+        <Script id="meta-pixel" strategy="afterInteractive">
+          {buildMetaPixelScript(meta.pixelId)}
+        </Script>
+      )}
+      {ga4.measurementId && (
+        <>
+          <Script
+            src={`https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(ga4.measurementId)}`}
+            strategy="afterInteractive"
+          />
+          <Script id="ga4-gtag" strategy="afterInteractive">
+            {buildGa4TagScript(ga4.measurementId)}
+          </Script>
+        </>
+      )}
+    </>
+  )
+}
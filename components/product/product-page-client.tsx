@@ -14,13 +14,9 @@ import { formatPrice } from "@/lib/utils"
 import { ProductCard } from "@/components/product/product-card"
 import { CountdownTimer } from "@/components/product/countdown-timer"
 import { SocialProofPopup } from "@/components/product/social-proof-popup"
+import { useShippingQuote } from "@/hooks/use-shipping-quote"
 import type { Product } from "@/types"
 
-interface ShippingEstimate {
-  cep: string
-  options: { name: string; price: number; days: string }[]
-}
-
 interface ProductPageClientProps {
   product: Product
   relatedProducts: Product[]
@@ -37,8 +33,12 @@ export function ProductPageClient({ product, relatedProducts }: ProductPageClien
   const [quantity, setQuantity] = useState(1)
   const [selectedImage, setSelectedImage] = useState(0)
   const [cep, setCep] = useState("")
-  const [shippingEstimate, setShippingEstimate] = useState<ShippingEstimate | null>(null)
-  const [loadingShipping, setLoadingShipping] = useState(false)
+  const {
+    options: shippingOptions,
+    isLoading: loadingShipping,
+    error: shippingError,
+    quote: quoteShipping,
+  } = useShippingQuote()
   const [selectedColor, setSelectedColor] = useState(product.colorVariants?.[0]?.name || null)
   const [selectedSize, setSelectedSize] = useState(product.sizeVariants?.[0]?.name || null)
 
@@ -68,18 +68,7 @@ export function ProductPageClient({ product, relatedProducts }: ProductPageClien
   const calculateShipping = async () => {
     if (cep.replace(/\D/g, "").length !== 8) return
 
-    setLoadingShipping(true)
-    await new Promise((resolve) => setTimeout(resolve, 1000))
-
-    setShippingEstimate({
-      cep: cep,
-      options: [
-        { name: "PAC", price: 0, days: "5-8 dias úteis" },
-        { name: "SEDEX", price: 7.9, days: "2-3 dias úteis" },
-        { name: "Entrega Expressa", price: 12.9, days: "1-2 dias úteis" },
-      ],
-    })
-    setLoadingShipping(false)
+    await quoteShipping(cep, [{ id: product.id, quantity }])
   }
 
   const nextImage = () => {
@@ -366,18 +355,24 @@ export function ProductPageClient({ product, relatedProducts }: ProductPageClien
                 </Button>
               </div>
 
-              {shippingEstimate && (
+              {shippingError && <p className="mt-2 text-xs sm:text-sm text-destructive">{shippingError}</p>}
+
+              {shippingOptions && (
                 <div className="mt-3 sm:mt-4 space-y-2">
-                  {shippingEstimate.options.map((option) => (
+                  {shippingOptions.map((option) => (
                     <div
-                      key={option.name}
+                      key={option.id}
                       className="flex justify-between items-center p-2 sm:p-3 bg-muted rounded-lg text-xs sm:text-sm"
                     >
                       <div className="min-w-0 flex-1">
                         <p className="font-medium text-foreground">{option.name}</p>
                         <p className="text-muted-foreground text-[10px] sm:text-xs">{option.days}</p>
                       </div>
-                      <p className="font-semibold text-foreground flex-shrink-0 ml-2">{formatPrice(option.price)}</p>
+                      <p
+                        className={`font-semibold flex-shrink-0 ml-2 ${option.price === 0 ? "text-green-600" : "text-foreground"}`}
+                      >
+                        {option.price === 0 ? "Grátis" : formatPrice(option.price)}
+                      </p>
                     </div>
                   ))}
                 </div>
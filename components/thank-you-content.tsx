@@ -1,72 +1,139 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useEffect, useState } from "react"
 import Link from "next/link"
 import { useSearchParams } from "next/navigation"
-import { CheckCircle, Package, Mail, Copy, Clock, QrCode, ArrowRight, Home, Loader2 } from "lucide-react"
+import {
+  CheckCircle,
+  Package,
+  Mail,
+  Copy,
+  Clock,
+  QrCode,
+  ArrowRight,
+  Home,
+  Loader2,
+  RefreshCw,
+  Download,
+  XCircle,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { QRCodeSVG } from "qrcode.react"
+import { BoletoBarcode } from "@/components/boleto-barcode"
+import { useCart } from "@/contexts/cart-context"
+import {
+  usePaymentStatus,
+  requestNewCharge,
+  type BoletoInfo,
+  type CardPaymentInfo,
+} from "@/hooks/use-payment-status"
+import { useCountdown } from "@/hooks/use-countdown"
+import { BOLETO_SETTLEMENT_BUSINESS_DAYS, formatBoletoDueDate, formatDigitableLine } from "@/lib/boleto"
+import { CARD_BRAND_LABELS } from "@/lib/card"
+import { trackPixelConversion, type PixelConversion } from "@/lib/conversion-pixels"
+import { formatCountdown, formatPrice } from "@/lib/utils"
 
 export function ThankYouContent() {
   const searchParams = useSearchParams()
   const orderNumber = searchParams.get("pedido") || "COM00000000"
   const paymentMethod = searchParams.get("metodo") || "pix"
-  const transactionId = searchParams.get("transactionId")
+  const orderId = searchParams.get("pedido")
   const qrcodeFromUrl = searchParams.get("qrcode")
 
   const [copied, setCopied] = useState(false)
-  const [pixCode] = useState(qrcodeFromUrl || "")
-  const [paymentStatus, setPaymentStatus] = useState<"waiting" | "paid" | "error">("waiting")
+  const [transactionId, setTransactionId] = useState(searchParams.get("transactionId"))
+  const [pixCode, setPixCode] = useState(qrcodeFromUrl || "")
+  const [paymentStatus, setPaymentStatus] = useState<"waiting" | "paid" | "expired" | "refused" | "error">("waiting")
   const [isPolling, setIsPolling] = useState(paymentMethod === "pix" && !!transactionId)
+  const [isRegeneratingPix, setIsRegeneratingPix] = useState(false)
+  const [regenerateError, setRegenerateError] = useState<string | null>(null)
+  const [boleto, setBoleto] = useState<BoletoInfo | null>(null)
+  const [card, setCard] = useState<CardPaymentInfo | null>(null)
+  const [detailsVersion, setDetailsVersion] = useState(0)
+  const [purchaseConversion, setPurchaseConversion] = useState<PixelConversion | null>(null)
+  const { clearCart } = useCart()
 
-  const checkPaymentStatus = useCallback(async () => {
-    if (!transactionId) return
+  // Status do pedido: linha digitável e PDF do boleto, resultado do cartão e ids dos pixels
+  useEffect(() => {
+    if (!orderId) return
 
-    try {
-      const response = await fetch(`/api/pix/status?transactionId=${transactionId}`)
-      const data = await response.json()
+    let cancelled = false
+    fetch(`/api/pix/status?orderId=${encodeURIComponent(orderId)}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (cancelled) return
+        if (data.boleto) setBoleto(data.boleto)
+        if (data.card) setCard(data.card)
+        if (data.transactionId) setTransactionId(data.transactionId)
+        if (data.conversionEventIds?.purchase && data.amount) {
+          setPurchaseConversion({ orderId, eventId: data.conversionEventIds.purchase, value: data.amount })
+        }
+        if (data.status === "paid" || data.status === "expired" || data.status === "refused") {
+          setPaymentStatus(data.status)
+        } else if (data.status === "pending") {
+          setIsPolling(true)
+        }
+      })
+      .catch((error) => console.error("[Thank You] Error loading payment details:", error))
 
-      if (data.status === "paid" || data.status === "approved") {
-        setPaymentStatus("paid")
-        setIsPolling(false)
-      }
-    } catch (error) {
-      console.error("[ThankYou] Error checking status:", error)
+    return () => {
+      cancelled = true
     }
-  }, [transactionId])
+  }, [orderId, detailsVersion])
 
+  // Cartão aprovado: o carrinho fica guardado até a confirmação (uma recusa volta ao checkout)
   useEffect(() => {
-    if (!isPolling) return
+    if (paymentMethod === "credit_card" && paymentStatus === "paid") clearCart()
+  }, [paymentMethod, paymentStatus, clearCart])
 
-    // Check immediately
-    checkPaymentStatus()
+  // Purchase nos pixels do navegador, com o mesmo eventID do evento server-side
+  useEffect(() => {
+    if (paymentStatus === "paid" && purchaseConversion) trackPixelConversion("Purchase", purchaseConversion)
+  }, [paymentStatus, purchaseConversion])
 
-    // Then poll every 5 seconds
-    const interval = setInterval(checkPaymentStatus, 5000)
+  const { expiresAt } = usePaymentStatus({
+    orderId,
+    transactionId,
+    enabled: isPolling,
+    onChange: (status) => {
+      if (status === "paid" || status === "expired" || status === "refused") setPaymentStatus(status)
+      // Motivo da recusa e parcelas atualizados a partir do pedido
+      if (paymentMethod === "credit_card") setDetailsVersion((version) => version + 1)
+      setIsPolling(false)
+    },
+  })
+  const pixSecondsLeft = useCountdown(expiresAt)
 
-    // Stop polling after 30 minutes
-    const timeout = setTimeout(
-      () => {
-        setIsPolling(false)
-      },
-      30 * 60 * 1000,
-    )
+  const handleRegenerateCharge = async () => {
+    if (!orderId || isRegeneratingPix) return
+    setIsRegeneratingPix(true)
+    setRegenerateError(null)
 
-    return () => {
-      clearInterval(interval)
-      clearTimeout(timeout)
+    const result = await requestNewCharge(orderId)
+    if (result.success && result.transactionId) {
+      setPixCode(result.qrcode || "")
+      setBoleto(result.boleto || null)
+      setTransactionId(result.transactionId)
+      setPaymentStatus("waiting")
+      setIsPolling(true)
+    } else {
+      setRegenerateError(
+        result.error || (paymentMethod === "boleto" ? "Não foi possível gerar um novo boleto" : "Não foi possível gerar um novo PIX")
+      )
     }
-  }, [isPolling, checkPaymentStatus])
+    setIsRegeneratingPix(false)
+  }
 
-  const handleCopyPixCode = () => {
-    navigator.clipboard.writeText(pixCode)
+  const handleCopyCode = (code: string) => {
+    navigator.clipboard.writeText(code)
     setCopied(true)
     setTimeout(() => setCopied(false), 2000)
   }
 
   // Determine if payment is complete
-  const isPaid = paymentStatus === "paid" || paymentMethod === "credit" || paymentMethod === "debit"
+  const isPaid = paymentStatus === "paid"
+  const isRefused = paymentStatus === "refused"
 
   return (
     <div className="min-h-screen bg-muted/30">
@@ -76,16 +143,30 @@ export function ThankYouContent() {
           <div className="text-center mb-8">
             <div
               className={`w-20 h-20 mx-auto mb-6 rounded-full flex items-center justify-center ${
-                isPaid ? "bg-green-500" : "bg-yellow-500"
+                isPaid ? "bg-green-500" : isRefused ? "bg-destructive" : "bg-yellow-500"
               }`}
             >
-              {isPaid ? <CheckCircle className="h-12 w-12 text-white" /> : <Clock className="h-12 w-12 text-white" />}
+              {isPaid ? (
+                <CheckCircle className="h-12 w-12 text-white" />
+              ) : isRefused ? (
+                <XCircle className="h-12 w-12 text-white" />
+              ) : (
+                <Clock className="h-12 w-12 text-white" />
+              )}
             </div>
             <h1 className="text-2xl md:text-3xl font-bold text-foreground mb-2">
-              {isPaid ? "Pedido Realizado com Sucesso!" : "Aguardando Pagamento"}
+              {isPaid ? "Pedido Realizado com Sucesso!" : isRefused ? "Pagamento Não Aprovado" : "Aguardando Pagamento"}
             </h1>
             <p className="text-muted-foreground">
-              {isPaid ? "Obrigado por comprar na Cometa Papelaria" : "Complete o pagamento via PIX"}
+              {isPaid
+                ? "Obrigado por comprar na Cometa Papelaria"
+                : isRefused
+                  ? "Seu cartão não foi cobrado. Tente novamente com outro cartão ou forma de pagamento"
+                  : paymentMethod === "boleto"
+                    ? "Pague o boleto até o vencimento"
+                    : paymentMethod === "credit_card"
+                      ? "Estamos confirmando o pagamento com o emissor do cartão"
+                      : "Complete o pagamento via PIX"}
             </p>
           </div>
 
@@ -99,15 +180,23 @@ export function ThankYouContent() {
                 </div>
                 <div className="text-right">
                   <p className="text-sm text-muted-foreground">Status</p>
-                  <div className={`flex items-center gap-2 ${isPaid ? "text-green-600" : "text-yellow-600"}`}>
+                  <div
+                    className={`flex items-center gap-2 ${
+                      isPaid ? "text-green-600" : isRefused ? "text-destructive" : "text-yellow-600"
+                    }`}
+                  >
                     {isPolling ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
                     ) : isPaid ? (
                       <CheckCircle className="h-4 w-4" />
+                    ) : isRefused ? (
+                      <XCircle className="h-4 w-4" />
                     ) : (
                       <Clock className="h-4 w-4" />
                     )}
-                    <span className="font-medium">{isPaid ? "Aprovado" : "Aguardando Pagamento"}</span>
+                    <span className="font-medium">
+                      {isPaid ? "Aprovado" : isRefused ? "Recusado" : "Aguardando Pagamento"}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -131,7 +220,7 @@ export function ThankYouContent() {
                     {pixCode && (
                       <div className="flex items-center gap-2 bg-muted p-3 rounded-lg">
                         <code className="flex-1 text-xs text-card-foreground truncate">{pixCode}</code>
-                        <Button variant="ghost" size="sm" onClick={handleCopyPixCode}>
+                        <Button variant="ghost" size="sm" onClick={() => handleCopyCode(pixCode)}>
                           {copied ? (
                             <span className="text-green-600 text-xs">Copiado!</span>
                           ) : (
@@ -145,17 +234,169 @@ export function ThankYouContent() {
                   <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
                     <div className="flex items-start gap-3">
                       <Clock className="h-5 w-5 text-yellow-600 mt-0.5" />
-                      <div>
-                        <p className="font-medium text-card-foreground">Pague em até 30 minutos</p>
-                        <p className="text-sm text-muted-foreground">
-                          Após o pagamento, seu pedido será processado automaticamente.
-                        </p>
+                      <div className="flex-1">
+                        {paymentStatus === "expired" ? (
+                          <>
+                            <p className="font-medium text-card-foreground">O prazo deste PIX terminou</p>
+                            <p className="text-sm text-muted-foreground mb-3">
+                              Seu pedido continua reservado. Gere um novo código para concluir o pagamento.
+                            </p>
+                            {regenerateError && <p className="text-sm text-destructive mb-3">{regenerateError}</p>}
+                            <Button onClick={handleRegenerateCharge} disabled={isRegeneratingPix || !orderId} size="sm">
+                              {isRegeneratingPix ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                              )}
+                              Gerar novo PIX
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <p className="font-medium text-card-foreground">
+                              {pixSecondsLeft === null
+                                ? "Pague o quanto antes"
+                                : pixSecondsLeft > 0
+                                  ? `Este PIX expira em ${formatCountdown(pixSecondsLeft)}`
+                                  : "Prazo encerrado, verificando pagamento..."}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              Após o pagamento, seu pedido será processado automaticamente.
+                            </p>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
                 </div>
               )}
 
+              {/* Boleto Payment Instructions */}
+              {paymentMethod === "boleto" && !isPaid && (
+                <div className="space-y-6">
+                  {paymentStatus === "expired" ? (
+                    <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
+                      <div className="flex items-start gap-3">
+                        <Clock className="h-5 w-5 text-yellow-600 mt-0.5" />
+                        <div className="flex-1">
+                          <p className="font-medium text-card-foreground">O prazo deste boleto terminou</p>
+                          <p className="text-sm text-muted-foreground mb-3">
+                            Seu pedido continua reservado. Gere um novo boleto para concluir o pagamento.
+                          </p>
+                          {regenerateError && <p className="text-sm text-destructive mb-3">{regenerateError}</p>}
+                          <Button onClick={handleRegenerateCharge} disabled={isRegeneratingPix || !orderId} size="sm">
+                            {isRegeneratingPix ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <RefreshCw className="h-4 w-4 mr-2" />
+                            )}
+                            Gerar novo boleto
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ) : boleto ? (
+                    <>
+                      <div className="bg-primary/5 rounded-xl p-6">
+                        <div className="flex items-center justify-between mb-4">
+                          <p className="text-sm text-muted-foreground">Vencimento</p>
+                          <p className="font-semibold text-card-foreground">{formatBoletoDueDate(boleto.dueDate)}</p>
+                        </div>
+                        <div className="bg-white text-black rounded-lg p-3 mb-4">
+                          <BoletoBarcode barcode={boleto.barcode} className="w-full h-14" />
+                        </div>
+                        <p className="text-sm text-muted-foreground mb-2">Linha digitável</p>
+                        <div className="flex items-center gap-2 bg-muted p-3 rounded-lg mb-4">
+                          <code className="flex-1 text-xs text-card-foreground break-all">
+                            {formatDigitableLine(boleto.digitableLine)}
+                          </code>
+                          <Button variant="ghost" size="sm" onClick={() => handleCopyCode(boleto.digitableLine)}>
+                            {copied ? (
+                              <span className="text-green-600 text-xs">Copiado!</span>
+                            ) : (
+                              <Copy className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                        <Button asChild className="w-full bg-primary text-primary-foreground hover:bg-primary/90">
+                          <a href={boleto.pdfUrl} target="_blank" rel="noopener noreferrer">
+                            <Download className="h-4 w-4 mr-2" />
+                            Baixar boleto (PDF)
+                          </a>
+                        </Button>
+                      </div>
+
+                      <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
+                        <div className="flex items-start gap-3">
+                          <Clock className="h-5 w-5 text-yellow-600 mt-0.5" />
+                          <div>
+                            <p className="font-medium text-card-foreground">
+                              Pague até {formatBoletoDueDate(boleto.dueDate)}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              O banco confirma o pagamento em até {BOLETO_SETTLEMENT_BUSINESS_DAYS} dias úteis. Seu pedido
+                              será processado automaticamente após a confirmação.
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="flex items-center justify-center gap-2 text-muted-foreground text-sm py-6">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Carregando boleto...
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Card Payment */}
+              {paymentMethod === "credit_card" && !isPaid && (
+                <div className="space-y-6">
+                  {isRefused ? (
+                    <div className="bg-destructive/10 border border-destructive/30 rounded-xl p-4">
+                      <div className="flex items-start gap-3">
+                        <XCircle className="h-5 w-5 text-destructive mt-0.5" />
+                        <div className="flex-1">
+                          <p className="font-medium text-card-foreground">
+                            {card ? `${CARD_BRAND_LABELS[card.brand]} final ${card.lastDigits} recusado` : "Cartão recusado"}
+                          </p>
+                          <p className="text-sm text-muted-foreground mb-3">
+                            {card?.declineMessage || "O pagamento não foi aprovado pelo emissor do cartão."} Os itens
+                            continuam no seu carrinho.
+                          </p>
+                          <Button asChild size="sm">
+                            <Link href="/checkout">
+                              <RefreshCw className="h-4 w-4 mr-2" />
+                              Tentar novamente
+                            </Link>
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
+                      <div className="flex items-start gap-3">
+                        <Loader2 className="h-5 w-5 text-yellow-600 mt-0.5 animate-spin" />
+                        <div className="flex-1">
+                          <p className="font-medium text-card-foreground">Confirmando pagamento</p>
+                          <p className="text-sm text-muted-foreground mb-3">
+                            {card?.authenticationUrl
+                              ? "Conclua a autenticação do cartão na página do seu banco para aprovar a compra."
+                              : "A resposta do emissor do cartão chega em instantes. Não é preciso pagar de novo."}
+                          </p>
+                          {card?.authenticationUrl && (
+                            <Button asChild size="sm">
+                              <a href={card.authenticationUrl}>Autenticar cartão</a>
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Payment Approved */}
               {isPaid && (
                 <div className="bg-green-500/10 border border-green-500/30 rounded-xl p-4">
@@ -166,6 +407,14 @@ export function ThankYouContent() {
                       <p className="text-sm text-muted-foreground">
                         Seu pagamento foi aprovado e seu pedido já está sendo preparado.
                       </p>
+                      {paymentMethod === "credit_card" && card && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {CARD_BRAND_LABELS[card.brand]} final {card.lastDigits} ·{" "}
+                          {card.installments === 1
+                            ? "à vista"
+                            : `${card.installments}x de ${formatPrice(card.installmentAmount)}`}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
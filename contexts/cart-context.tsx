@@ -1,13 +1,16 @@
 "use client"
 
 import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from "react"
-import type { CartItem, Product, ShippingOption, CheckoutData } from "@/types"
+import type { AppliedCoupon, CartItem, Product, ShippingOption, CheckoutData } from "@/types"
+import { calculateBreakdown } from "@/lib/pricing"
+import { isValidCpf } from "@/lib/validation"
 
 interface CartContextType {
   items: CartItem[]
   isCartOpen: boolean
-  coupon: string | null
-  couponDiscount: number
+  coupon: AppliedCoupon | null
+  // Aviso exibido quando a revalidação remove o cupom aplicado
+  couponNotice: string | null
   shipping: ShippingOption | null
   checkoutData: CheckoutData
   addItem: (product: Product, quantity?: number) => void
@@ -17,11 +20,13 @@ interface CartContextType {
   openCart: () => void
   closeCart: () => void
   toggleCart: () => void
-  applyCoupon: (code: string) => boolean
+  applyCoupon: (code: string) => Promise<{ success: boolean; error?: string }>
   removeCoupon: () => void
+  dismissCouponNotice: () => void
   setShipping: (option: ShippingOption) => void
   updateCheckoutData: (data: Partial<CheckoutData>) => void
   subtotal: number
+  discountAmount: number
   total: number
   itemCount: number
 }
@@ -43,19 +48,13 @@ const initialCheckoutData: CheckoutData = {
   payment: { method: "pix" },
 }
 
-const validCoupons: Record<string, number> = {
-  VOLTA10: 10,
-  ESCOLA20: 20,
-  PRIMEIRACOMPRA: 15,
-}
-
 const CART_STORAGE_KEY = "papelaria-cart"
 
 export function CartProvider({ children }: { children: ReactNode }) {
   const [items, setItems] = useState<CartItem[]>([])
   const [isCartOpen, setIsCartOpen] = useState(false)
-  const [coupon, setCoupon] = useState<string | null>(null)
-  const [couponDiscount, setCouponDiscount] = useState(0)
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null)
+  const [couponNotice, setCouponNotice] = useState<string | null>(null)
   const [shipping, setShippingState] = useState<ShippingOption | null>(null)
   const [checkoutData, setCheckoutData] = useState<CheckoutData>(initialCheckoutData)
   const [isHydrated, setIsHydrated] = useState(false)
@@ -78,8 +77,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
           setItems(sanitizedItems)
         }
         if (parsed.coupon) {
-          setCoupon(parsed.coupon)
-          setCouponDiscount(Number(parsed.couponDiscount) || 0)
+          // Carrinhos antigos guardavam apenas o código; o valor é revalidado abaixo
+          setCoupon(
+            typeof parsed.coupon === "string"
+              ? { code: parsed.coupon, description: parsed.coupon, discount: 0, freeShipping: false }
+              : parsed.coupon,
+          )
         }
         if (parsed.shipping) {
           setShippingState({
@@ -105,7 +108,6 @@ export function CartProvider({ children }: { children: ReactNode }) {
           JSON.stringify({
             items,
             coupon,
-            couponDiscount,
             shipping,
             checkoutData,
           }),
@@ -114,7 +116,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
         console.error("Erro ao salvar carrinho:", error)
       }
     }
-  }, [items, coupon, couponDiscount, shipping, checkoutData, isHydrated])
+  }, [items, coupon, shipping, checkoutData, isHydrated])
 
   const addItem = useCallback((product: Product, quantity = 1) => {
     const sanitizedProduct = {
@@ -153,7 +155,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   const clearCart = useCallback(() => {
     setItems([])
     setCoupon(null)
-    setCouponDiscount(0)
+    setCouponNotice(null)
     setShippingState(null)
     setCheckoutData(initialCheckoutData)
     try {
@@ -167,21 +169,91 @@ export function CartProvider({ children }: { children: ReactNode }) {
   const closeCart = useCallback(() => setIsCartOpen(false), [])
   const toggleCart = useCallback(() => setIsCartOpen((prev) => !prev), [])
 
-  const applyCoupon = useCallback((code: string): boolean => {
-    const upperCode = code.toUpperCase()
-    if (validCoupons[upperCode]) {
-      setCoupon(upperCode)
-      setCouponDiscount(validCoupons[upperCode])
-      return true
-    }
-    return false
-  }, [])
+  // Só um CPF completo e válido entra na validação do cupom; enquanto o cliente
+  // digita, o cupom segue validado sem o limite por CPF
+  const couponCpf = isValidCpf(checkoutData.customer.cpf) ? checkoutData.customer.cpf : undefined
+
+  /**
+   * Valida o cupom no servidor. Devolve error apenas quando o cupom foi recusado;
+   * falhas de rede ou do servidor são lançadas para não descartar o cupom
+   */
+  const validateCoupon = useCallback(
+    async (code: string, cartItems: CartItem[]): Promise<{ coupon?: AppliedCoupon; error?: string }> => {
+      const response = await fetch("/api/coupons/validate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code,
+          items: cartItems.map((item) => ({ id: item.product.id, quantity: item.quantity })),
+          cpf: couponCpf,
+        }),
+      })
+      if (response.status >= 500 || response.status === 429) {
+        throw new Error(`Falha ao validar cupom (HTTP ${response.status})`)
+      }
+      const data = await response.json()
+      if (!response.ok || !data.valid) {
+        return { error: data.error || "Cupom inválido ou expirado" }
+      }
+      return { coupon: data.coupon }
+    },
+    [couponCpf],
+  )
+
+  const applyCoupon = useCallback(
+    async (code: string) => {
+      try {
+        const result = await validateCoupon(code.trim().toUpperCase(), items)
+        if (!result.coupon) {
+          return { success: false, error: result.error }
+        }
+        setCoupon(result.coupon)
+        setCouponNotice(null)
+        return { success: true }
+      } catch (error) {
+        console.error("Erro ao validar cupom:", error)
+        return { success: false, error: "Não foi possível validar o cupom. Tente novamente." }
+      }
+    },
+    [items, validateCoupon],
+  )
 
   const removeCoupon = useCallback(() => {
     setCoupon(null)
-    setCouponDiscount(0)
   }, [])
 
+  const dismissCouponNotice = useCallback(() => {
+    setCouponNotice(null)
+  }, [])
+
+  // Revalida o cupom sempre que o carrinho ou o CPF muda (o desconto e os limites dependem deles).
+  // Se a validação falhar por rede ou servidor, o cupom é mantido; o pedido o confere de novo
+  const couponCode = coupon?.code
+  useEffect(() => {
+    if (!isHydrated || !couponCode) return
+    if (items.length === 0) {
+      setCoupon(null)
+      return
+    }
+
+    let cancelled = false
+    validateCoupon(couponCode, items)
+      .then((result) => {
+        if (cancelled) return
+        if (result.coupon) {
+          setCoupon(result.coupon)
+          return
+        }
+        setCoupon(null)
+        setCouponNotice(`O cupom ${couponCode} foi removido: ${result.error}`)
+      })
+      .catch((error) => console.error("Erro ao revalidar cupom:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [items, couponCode, isHydrated, validateCoupon])
+
   const setShipping = useCallback((option: ShippingOption) => {
     const sanitizedOption = {
       ...option,
@@ -202,7 +274,13 @@ export function CartProvider({ children }: { children: ReactNode }) {
   }, 0)
 
   const shippingPrice = shipping ? Number(shipping.price) || 0 : 0
-  const total = subtotal + shippingPrice
+  // Mesmo cálculo usado pelo servidor ao gerar o PIX
+  const { discount: discountAmount, total } = calculateBreakdown({
+    subtotal,
+    discount: coupon?.discount || 0,
+    shippingPrice,
+    freeShipping: coupon?.freeShipping,
+  })
   const itemCount = items.reduce((sum, item) => sum + (Number(item.quantity) || 0), 0)
 
   return (
@@ -211,7 +289,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
         items,
         isCartOpen,
         coupon,
-        couponDiscount,
+        couponNotice,
         shipping,
         checkoutData,
         addItem,
@@ -223,9 +301,11 @@ export function CartProvider({ children }: { children: ReactNode }) {
         toggleCart,
         applyCoupon,
         removeCoupon,
+        dismissCouponNotice,
         setShipping,
         updateCheckoutData,
         subtotal,
+        discountAmount,
         total,
         itemCount,
       }}
@@ -0,0 +1,154 @@
+// Faixas de CEP por estado e por município (Correios)
+// Base local usada para cotação de frete e preenchimento do endereço
+
+export interface StateCepRange {
+  state: string
+  start: number
+  end: number
+}
+
+export interface CityCepRange {
+  city: string
+  state: string
+  start: number
+  end: number
+}
+
+export interface UncoveredCepRange {
+  start: number
+  end: number
+  reason: string
+}
+
+export const stateCepRanges: StateCepRange[] = [
+  { state: "SP", start: 1000000, end: 19999999 },
+  { state: "RJ", start: 20000000, end: 28999999 },
+  { state: "ES", start: 29000000, end: 29999999 },
+  { state: "MG", start: 30000000, end: 39999999 },
+  { state: "BA", start: 40000000, end: 48999999 },
+  { state: "SE", start: 49000000, end: 49999999 },
+  { state: "PE", start: 50000000, end: 56999999 },
+  { state: "AL", start: 57000000, end: 57999999 },
+  { state: "PB", start: 58000000, end: 58999999 },
+  { state: "RN", start: 59000000, end: 59999999 },
+  { state: "CE", start: 60000000, end: 63999999 },
+  { state: "PI", start: 64000000, end: 64999999 },
+  { state: "MA", start: 65000000, end: 65999999 },
+  { state: "PA", start: 66000000, end: 68899999 },
+  { state: "AP", start: 68900000, end: 68999999 },
+  { state: "AM", start: 69000000, end: 69299999 },
+  { state: "RR", start: 69300000, end: 69399999 },
+  { state: "AM", start: 69400000, end: 69899999 },
+  { state: "AC", start: 69900000, end: 69999999 },
+  { state: "DF", start: 70000000, end: 72799999 },
+  { state: "GO", start: 72800000, end: 72999999 },
+  { state: "DF", start: 73000000, end: 73699999 },
+  { state: "GO", start: 73700000, end: 76799999 },
+  { state: "RO", start: 76800000, end: 76999999 },
+  { state: "TO", start: 77000000, end: 77999999 },
+  { state: "MT", start: 78000000, end: 78899999 },
+  { state: "MS", start: 79000000, end: 79999999 },
+  { state: "PR", start: 80000000, end: 87999999 },
+  { state: "SC", start: 88000000, end: 89999999 },
+  { state: "RS", start: 90000000, end: 99999999 },
+]
+
+// Capitais e principais municípios atendidos (faixas aproximadas)
+export const cityCepRanges: CityCepRange[] = [
+  { city: "São Paulo", state: "SP", start: 1000000, end: 5999999 },
+  { city: "Osasco", state: "SP", start: 6000000, end: 6299999 },
+  { city: "Guarulhos", state: "SP", start: 7000000, end: 7399999 },
+  { city: "São Paulo", state: "SP", start: 8000000, end: 8499999 },
+  { city: "Santo André", state: "SP", start: 9000000, end: 9299999 },
+  { city: "São Bernardo do Campo", state: "SP", start: 9600000, end: 9899999 },
+  { city: "Santos", state: "SP", start: 11000000, end: 11099999 },
+  { city: "Campinas", state: "SP", start: 13000000, end: 13139999 },
+  { city: "Rio de Janeiro", state: "RJ", start: 20000000, end: 23799999 },
+  { city: "Niterói", state: "RJ", start: 24000000, end: 24399999 },
+  { city: "Vitória", state: "ES", start: 29000000, end: 29099999 },
+  { city: "Belo Horizonte", state: "MG", start: 30000000, end: 31999999 },
+  { city: "Salvador", state: "BA", start: 40000000, end: 42599999 },
+  { city: "Aracaju", state: "SE", start: 49000000, end: 49099999 },
+  { city: "Recife", state: "PE", start: 50000000, end: 52999999 },
+  { city: "Maceió", state: "AL", start: 57000000, end: 57099999 },
+  { city: "João Pessoa", state: "PB", start: 58000000, end: 58099999 },
+  { city: "Natal", state: "RN", start: 59000000, end: 59139999 },
+  { city: "Fortaleza", state: "CE", start: 60000000, end: 61599999 },
+  { city: "Teresina", state: "PI", start: 64000000, end: 64099999 },
+  { city: "São Luís", state: "MA", start: 65000000, end: 65109999 },
+  { city: "Belém", state: "PA", start: 66000000, end: 66999999 },
+  { city: "Macapá", state: "AP", start: 68900000, end: 68914999 },
+  { city: "Manaus", state: "AM", start: 69000000, end: 69099999 },
+  { city: "Boa Vista", state: "RR", start: 69300000, end: 69339999 },
+  { city: "Rio Branco", state: "AC", start: 69900000, end: 69924999 },
+  { city: "Brasília", state: "DF", start: 70000000, end: 72799999 },
+  { city: "Goiânia", state: "GO", start: 74000000, end: 74899999 },
+  { city: "Porto Velho", state: "RO", start: 76800000, end: 76834999 },
+  { city: "Palmas", state: "TO", start: 77000000, end: 77299999 },
+  { city: "Cuiabá", state: "MT", start: 78000000, end: 78099999 },
+  { city: "Campo Grande", state: "MS", start: 79000000, end: 79124999 },
+  { city: "Curitiba", state: "PR", start: 80000000, end: 82999999 },
+  { city: "Florianópolis", state: "SC", start: 88000000, end: 88099999 },
+  { city: "Porto Alegre", state: "RS", start: 90000000, end: 91999999 },
+]
+
+// Faixas sem cobertura de entrega
+export const uncoveredCepRanges: UncoveredCepRange[] = [
+  { start: 53990000, end: 53990999, reason: "Fernando de Noronha" },
+]
+
+export const stateRegions: Record<string, "sudeste" | "sul" | "centro-oeste" | "nordeste" | "norte"> = {
+  SP: "sudeste",
+  RJ: "sudeste",
+  ES: "sudeste",
+  MG: "sudeste",
+  PR: "sul",
+  SC: "sul",
+  RS: "sul",
+  DF: "centro-oeste",
+  GO: "centro-oeste",
+  MT: "centro-oeste",
+  MS: "centro-oeste",
+  BA: "nordeste",
+  SE: "nordeste",
+  PE: "nordeste",
+  AL: "nordeste",
+  PB: "nordeste",
+  RN: "nordeste",
+  CE: "nordeste",
+  PI: "nordeste",
+  MA: "nordeste",
+  PA: "norte",
+  AP: "norte",
+  AM: "norte",
+  RR: "norte",
+  AC: "norte",
+  RO: "norte",
+  TO: "norte",
+}
+
+function parseCep(cep: string): number | null {
+  const digits = cep.replace(/\D/g, "")
+  return digits.length === 8 ? Number(digits) : null
+}
+
+export function getStateByCep(cep: string): string | null {
+  const value = parseCep(cep)
+  if (value === null) return null
+
+  return stateCepRanges.find((range) => value >= range.start && value <= range.end)?.state || null
+}
+
+export function getCityRangeByCep(cep: string): CityCepRange | null {
+  const value = parseCep(cep)
+  if (value === null) return null
+
+  return cityCepRanges.find((range) => value >= range.start && value <= range.end) || null
+}
+
+export function getUncoveredRangeByCep(cep: string): UncoveredCepRange | null {
+  const value = parseCep(cep)
+  if (value === null) return null
+
+  return uncoveredCepRanges.find((range) => value >= range.start && value <= range.end) || null
+}
@@ -0,0 +1,52 @@
+import type { Coupon } from "@/types"
+
+export const coupons: Coupon[] = [
+  {
+    code: "VOLTA10",
+    description: "10% de desconto na volta às aulas",
+    type: "percentage",
+    value: 10,
+    stackable: true,
+  },
+  {
+    code: "ESCOLA20",
+    description: "20% de desconto em cadernos, estojos e mochilas",
+    type: "percentage",
+    value: 20,
+    minSubtotal: 79.9,
+    categorySlugs: ["cadernos", "estojos", "mochilas"],
+    stackable: false,
+  },
+  {
+    code: "PRIMEIRACOMPRA",
+    description: "15% de desconto na primeira compra",
+    type: "percentage",
+    value: 15,
+    maxUsesPerCpf: 1,
+    stackable: false,
+  },
+  {
+    code: "KIT15",
+    description: "R$ 15 de desconto em kits escolares",
+    type: "fixed",
+    value: 15,
+    minSubtotal: 99.9,
+    categorySlugs: ["kits-escolares"],
+    maxUses: 500,
+    stackable: true,
+  },
+  {
+    code: "FRETEGRATIS",
+    description: "Frete grátis em compras acima de R$ 59,90",
+    type: "free_shipping",
+    value: 0,
+    minSubtotal: 59.9,
+    startsAt: "2026-10-01T00:00:00-03:00",
+    endsAt: "2027-02-28T23:59:59-03:00",
+    stackable: true,
+  },
+]
+
+export function getCouponByCode(code: string) {
+  return coupons.find((coupon) => coupon.code === code.trim().toUpperCase())
+}
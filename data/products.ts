@@ -125,6 +125,8 @@ Conteúdo do caderno:
     rating: 4.8,
     reviews: 156,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -185,6 +187,8 @@ Páginas internas em papel sulfite (offset) 90g branco.`,
     rating: 4.9,
     reviews: 234,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -243,6 +247,8 @@ Encontre a cor certa em segundos! Cada caneta possui tampa codificada por cor, f
     rating: 4.7,
     reviews: 312,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
   },
@@ -279,6 +285,8 @@ Mochila perfeita e muito adequada para o corpo das crianças, acomodam os materi
     rating: 4.8,
     reviews: 189,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -320,6 +328,8 @@ Sendo bem espaçosa, ela é composta por 6 compartimentos com zíper externos, 6
     rating: 4.9,
     reviews: 267,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -372,6 +382,8 @@ Garanta já o seu Kit Escolar Patrulha Canina e volte às aulas com os heróis m
     rating: 4.8,
     reviews: 189,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
   },
@@ -419,6 +431,8 @@ Descrição dos itens:
     rating: 4.9,
     reviews: 312,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: true,
     isOnSale: false,
   },
@@ -455,6 +469,8 @@ Pacote incluir: 1 x Estojo`,
     rating: 4.7,
     reviews: 156,
     inStock: true,
+    weight: 250,
+    dimensions: { length: 22, width: 10, height: 6 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -494,6 +510,8 @@ Dimensões aproximadas: Altura: 185mm. Diâmetro: 7mm`,
     rating: 4.6,
     reviews: 234,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
   },
@@ -537,6 +555,8 @@ Espiral`,
     rating: 4.8,
     reviews: 178,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -587,6 +607,8 @@ Espiral`,
     rating: 4.9,
     reviews: 267,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -637,6 +659,8 @@ Espiral`,
     rating: 4.8,
     reviews: 189,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -685,6 +709,8 @@ Profundidade 7 cm`,
     rating: 4.7,
     reviews: 156,
     inStock: true,
+    weight: 250,
+    dimensions: { length: 22, width: 10, height: 6 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -729,6 +755,8 @@ CARACTERÍSTICAS: TRÊS COMPARTIMENTOS COM ZÍPER`,
     rating: 4.6,
     reviews: 134,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -762,6 +790,8 @@ Cores vibrantes (Verde, Vermelho, Azul).`,
     rating: 4.7,
     reviews: 98,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Kit com 3 Cores", image: "https://i.postimg.cc/x18ZGZmx/image.png" }],
@@ -800,6 +830,8 @@ Inclui Super Mochila (45cm), Caderno Temático (10 matérias), Estojo/Penal, Can
     rating: 4.9,
     reviews: 267,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -839,6 +871,8 @@ Inclui Lápis de Cor CIS Sextavado ECO – 12 Cores.`,
     rating: 4.8,
     reviews: 189,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -873,6 +907,8 @@ Conjunto completo para atividades escolares e artísticas.`,
     rating: 4.7,
     reviews: 134,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Kit Fundo do Mar", image: "https://i.postimg.cc/qRvQ0hGc/image.png" }],
@@ -906,6 +942,8 @@ Alta qualidade para projetos, retratos, croquis e desenhos profissionais.`,
     rating: 4.8,
     reviews: 201,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Kit Único", image: "https://i.postimg.cc/LX5kGdH0/image.png" }],
@@ -939,6 +977,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 178,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Estampa Gato Galactico", image: "https://i.postimg.cc/RFvC0937/image.png" }],
@@ -967,6 +1007,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 312,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: true,
     colorVariants: [
@@ -997,6 +1039,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.6,
     reviews: 98,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: true,
     colorVariants: [{ name: "Pastel", image: "https://i.postimg.cc/tTpfTqxy/sg-11134201-7rep4-m8ly9hpi3bfr95.webp" }],
@@ -1028,6 +1072,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 287,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: true,
     colorVariants: [
@@ -1063,6 +1109,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 234,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: true,
     colorVariants: [
@@ -1096,6 +1144,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 124,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1133,6 +1183,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.7,
     reviews: 89,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1169,6 +1221,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 156,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1207,6 +1261,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 203,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1242,6 +1298,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.7,
     reviews: 98,
     inStock: true,
+    weight: 250,
+    dimensions: { length: 22, width: 10, height: 6 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1281,6 +1339,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 178,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1333,6 +1393,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 145,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1368,6 +1430,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 267,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1402,6 +1466,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 134,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1437,6 +1503,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 189,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1468,6 +1536,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 156,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1503,6 +1573,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.7,
     reviews: 123,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1534,6 +1606,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 167,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1570,6 +1644,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 145,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1599,6 +1675,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 189,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Meninas Superpoderosas", image: "https://i.postimg.cc/mZjc94jq/ppg.webp" }],
@@ -1630,6 +1708,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.7,
     reviews: 134,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1668,6 +1748,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.7,
     reviews: 112,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1706,6 +1788,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.8,
     reviews: 178,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1742,6 +1826,8 @@ Amplo compartimento principal, puxador retrátil e duas rodinhas.`,
     rating: 4.9,
     reviews: 234,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1785,6 +1871,8 @@ Destaques do Produto:
     rating: 4.9,
     reviews: 245,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1835,6 +1923,8 @@ Durabilidade: Material Resistente e Zíper de Alta Qualidade.`,
     rating: 4.8,
     reviews: 178,
     inStock: true,
+    weight: 250,
+    dimensions: { length: 22, width: 10, height: 6 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1881,6 +1971,8 @@ O acessório ideal para quem procura um estilo "urban chic" com um toque de nost
     rating: 4.7,
     reviews: 134,
     inStock: true,
+    weight: 250,
+    dimensions: { length: 22, width: 10, height: 6 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1924,6 +2016,8 @@ A combinação perfeita de elegância, organização e praticidade para o dia a
     rating: 4.9,
     reviews: 312,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -1982,6 +2076,8 @@ PRODUTO ORIGINAL com Nota Fiscal e Garantia do vendedor.`,
     rating: 4.8,
     reviews: 267,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -2042,6 +2138,8 @@ TODOS OS ITENS DE QUALIDADE PREMIUM E FOTOS REAIS.`,
     rating: 4.9,
     reviews: 456,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -2097,6 +2195,8 @@ OUTROS ITENS INDISPENSÁVEIS:
     rating: 4.8,
     reviews: 389,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
   },
@@ -2152,6 +2252,8 @@ Embalamos com todo carinho e cuidado!`,
     rating: 4.7,
     reviews: 234,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
   },
@@ -2188,6 +2290,8 @@ Total: 36 canetas para todas as suas necessidades de escrita, desenho e marcaç
     rating: 4.8,
     reviews: 178,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
   },
@@ -2235,6 +2339,8 @@ Kit Extra G (65 Itens):
     rating: 4.9,
     reviews: 345,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
   },
@@ -2285,6 +2391,8 @@ Lápis preto NR 2 Sextavado com 6 unidades:
     rating: 4.9,
     reviews: 289,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
   },
@@ -2309,6 +2417,8 @@ Embalagem divertida.`,
     rating: 4.7,
     reviews: 89,
     inStock: true,
+    weight: 60,
+    dimensions: { length: 10, width: 6, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Única Opção", image: "https://i.postimg.cc/kXkpPFvQ/image.png" }],
@@ -2334,6 +2444,8 @@ Não tóxica.`,
     rating: 4.9,
     reviews: 215,
     inStock: true,
+    weight: 60,
+    dimensions: { length: 10, width: 6, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -2364,6 +2476,8 @@ Item colecionável.`,
     rating: 4.6,
     reviews: 124,
     inStock: true,
+    weight: 60,
+    dimensions: { length: 10, width: 6, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2394,6 +2508,8 @@ Produto colecionável.`,
     rating: 4.5,
     reviews: 98,
     inStock: true,
+    weight: 60,
+    dimensions: { length: 10, width: 6, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2437,6 +2553,8 @@ Selo de qualidade garantida.`,
     rating: 4.8,
     reviews: 167,
     inStock: false,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Azul (Stitch)", image: "https://i.postimg.cc/xjZsLyhm/image.png" }],
@@ -2461,6 +2579,8 @@ Design fofo e funcional.`,
     rating: 4.7,
     reviews: 143,
     inStock: true,
+    weight: 60,
+    dimensions: { length: 10, width: 6, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2491,6 +2611,8 @@ Grip emborrachado para maior conforto.`,
     rating: 4.6,
     reviews: 112,
     inStock: true,
+    weight: 100,
+    dimensions: { length: 16, width: 8, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2520,6 +2642,8 @@ Ideal para o dia a dia escolar.`,
     rating: 4.5,
     reviews: 87,
     inStock: true,
+    weight: 800,
+    dimensions: { length: 35, width: 25, height: 10 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2552,6 +2676,8 @@ Com tampa e borracha no topo.`,
     rating: 4.4,
     reviews: 76,
     inStock: true,
+    weight: 80,
+    dimensions: { length: 16, width: 6, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2586,6 +2712,8 @@ Design elegante e sofisticado.`,
     rating: 4.9,
     reviews: 198,
     inStock: true,
+    weight: 100,
+    dimensions: { length: 16, width: 8, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Pink", image: "https://i.postimg.cc/cLB27tfm/image.png" }],
@@ -2613,6 +2741,8 @@ Design elegante e sofisticado.`,
     rating: 4.9,
     reviews: 176,
     inStock: true,
+    weight: 100,
+    dimensions: { length: 16, width: 8, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Cyan", image: "https://i.postimg.cc/g0c5gcD8/image.png" }],
@@ -2640,6 +2770,8 @@ Design elegante e sofisticado.`,
     rating: 4.8,
     reviews: 154,
     inStock: true,
+    weight: 100,
+    dimensions: { length: 16, width: 8, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Purple (Roxo)", image: "https://i.postimg.cc/26VtfHMw/image.png" }],
@@ -2666,6 +2798,8 @@ Abertura rotacional.`,
     rating: 4.7,
     reviews: 189,
     inStock: true,
+    weight: 100,
+    dimensions: { length: 16, width: 8, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -2697,6 +2831,8 @@ Conforto na escrita.`,
     rating: 4.6,
     reviews: 134,
     inStock: true,
+    weight: 100,
+    dimensions: { length: 16, width: 8, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2727,6 +2863,8 @@ Topo decorado com tema de gatos.`,
     rating: 4.5,
     reviews: 98,
     inStock: true,
+    weight: 100,
+    dimensions: { length: 16, width: 8, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -2758,6 +2896,8 @@ Ideal para desenhos, pinturas e lettering.`,
     rating: 4.7,
     reviews: 245,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Kit com 60 Cores", image: "https://i.postimg.cc/2jqtshJr/image.png" }],
@@ -2793,6 +2933,8 @@ Caderno moderno e funcional, com capa dura resistente.`,
     rating: 4.9,
     reviews: 178,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Estampa Capivara", image: "https://i.postimg.cc/3xPNZgPf/image.png" }],
@@ -2825,6 +2967,8 @@ Permite remover, acrescentar e reordenar as folhas sem danos.`,
     rating: 4.8,
     reviews: 312,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Estampa Stitch", image: "https://i.postimg.cc/NMCW1xnq/image.png" }],
@@ -2856,6 +3000,8 @@ Permite montar, remover e reorganizar as páginas. Acompanha caneta fofa de brin
     rating: 4.9,
     reviews: 156,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -2894,6 +3040,8 @@ Produto original e licenciado Disney.`,
     rating: 4.8,
     reviews: 289,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Azul (Stitch)", image: "https://i.postimg.cc/9Mc7Gd7q/image.png" }],
@@ -2926,6 +3074,8 @@ Folhas destacáveis e reutilizáveis.`,
     rating: 4.9,
     reviews: 423,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Rosa-chiclete (Pandalu Glow)", image: "https://i.postimg.cc/NMLgqLhn/image.png" }],
@@ -2958,6 +3108,8 @@ Ideal para organização personalizada.`,
     rating: 4.9,
     reviews: 367,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Rosa (Hello Kitty)", image: "https://i.postimg.cc/k5H55Wym/image.png" }],
@@ -2989,6 +3141,8 @@ Edição especial com selo, folha de adesivos e folha exclusiva com a evolução
     rating: 4.8,
     reviews: 312,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Preto e Branco (Corinthians)", image: "https://i.postimg.cc/3JyHZW25/image.png" }],
@@ -3020,6 +3174,8 @@ Produto artesanal, pode apresentar variações leves na tonalidade.`,
     rating: 4.7,
     reviews: 198,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Branco e Preto (Santos)", image: "https://i.postimg.cc/1RBzdgg9/image.png" }],
@@ -3051,6 +3207,8 @@ Cores Verde e Branca, criado exclusivamente para a torcida alviverde.`,
     rating: 4.8,
     reviews: 245,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Verde e Branco (Palmeiras)", image: "https://i.postimg.cc/Y0HmzTs9/image.png" }],
@@ -3081,6 +3239,8 @@ Produto artesanal, pode apresentar variações leves na tonalidade.`,
     rating: 4.7,
     reviews: 189,
     inStock: true,
+    weight: 450,
+    dimensions: { length: 28, width: 21, height: 2 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Tricolor (São Paulo)", image: "https://i.postimg.cc/0Nn3vq7c/image.png" }],
@@ -3108,6 +3268,8 @@ Ponta chanfrada para traço de 2 mm.`,
     rating: 4.6,
     reviews: 156,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Kit com 15 Cores", image: "https://i.postimg.cc/WzGY9Lp6/image.png" }],
@@ -3138,6 +3300,8 @@ Produto colecionável.`,
     rating: 4.8,
     reviews: 234,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Kit com 18 Mini Canetas", image: "https://i.postimg.cc/d3Y4ZHR0/image.png" }],
@@ -3169,6 +3333,8 @@ Experiência visual e funcional para organização.`,
     rating: 4.7,
     reviews: 178,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Kit com 6 Cores", image: "https://i.postimg.cc/mDbPc7cp/image.png" }],
@@ -3199,6 +3365,8 @@ Dá um toque de estilo, personalidade e alegria à rotina de escrita.`,
     rating: 4.8,
     reviews: 267,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Kit com 15 Modelos/Cores", image: "https://i.postimg.cc/3NkmR2VR/image.png" }],
@@ -3229,6 +3397,8 @@ Tinta azul em gel apagável, permitindo correções sem deixar marcas.`,
     rating: 4.7,
     reviews: 145,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 18, width: 10, height: 3 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Kit com 3 Canetas", image: "https://i.postimg.cc/90yTZcXH/image.png" }],
@@ -3255,6 +3425,8 @@ Ideal para anotações, lembretes e organização.`,
     rating: 4.6,
     reviews: 112,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 15, width: 10, height: 4 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -3283,6 +3455,8 @@ Ferramenta essencial para organizar tarefas e compromissos.`,
     rating: 4.5,
     reviews: 98,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 15, width: 10, height: 4 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [{ name: "Cores Sortidas", image: "https://i.postimg.cc/QN6rZcj7/image.png" }],
@@ -3309,6 +3483,8 @@ Une praticidade com um toque de charme temático (Stitch/Hello Kitty).`,
     rating: 4.8,
     reviews: 203,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 15, width: 10, height: 4 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Stitch / Hello Kitty", image: "https://i.postimg.cc/fW6QbD0N/image.png" }],
@@ -3341,6 +3517,8 @@ Ideal para dar um toque especial no momento de estudos.`,
     rating: 4.7,
     reviews: 156,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 15, width: 10, height: 4 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -3376,6 +3554,8 @@ Lâminas resistentes em aço inoxidável, com bordas arredondadas.`,
     rating: 4.6,
     reviews: 134,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 15, width: 10, height: 4 },
     isBestSeller: false,
     isOnSale: false,
     colorVariants: [
@@ -3409,6 +3589,8 @@ Conjunto completo de materiais necessários para atividades escolares.`,
     rating: 4.9,
     reviews: 287,
     inStock: true,
+    weight: 150,
+    dimensions: { length: 15, width: 10, height: 4 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [{ name: "Kit Único (Hello Kitty)", image: "https://i.postimg.cc/BQHbShtJ/image.png" }],
@@ -3446,6 +3628,8 @@ Conjunto completo de materiais necessários para atividades escolares.`,
     rating: 4.9,
     reviews: 234,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: true,
     isOnSale: false,
   },
@@ -3480,6 +3664,8 @@ Conjunto completo de materiais necessários para atividades escolares.`,
     rating: 4.8,
     reviews: 189,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: true,
     isOnSale: false,
   },
@@ -3513,6 +3699,8 @@ Conjunto completo de materiais necessários para atividades escolares.`,
     rating: 4.9,
     reviews: 312,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -3551,6 +3739,8 @@ Conjunto completo de materiais necessários para atividades escolares.`,
     rating: 4.9,
     reviews: 267,
     inStock: true,
+    weight: 900,
+    dimensions: { length: 42, width: 30, height: 15 },
     isBestSeller: true,
     isOnSale: false,
     colorVariants: [
@@ -3591,3 +3781,7 @@ export function getCategoryBySlug(slug: string) {
 export function getProductBySlug(slug: string) {
   return products.find((product) => product.slug === slug)
 }
+
+export function getProductById(id: string) {
+  return products.find((product) => product.id === id)
+}
@@ -0,0 +1,60 @@
+// Tabelas de frete por serviço e zona de destino
+
+export type ShippingZone = "local" | "regional" | "national" | "remote"
+
+export interface ShippingRate {
+  // Preço até 1 kg e valor por kg adicional (em reais)
+  basePrice: number
+  pricePerExtraKg: number
+  minDays: number
+  maxDays: number
+}
+
+export interface ShippingService {
+  id: string
+  name: string
+  carrier: string
+  // Zonas não listadas não são atendidas pelo serviço
+  rates: Partial<Record<ShippingZone, ShippingRate>>
+  // Subtotal mínimo para frete grátis (ausente = nunca grátis)
+  freeShippingMinSubtotal?: number
+}
+
+// CEP de onde os pedidos são despachados
+export const SHIPPING_ORIGIN_CEP = "01310100"
+
+export const shippingServices: ShippingService[] = [
+  {
+    id: "pac",
+    name: "PAC - Correios",
+    carrier: "Correios",
+    freeShippingMinSubtotal: 0,
+    rates: {
+      local: { basePrice: 14.9, pricePerExtraKg: 2.5, minDays: 3, maxDays: 5 },
+      regional: { basePrice: 18.9, pricePerExtraKg: 3.5, minDays: 5, maxDays: 8 },
+      national: { basePrice: 24.9, pricePerExtraKg: 5, minDays: 7, maxDays: 12 },
+      remote: { basePrice: 32.9, pricePerExtraKg: 7, minDays: 10, maxDays: 15 },
+    },
+  },
+  {
+    id: "sedex",
+    name: "SEDEX",
+    carrier: "Correios",
+    freeShippingMinSubtotal: 299.9,
+    rates: {
+      local: { basePrice: 7.9, pricePerExtraKg: 2, minDays: 1, maxDays: 2 },
+      regional: { basePrice: 12.9, pricePerExtraKg: 4, minDays: 2, maxDays: 3 },
+      national: { basePrice: 24.9, pricePerExtraKg: 7, minDays: 3, maxDays: 5 },
+      remote: { basePrice: 39.9, pricePerExtraKg: 10, minDays: 5, maxDays: 8 },
+    },
+  },
+  {
+    id: "express",
+    name: "Entrega Expressa",
+    carrier: "Jadlog",
+    rates: {
+      local: { basePrice: 12.9, pricePerExtraKg: 3, minDays: 1, maxDays: 1 },
+      regional: { basePrice: 19.9, pricePerExtraKg: 5, minDays: 1, maxDays: 2 },
+    },
+  },
+]
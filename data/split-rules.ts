@@ -0,0 +1,26 @@
+// Regras de divisão da venda (split) com parceiros e afiliados
+
+export interface SplitRule {
+  id: string
+  description: string
+  // E-mail da conta TrexPay que recebe a parte do parceiro
+  recipientEmail: string
+  // Percentual sobre o valor dos itens alcançados pela regra (após o desconto do pedido)
+  percentage: number
+  // Filtros de itens; sem filtro, a regra vale para todos os itens do pedido
+  productIds?: string[]
+  brands?: string[]
+  // Códigos "src" de afiliado; sem o filtro, vale para qualquer origem
+  srcCodes?: string[]
+  active: boolean
+}
+
+/**
+ * A TrexPay aceita um único recebedor por cobrança: vale o recebedor da
+ * primeira regra aplicável, somando as demais regras do mesmo recebedor
+ *
+ * Exemplo: { id: "faber-castell", description: "Consignado Faber-Castell",
+ * recipientEmail: "financeiro@parceiro.com.br", percentage: 30,
+ * brands: ["Faber-Castell"], active: true }
+ */
+export const splitRules: SplitRule[] = []
@@ -0,0 +1,33 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+function getSecondsLeft(target: string): number {
+  return Math.max(0, Math.ceil((new Date(target).getTime() - Date.now()) / 1000))
+}
+
+/**
+ * Segundos restantes até a data informada, atualizados a cada segundo
+ * (null sem data)
+ */
+export function useCountdown(target: string | null | undefined): number | null {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(target ? getSecondsLeft(target) : null)
+
+  useEffect(() => {
+    if (!target) {
+      setSecondsLeft(null)
+      return
+    }
+
+    setSecondsLeft(getSecondsLeft(target))
+    const interval = setInterval(() => {
+      const next = getSecondsLeft(target)
+      setSecondsLeft(next)
+      if (next === 0) clearInterval(interval)
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [target])
+
+  return secondsLeft
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { CardBrand } from "@/lib/payment-provider"
+
+export type PaymentStatusValue = "pending" | "paid" | "expired" | "cancelled" | "refused" | "refunded"
+
+interface UsePaymentStatusOptions {
+  orderId?: string | null
+  transactionId?: string | null
+  enabled: boolean
+  onChange?: (status: PaymentStatusValue) => void
+}
+
+// Consulta de status usada apenas quando o stream de eventos não está disponível
+const FALLBACK_POLL_INTERVAL_MS = 15 * 1000
+const MAX_WATCH_DURATION_MS = 2 * 60 * 60 * 1000
+
+/**
+ * Acompanha o status do pagamento pelo stream GET /api/pix/events
+ * (atualização imediata após o webhook), com consulta periódica como reserva
+ */
+export function usePaymentStatus({ orderId, transactionId, enabled, onChange }: UsePaymentStatusOptions) {
+  const [status, setStatus] = useState<PaymentStatusValue>("pending")
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  useEffect(() => {
+    if (!enabled || (!orderId && !transactionId)) return
+
+    const query = orderId ? `orderId=${encodeURIComponent(orderId)}` : `transactionId=${encodeURIComponent(transactionId!)}`
+    let stopped = false
+    let eventSource: EventSource | null = null
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+
+    const stop = () => {
+      stopped = true
+      eventSource?.close()
+      if (pollTimer) clearInterval(pollTimer)
+    }
+
+    const update = (next: PaymentStatusValue, nextExpiresAt?: string | null) => {
+      if (stopped) return
+      setStatus(next)
+      if (nextExpiresAt !== undefined) setExpiresAt(nextExpiresAt)
+      if (next !== "pending") {
+        stop()
+        onChangeRef.current?.(next)
+      }
+    }
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/pix/status?${query}`)
+        const data = await response.json()
+        if (response.ok && data.status) update(data.status === "approved" ? "paid" : data.status, data.expiresAt)
+      } catch (error) {
+        console.error("[Payment Status] Error checking status:", error)
+      }
+    }
+
+    const startPolling = () => {
+      if (stopped || pollTimer) return
+      poll()
+      pollTimer = setInterval(poll, FALLBACK_POLL_INTERVAL_MS)
+    }
+
+    if (typeof EventSource === "undefined") {
+      startPolling()
+    } else {
+      eventSource = new EventSource(`/api/pix/events?${query}`)
+      eventSource.addEventListener("status", (event) => {
+        try {
+          const data = JSON.parse((event as MessageEvent).data)
+          update(data.status, data.expiresAt)
+        } catch {
+          // Evento malformado: aguarda o próximo
+        }
+      })
+      eventSource.onerror = () => {
+        // CLOSED = servidor recusou o stream (429, 404...); reconexões normais ficam com o EventSource
+        if (eventSource?.readyState === EventSource.CLOSED) startPolling()
+      }
+    }
+
+    const timeout = setTimeout(stop, MAX_WATCH_DURATION_MS)
+
+    return () => {
+      stop()
+      clearTimeout(timeout)
+    }
+  }, [enabled, orderId, transactionId])
+
+  return { status, expiresAt }
+}
+
+export interface CardPaymentInfo {
+  status: PaymentStatusValue
+  brand: CardBrand
+  lastDigits: string
+  installments: number
+  installmentAmount: number
+  // Autenticação 3DS ainda pendente
+  authenticationUrl: string | null
+  declineMessage: string | null
+}
+
+export interface BoletoInfo {
+  digitableLine: string
+  barcode: string
+  dueDate: string
+  pdfUrl: string
+  expiresAt: string | null
+}
+
+/**
+ * Pede uma nova cobrança (PIX ou boleto) para o pedido expirado (POST /api/pix/regenerate)
+ */
+export async function requestNewCharge(orderId: string): Promise<{
+  success: boolean
+  transactionId?: string
+  qrcode?: string
+  boleto?: BoletoInfo
+  expiresAt?: string | null
+  error?: string
+}> {
+  try {
+    const response = await fetch("/api/pix/regenerate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId }),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      return { success: false, error: data.error || "Não foi possível gerar um novo pagamento" }
+    }
+    return {
+      success: true,
+      transactionId: data.transactionId,
+      qrcode: data.pix?.qrcode || "",
+      boleto: data.boleto || undefined,
+      expiresAt: data.pix?.expiresAt || data.boleto?.expiresAt || null,
+    }
+  } catch {
+    return { success: false, error: "Não foi possível gerar um novo pagamento" }
+  }
+}
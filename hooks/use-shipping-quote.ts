@@ -0,0 +1,51 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import type { ShippingOption } from "@/types"
+
+export interface ShippingQuoteRequestItem {
+  id: string
+  quantity: number
+}
+
+export function useShippingQuote() {
+  const [options, setOptions] = useState<ShippingOption[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const quote = useCallback(async (cep: string, items: ShippingQuoteRequestItem[]) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/shipping/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cep, items }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setOptions(null)
+        setError(data.error || "Não foi possível calcular o frete")
+        return null
+      }
+
+      setOptions(data.options)
+      return data.options as ShippingOption[]
+    } catch {
+      setOptions(null)
+      setError("Não foi possível calcular o frete")
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const reset = useCallback(() => {
+    setOptions(null)
+    setError(null)
+  }, [])
+
+  return { options, isLoading, error, quote, reset }
+}
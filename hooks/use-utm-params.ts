@@ -1,7 +1,15 @@
 "use client"
 
-import { useEffect, useState, useRef } from "react"
+import { useEffect, useState } from "react"
 import { useSearchParams } from "next/navigation"
+import {
+  ATTRIBUTION_STORAGE_KEY,
+  LEGACY_UTM_STORAGE_KEY,
+  applyAttributionWindow,
+  attributionSchema,
+  getCampaignParams,
+  type AttributionData,
+} from "@/lib/attribution"
 
 export interface UtmParams {
   src: string | null
@@ -13,7 +21,28 @@ export interface UtmParams {
   utm_term: string | null
 }
 
-const UTM_STORAGE_KEY = "cometa_utm_params"
+/**
+ * Lê os toques registrados pelo script de captura do layout,
+ * já descartando os que saíram da janela de atribuição
+ */
+export function getAttributionFromStorage(): AttributionData {
+  const empty: AttributionData = { firstTouch: null, lastTouch: null }
+  if (typeof window === "undefined") return empty
+
+  try {
+    const stored = localStorage.getItem(ATTRIBUTION_STORAGE_KEY)
+    if (stored) {
+      const parsed = attributionSchema.safeParse(JSON.parse(stored))
+      if (parsed.success) {
+        return applyAttributionWindow(parsed.data)
+      }
+    }
+  } catch {
+    // localStorage not available
+  }
+
+  return empty
+}
 
 export function getUtmParamsFromStorage(): UtmParams {
   const defaultParams: UtmParams = {
@@ -28,8 +57,14 @@ export function getUtmParamsFromStorage(): UtmParams {
 
   if (typeof window === "undefined") return defaultParams
 
+  // UTMs do último toque dentro da janela de atribuição que os tenha
+  const campaignParams = getCampaignParams(getAttributionFromStorage())
+  if (campaignParams) {
+    return { ...defaultParams, ...campaignParams }
+  }
+
   try {
-    const stored = localStorage.getItem(UTM_STORAGE_KEY)
+    const stored = localStorage.getItem(LEGACY_UTM_STORAGE_KEY)
     if (stored) {
       return { ...defaultParams, ...JSON.parse(stored) }
     }
@@ -43,35 +78,10 @@ export function getUtmParamsFromStorage(): UtmParams {
 export function useUtmParams(): UtmParams {
   const searchParams = useSearchParams()
   const [utmParams, setUtmParams] = useState<UtmParams>(() => getUtmParamsFromStorage())
-  const hasProcessed = useRef(false)
 
+  // A captura acontece no script inline do layout; aqui apenas relemos o armazenamento
   useEffect(() => {
-    if (hasProcessed.current) return
-
-    // Try to get from URL first
-    const urlParams: UtmParams = {
-      src: searchParams.get("src"),
-      sck: searchParams.get("sck"),
-      utm_source: searchParams.get("utm_source"),
-      utm_campaign: searchParams.get("utm_campaign"),
-      utm_medium: searchParams.get("utm_medium"),
-      utm_content: searchParams.get("utm_content"),
-      utm_term: searchParams.get("utm_term"),
-    }
-
-    // Check if any URL param exists
-    const hasUrlParams = Object.values(urlParams).some((v) => v !== null)
-
-    if (hasUrlParams) {
-      try {
-        localStorage.setItem(UTM_STORAGE_KEY, JSON.stringify(urlParams))
-      } catch {
-        // localStorage not available
-      }
-      setUtmParams(urlParams)
-    }
-
-    hasProcessed.current = true
+    setUtmParams(getUtmParamsFromStorage())
   }, [searchParams])
 
   return utmParams
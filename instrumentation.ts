@@ -0,0 +1,18 @@
+// Executado uma vez na inicialização do servidor
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  // Valida as variáveis de ambiente antes de aceitar requisições
+  const { getConfig } = await import("@/lib/config")
+  getConfig()
+
+  // Worker do outbox de conversões (reenvio com backoff das mensagens pendentes)
+  const { startOutboxWorker } = await import("@/lib/outbox")
+  await import("@/lib/utmfy")
+  await import("@/lib/conversion-sinks")
+  startOutboxWorker()
+
+  // Pedidos com o PIX vencido passam para "expired"
+  const { startExpiryWorker } = await import("@/lib/payment-status")
+  startExpiryWorker()
+}
@@ -0,0 +1,79 @@
+import crypto from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { getConfig } from "@/lib/config"
+
+// ============================================
+// Autorização da área administrativa (/api/admin/*): diagnóstico, estornos,
+// outbox, webhooks e atribuição usam este mesmo helper
+// Aceita o header "Authorization: Bearer <ADMIN_API_TOKEN>" ou a sessão
+// criada em POST /api/admin/session. A sessão é assinada com o próprio
+// token, então trocar o ADMIN_API_TOKEN encerra todas as sessões
+// ============================================
+
+export const ADMIN_SESSION_COOKIE = "admin_session"
+const ADMIN_SESSION_TTL_SECONDS = 8 * 60 * 60
+
+function safeEqual(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a)
+  const bBuffer = Buffer.from(b)
+  return aBuffer.length === bBuffer.length && crypto.timingSafeEqual(aBuffer, bBuffer)
+}
+
+function signSession(expiresAt: number, token: string): string {
+  return crypto.createHmac("sha256", token).update(`admin:${expiresAt}`).digest("hex")
+}
+
+/**
+ * Confere o token informado no login (comparação em tempo constante)
+ */
+export function isValidAdminToken(received: string): boolean {
+  const token = getConfig().adminApiToken
+  return !!token && safeEqual(received, token)
+}
+
+function isValidAdminSession(value: string | undefined, token: string): boolean {
+  if (!value) return false
+  const [expiresAt, signature] = value.split(".")
+  if (!expiresAt || !signature || Number(expiresAt) <= Date.now()) return false
+  return safeEqual(signature, signSession(Number(expiresAt), token))
+}
+
+export function isAdminRequestAuthorized(request: NextRequest): boolean {
+  const token = getConfig().adminApiToken
+  if (!token) return false
+
+  const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "")
+  if (bearer) return safeEqual(bearer, token)
+
+  return isValidAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value, token)
+}
+
+/**
+ * Grava o cookie de sessão administrativa na resposta
+ */
+export function setAdminSessionCookie(response: NextResponse): NextResponse {
+  const { adminApiToken, isProduction } = getConfig()
+  if (!adminApiToken) return response
+
+  const expiresAt = Date.now() + ADMIN_SESSION_TTL_SECONDS * 1000
+  response.cookies.set(ADMIN_SESSION_COOKIE, `${expiresAt}.${signSession(expiresAt, adminApiToken)}`, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: "strict",
+    path: "/api/admin",
+    maxAge: ADMIN_SESSION_TTL_SECONDS,
+  })
+  return response
+}
+
+export function clearAdminSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(ADMIN_SESSION_COOKIE, "", { path: "/api/admin", maxAge: 0 })
+  return response
+}
+
+export function adminUnauthorizedResponse() {
+  return NextResponse.json(
+    { error: "Não autorizado" },
+    { status: 401 }
+  )
+}
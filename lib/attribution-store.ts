@@ -0,0 +1,221 @@
+import { createJsonFileStore } from "@/lib/json-file-store"
+import { getConfig } from "@/lib/config"
+import type { Order } from "@/lib/orders"
+import type { AttributionData } from "@/lib/attribution"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Armazenamento de atribuição (UTMs) no servidor
+// Persiste os parâmetros de rastreamento entre a criação do pedido e o
+// webhook de pagamento, indexados pelo id do pedido e pelo id da transação.
+// Implementações: "file" (padrão) e "memory"; um KV pode ser adicionado
+// implementando AttributionStore
+// ============================================
+
+const log = createLogger("Attribution")
+
+export interface StoredUtmParams {
+  src?: string | null
+  sck?: string | null
+  utm_source?: string | null
+  utm_campaign?: string | null
+  utm_medium?: string | null
+  utm_content?: string | null
+  utm_term?: string | null
+}
+
+export interface AttributionRecord {
+  orderId: string
+  params: StoredUtmParams
+  // Primeiro e último toque capturados no navegador
+  touches?: AttributionData | null
+  createdAt: string
+  expiresAt: string
+}
+
+export interface AttributionStore {
+  name: string
+  set(key: string, record: AttributionRecord): Promise<void>
+  get(key: string): Promise<AttributionRecord | null>
+  delete(key: string): Promise<void>
+}
+
+export interface AttributionMetrics {
+  hit: number
+  miss: number
+  expired: number
+}
+
+// Validade padrão (ATTRIBUTION_TTL_HOURS): 7 dias, bem acima da validade do PIX
+function getTtlMs(): number {
+  return getConfig().attribution.ttlHours * 60 * 60 * 1000
+}
+
+const orderKey = (orderId: string) => `order:${orderId}`
+const transactionKey = (transactionId: string) => `tx:${transactionId}`
+
+/**
+ * Implementação em arquivo JSON; registros vencidos são descartados nas escritas
+ */
+export function createFileAttributionStore(fileName = "attribution.json"): AttributionStore {
+  const store = createJsonFileStore<AttributionRecord>(fileName)
+
+  return {
+    name: "file",
+    async set(key, record) {
+      await store.update((records) => {
+        const now = new Date().toISOString()
+        for (const [existingKey, existing] of Object.entries(records)) {
+          if (existing.expiresAt <= now) delete records[existingKey]
+        }
+        records[key] = record
+      })
+    },
+    async get(key) {
+      const records = await store.read()
+      return records[key] || null
+    },
+    async delete(key) {
+      await store.update((records) => {
+        delete records[key]
+      })
+    },
+  }
+}
+
+/**
+ * Implementação em memória (apenas para desenvolvimento)
+ */
+export function createMemoryAttributionStore(): AttributionStore {
+  const records = new Map<string, AttributionRecord>()
+
+  return {
+    name: "memory",
+    async set(key, record) {
+      records.set(key, record)
+    },
+    async get(key) {
+      return records.get(key) || null
+    },
+    async delete(key) {
+      records.delete(key)
+    },
+  }
+}
+
+const stores: Record<string, () => AttributionStore> = {
+  file: () => createFileAttributionStore(),
+  memory: createMemoryAttributionStore,
+}
+
+let attributionStore: AttributionStore | null = null
+
+export function getAttributionStore(): AttributionStore {
+  if (!attributionStore) {
+    const name = getConfig().attribution.store
+    attributionStore = (stores[name] || stores.file)()
+  }
+  return attributionStore
+}
+
+// ============================================
+// Métricas de consulta
+// ============================================
+
+const metricsStore = createJsonFileStore<number>("attribution-metrics.json")
+
+async function recordLookup(result: keyof AttributionMetrics): Promise<void> {
+  try {
+    await metricsStore.update((counters) => {
+      counters[result] = (counters[result] || 0) + 1
+    })
+  } catch (error) {
+    log.error("Erro ao registrar métrica", { error })
+  }
+}
+
+export async function getAttributionMetrics(): Promise<AttributionMetrics & { hitRate: number | null }> {
+  const counters = await metricsStore.read()
+  const metrics = { hit: counters.hit || 0, miss: counters.miss || 0, expired: counters.expired || 0 }
+  const total = metrics.hit + metrics.miss + metrics.expired
+  return { ...metrics, hitRate: total > 0 ? metrics.hit / total : null }
+}
+
+// ============================================
+// Operações
+// ============================================
+
+/**
+ * Salva os parâmetros de rastreamento do pedido
+ */
+export async function saveAttribution(
+  orderId: string,
+  params: StoredUtmParams,
+  touches: AttributionData | null = null
+): Promise<void> {
+  const now = Date.now()
+  await getAttributionStore().set(orderKey(orderId), {
+    orderId,
+    params,
+    touches,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getTtlMs()).toISOString(),
+  })
+  log.info("UTMs salvos para o pedido", { orderId })
+}
+
+/**
+ * Indexa a atribuição do pedido também pelo id da transação do gateway
+ */
+export async function linkAttributionToTransaction(orderId: string, transactionId: string): Promise<void> {
+  const store = getAttributionStore()
+  const record = await store.get(orderKey(orderId))
+  if (record) {
+    await store.set(transactionKey(transactionId), record)
+  }
+}
+
+async function lookup(key: string): Promise<AttributionRecord | null | "expired"> {
+  const record = await getAttributionStore().get(key)
+  if (!record) return null
+  if (new Date(record.expiresAt) <= new Date()) {
+    await getAttributionStore().delete(key)
+    return "expired"
+  }
+  return record
+}
+
+/**
+ * Busca a atribuição pelo id do pedido ou, em seguida, pelo id da transação
+ */
+export async function getAttribution(params: {
+  orderId?: string
+  transactionId?: string | null
+}): Promise<StoredUtmParams | null> {
+  let result: AttributionRecord | null | "expired" = null
+  if (params.orderId) {
+    result = await lookup(orderKey(params.orderId))
+  }
+  if ((!result || result === "expired") && params.transactionId) {
+    const byTransaction = await lookup(transactionKey(params.transactionId))
+    result = byTransaction || result
+  }
+
+  if (result && result !== "expired") {
+    await recordLookup("hit")
+    return result.params
+  }
+
+  await recordLookup(result === "expired" ? "expired" : "miss")
+  log.warn("UTMs não encontrados", { orderId: params.orderId, transactionId: params.transactionId, result: result || "miss" })
+  return null
+}
+
+/**
+ * Atribuição usada nos eventos de conversão do pedido
+ * (armazenamento de atribuição, com os parâmetros salvos no pedido como reserva)
+ */
+export async function getOrderAttribution(order: Order): Promise<StoredUtmParams | null> {
+  const params = await getAttribution({ orderId: order.id, transactionId: order.payment.transactionId })
+  return params || order.trackingParams
+}
@@ -0,0 +1,130 @@
+import { z } from "zod"
+
+// ============================================
+// Atribuição de origem (first touch / last touch)
+// Compartilhado entre o script de captura (layout), o checkout e a API
+// ============================================
+
+export const UTM_KEYS = ["utm_source", "utm_campaign", "utm_medium", "utm_content", "utm_term", "src", "sck"] as const
+export const CLICK_ID_KEYS = ["fbclid", "gclid", "ttclid"] as const
+
+export const ATTRIBUTION_STORAGE_KEY = "cometa_attribution"
+// Chave antiga (apenas UTMs do último acesso), mantida para compatibilidade
+export const LEGACY_UTM_STORAGE_KEY = "cometa_utm_params"
+
+// Janela de atribuição: toques mais antigos que isso são descartados
+export const ATTRIBUTION_WINDOW_DAYS = 30
+
+export type UtmKey = (typeof UTM_KEYS)[number]
+export type ClickIdKey = (typeof CLICK_ID_KEYS)[number]
+
+export interface AttributionTouch {
+  params: Partial<Record<UtmKey, string>>
+  clickIds: Partial<Record<ClickIdKey, string>>
+  referrer: string | null
+  landingPage: string
+  timestamp: string
+}
+
+export interface AttributionData {
+  firstTouch: AttributionTouch | null
+  lastTouch: AttributionTouch | null
+}
+
+const trackingValue = z.string().trim().max(500)
+
+const touchSchema = z.object({
+  params: z.object(Object.fromEntries(UTM_KEYS.map((key) => [key, trackingValue.optional()]))).default({}),
+  clickIds: z.object(Object.fromEntries(CLICK_ID_KEYS.map((key) => [key, trackingValue.optional()]))).default({}),
+  referrer: z.string().max(2000).nullable().default(null),
+  landingPage: z.string().max(2000),
+  timestamp: z.string().datetime(),
+})
+
+export const attributionSchema = z.object({
+  firstTouch: touchSchema.nullable().default(null),
+  lastTouch: touchSchema.nullable().default(null),
+})
+
+export function isTouchWithinWindow(touch: AttributionTouch | null, now = new Date()): touch is AttributionTouch {
+  if (!touch) return false
+  const age = now.getTime() - new Date(touch.timestamp).getTime()
+  return age >= 0 && age <= ATTRIBUTION_WINDOW_DAYS * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Descarta os toques fora da janela de atribuição
+ */
+export function applyAttributionWindow(data: AttributionData, now = new Date()): AttributionData {
+  return {
+    firstTouch: isTouchWithinWindow(data.firstTouch, now) ? data.firstTouch : null,
+    lastTouch: isTouchWithinWindow(data.lastTouch, now) ? data.lastTouch : null,
+  }
+}
+
+function hasCampaignParams(touch: AttributionTouch | null | undefined): touch is AttributionTouch {
+  return !!touch && Object.values(touch.params).some(Boolean)
+}
+
+/**
+ * UTMs do toque mais recente que os tenha (last touch, senão first touch).
+ * Toques gravados antes do repasse dos UTMs podem ter só referrer/click ID
+ */
+export function getCampaignParams(data: AttributionData | null): AttributionTouch["params"] | null {
+  const touch = [data?.lastTouch, data?.firstTouch].find(hasCampaignParams)
+  return touch ? touch.params : null
+}
+
+/**
+ * Script inline executado antes da hidratação (app/layout.tsx)
+ * Registra um novo toque quando a URL traz UTMs/click IDs ou quando o
+ * visitante chega de outro site; o first touch só é substituído quando
+ * sai da janela de atribuição. Um toque sem UTMs (só referrer ou click ID)
+ * herda os UTMs do last touch anterior, para não perder a campanha
+ */
+export const ATTRIBUTION_CAPTURE_SCRIPT = `
+(function () {
+  var utmKeys = ${JSON.stringify(UTM_KEYS)};
+  var clickIdKeys = ${JSON.stringify(CLICK_ID_KEYS)};
+  var windowMs = ${ATTRIBUTION_WINDOW_DAYS} * 24 * 60 * 60 * 1000;
+  var params = new URLSearchParams(window.location.search);
+  var touch = { params: {}, clickIds: {}, referrer: null, landingPage: window.location.href, timestamp: new Date().toISOString() };
+  var hasParams = false;
+
+  utmKeys.forEach(function (key) {
+    if (params.get(key)) { touch.params[key] = params.get(key); hasParams = true; }
+  });
+  clickIdKeys.forEach(function (key) {
+    if (params.get(key)) { touch.clickIds[key] = params.get(key); hasParams = true; }
+  });
+
+  var externalReferrer = false;
+  try {
+    if (document.referrer && new URL(document.referrer).host !== window.location.host) {
+      touch.referrer = document.referrer;
+      externalReferrer = true;
+    }
+  } catch (e) {}
+
+  // Navegação interna não gera novo toque
+  if (!hasParams && !externalReferrer) return;
+
+  try {
+    var stored = JSON.parse(localStorage.getItem('${ATTRIBUTION_STORAGE_KEY}') || '{}');
+    var firstTouch = stored.firstTouch;
+    var expired = !firstTouch || Date.now() - new Date(firstTouch.timestamp).getTime() > windowMs;
+    var previous = stored.lastTouch;
+    var hasUtms = Object.keys(touch.params).length > 0;
+    if (!hasUtms && previous && previous.params && Date.now() - new Date(previous.timestamp).getTime() <= windowMs) {
+      touch.params = previous.params;
+    }
+    localStorage.setItem('${ATTRIBUTION_STORAGE_KEY}', JSON.stringify({
+      firstTouch: expired ? touch : firstTouch,
+      lastTouch: touch
+    }));
+    if (hasUtms) {
+      localStorage.setItem('${LEGACY_UTM_STORAGE_KEY}', JSON.stringify(touch.params));
+    }
+  } catch (e) {}
+})();
+`
@@ -0,0 +1,128 @@
+import type { Order } from "@/lib/orders"
+import {
+  BOLETO_SETTLEMENT_BUSINESS_DAYS,
+  encodeInterleaved2of5,
+  formatBoletoDueDate,
+  formatDigitableLine,
+} from "@/lib/boleto"
+import { formatPrice } from "@/lib/utils"
+
+// ============================================
+// PDF do boleto para impressão
+// Usado quando o gateway não fornece o próprio PDF (ex.: simulador).
+// PDF 1.4 escrito à mão: uma página A4, fontes padrão (Helvetica,
+// WinAnsi) e o código de barras desenhado com retângulos
+// ============================================
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 40
+const STORE_NAME = "Cometa Papelaria"
+
+// Barra estreita (pt) e altura do código de barras, próximas do padrão FEBRABAN (103 x 13 mm)
+const BAR_NARROW_WIDTH = 0.72
+const BAR_HEIGHT = 40
+
+// Caracteres fora do WinAnsi viram "?"; parênteses e barras invertidas são escapados
+function pdfText(value: string): string {
+  return value.replace(/[^\x20-\xff]/g, "?").replace(/([\\()])/g, "\\$1")
+}
+
+function maskDocument(document: string): string {
+  const digits = document.replace(/\D/g, "")
+  return `***.***.***-${digits.slice(-2)}`
+}
+
+function createContent() {
+  const operations: string[] = []
+
+  // Coordenadas a partir do topo da página
+  const text = (x: number, top: number, size: number, value: string, bold = false) => {
+    operations.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${x} ${PAGE_HEIGHT - top} Td (${pdfText(value)}) Tj ET`)
+  }
+  const box = (x: number, top: number, width: number, height: number) => {
+    operations.push(`${x} ${PAGE_HEIGHT - top - height} ${width} ${height} re S`)
+  }
+  const field = (x: number, top: number, width: number, label: string, value: string, bold = false) => {
+    box(x, top, width, 30)
+    text(x + 4, top + 10, 7, label)
+    text(x + 4, top + 23, 10, value, bold)
+  }
+  const barcode = (x: number, top: number, digits: string) => {
+    let cursor = x
+    encodeInterleaved2of5(digits).forEach((units, index) => {
+      const width = units * BAR_NARROW_WIDTH
+      if (index % 2 === 0) {
+        operations.push(`${cursor.toFixed(2)} ${PAGE_HEIGHT - top - BAR_HEIGHT} ${width.toFixed(2)} ${BAR_HEIGHT} re f`)
+      }
+      cursor += width
+    })
+  }
+
+  operations.push("0.5 w")
+  return { operations, text, box, field, barcode }
+}
+
+function buildPdfDocument(content: string): Uint8Array<ArrayBuffer> {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+  ]
+
+  let pdf = "%PDF-1.4\n"
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"))
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1")
+  pdf +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return new Uint8Array(Buffer.from(pdf, "latin1"))
+}
+
+/**
+ * Gera o PDF do boleto do pedido; null se o pedido não tem boleto
+ */
+export function renderBoletoPdf(order: Order): Uint8Array<ArrayBuffer> | null {
+  const boleto = order.payment.boleto
+  if (order.payment.method !== "boleto" || !boleto) return null
+
+  const { operations, text, box, field, barcode } = createContent()
+  const width = PAGE_WIDTH - MARGIN * 2
+  const half = width / 2
+
+  text(MARGIN, 60, 16, STORE_NAME, true)
+  text(PAGE_WIDTH - MARGIN - 110, 60, 12, "Boleto bancário")
+  if (order.payment.gateway === "simulator") {
+    text(MARGIN, 80, 9, "BOLETO SIMULADO - NÃO PAGUE ESTE DOCUMENTO", true)
+  }
+
+  box(MARGIN, 95, width, 28)
+  text(MARGIN + 6, 114, 12, formatDigitableLine(boleto.digitableLine), true)
+
+  field(MARGIN, 130, half, "Beneficiário", STORE_NAME)
+  field(MARGIN + half, 130, half, "Vencimento", formatBoletoDueDate(boleto.dueDate), true)
+  field(MARGIN, 160, half, "Pagador", order.customer.name)
+  field(MARGIN + half, 160, half, "Valor do documento", formatPrice(order.totals.total), true)
+  field(MARGIN, 190, half, "CPF do pagador", maskDocument(order.customer.cpf))
+  field(MARGIN + half, 190, half, "Número do documento", order.id)
+
+  box(MARGIN, 220, width, 44)
+  text(MARGIN + 4, 230, 7, "Instruções")
+  text(MARGIN + 4, 244, 9, "Não receber após o vencimento.")
+  text(MARGIN + 4, 256, 9, `O pagamento é confirmado pelo banco em até ${BOLETO_SETTLEMENT_BUSINESS_DAYS} dias úteis.`)
+
+  barcode(MARGIN, 280, boleto.barcode)
+
+  return buildPdfDocument(operations.join("\n"))
+}
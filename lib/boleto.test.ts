@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import {
+  addBusinessDays,
+  buildBoletoBarcode,
+  formatDigitableLine,
+  getDigitableLine,
+  getDueFactor,
+  modulo10,
+  modulo11,
+} from "@/lib/boleto"
+
+// Boletos reais (código de barras → linha digitável) de Banco do Brasil, Caixa e Bradesco
+const KNOWN_BOLETOS = [
+  {
+    barcode: "00193373700000001000500940144816060680935031",
+    digitableLine: "00190500954014481606906809350314337370000000100",
+  },
+  {
+    barcode: "10499898100000214032006561000100040099726390",
+    digitableLine: "10492006506100010004200997263900989810000021403",
+  },
+  {
+    barcode: "23797404300001240200448056168623793601105800",
+    digitableLine: "23790448095616862379336011058009740430000124020",
+  },
+]
+
+describe("getDueFactor", () => {
+  it("conta os dias desde 07/10/1997", () => {
+    expect(getDueFactor("2000-07-03")).toBe("1000")
+    expect(getDueFactor("2007-12-31")).toBe("3737")
+  })
+
+  it("reinicia em 1000 em 22/02/2025", () => {
+    expect(getDueFactor("2025-02-21")).toBe("9999")
+    expect(getDueFactor("2025-02-22")).toBe("1000")
+    expect(getDueFactor("2025-02-23")).toBe("1001")
+  })
+})
+
+describe("modulo10", () => {
+  it("calcula o DV dos campos da linha digitável", () => {
+    expect(modulo10("001905009")).toBe("5")
+    expect(modulo10("4014481606")).toBe("9")
+    expect(modulo10("0680935031")).toBe("4")
+  })
+
+  it("usa 0 quando a soma é múltipla de 10", () => {
+    expect(modulo10("0000000000")).toBe("0")
+  })
+})
+
+describe("modulo11", () => {
+  it("calcula o DV geral do código de barras", () => {
+    for (const { barcode } of KNOWN_BOLETOS) {
+      expect(modulo11(`${barcode.slice(0, 4)}${barcode.slice(5)}`)).toBe(barcode[4])
+    }
+  })
+
+  it("troca os restos que dariam 0, 10 ou 11 por 1", () => {
+    // Soma 0 → 11 - 0 = 11
+    expect(modulo11("0")).toBe("1")
+    // Soma 12 → 11 - 1 = 10
+    expect(modulo11("6")).toBe("1")
+    // Soma 2 → 11 - 2 = 9
+    expect(modulo11("1")).toBe("9")
+  })
+})
+
+describe("getDigitableLine", () => {
+  it.each(KNOWN_BOLETOS)("converte $barcode", ({ barcode, digitableLine }) => {
+    expect(getDigitableLine(barcode)).toBe(digitableLine)
+  })
+
+  it("formata a linha com a pontuação do boleto impresso", () => {
+    expect(formatDigitableLine(KNOWN_BOLETOS[0].digitableLine)).toBe(
+      "00190.50095 40144.816069 06809.350314 3 37370000000100"
+    )
+  })
+})
+
+describe("buildBoletoBarcode", () => {
+  it("monta o código de barras a partir do vencimento, valor e campo livre", () => {
+    expect(
+      buildBoletoBarcode({
+        bankCode: "001",
+        amount: 1,
+        dueDate: "2007-12-31",
+        freeField: "0500940144816060680935031",
+      })
+    ).toBe(KNOWN_BOLETOS[0].barcode)
+  })
+
+  it("usa o novo ciclo do fator para vencimentos a partir de 22/02/2025", () => {
+    const barcode = buildBoletoBarcode({ bankCode: "001", amount: 59.9, dueDate: "2025-02-22", freeField: "1" })
+    expect(barcode).toHaveLength(44)
+    expect(barcode.slice(5, 9)).toBe("1000")
+    expect(barcode.slice(9, 19)).toBe("0000005990")
+    expect(getDigitableLine(barcode)).toHaveLength(47)
+  })
+})
+
+describe("addBusinessDays", () => {
+  it("pula o fim de semana", () => {
+    // Sexta-feira, 14h em Brasília
+    expect(addBusinessDays(new Date("2025-02-21T14:00:00-03:00"), 1)).toBe("2025-02-24")
+    expect(addBusinessDays(new Date("2025-02-21T14:00:00-03:00"), 3)).toBe("2025-02-26")
+  })
+
+  it("usa a data de Brasília perto da meia-noite UTC", () => {
+    // 22h de quinta em Brasília já é sexta em UTC
+    expect(addBusinessDays(new Date("2025-02-20T22:00:00-03:00"), 1)).toBe("2025-02-21")
+  })
+})
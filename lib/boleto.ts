@@ -0,0 +1,168 @@
+// ============================================
+// Boleto bancário
+// Vencimento em dias úteis, código de barras (44 dígitos), linha
+// digitável (47 dígitos) e codificação Interleaved 2 of 5 das barras.
+// Sem dependências do Node: usado também pela página de obrigado
+// ============================================
+
+// Horário de Brasília (sem horário de verão desde 2019)
+const BRT_OFFSET_MS = 3 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Pagamentos de boleto chegam ao gateway em até 3 dias úteis após o vencimento
+export const BOLETO_SETTLEMENT_BUSINESS_DAYS = 3
+
+/**
+ * Data (AAAA-MM-DD, horário de Brasília) após `days` dias úteis
+ * Sábados e domingos não contam; feriados não são considerados
+ */
+export function addBusinessDays(from: Date, days: number): string {
+  const date = new Date(from.getTime() - BRT_OFFSET_MS)
+  let remaining = days
+  while (remaining > 0) {
+    date.setUTCDate(date.getUTCDate() + 1)
+    const weekday = date.getUTCDay()
+    if (weekday !== 0 && weekday !== 6) remaining--
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Fim do dia (horário de Brasília) da data informada
+ */
+export function endOfBrazilianDay(date: string): Date {
+  return new Date(`${date}T23:59:59.999-03:00`)
+}
+
+/**
+ * Data AAAA-MM-DD no formato DD/MM/AAAA
+ */
+export function formatBoletoDueDate(dueDate: string): string {
+  return dueDate.split("-").reverse().join("/")
+}
+
+/**
+ * Vencimento do boleto emitido agora e o instante em que ele deixa de poder ser pago
+ */
+export function getBoletoDueDate(businessDays: number, from = new Date()): { dueDate: string; expiresAt: string } {
+  const dueDate = addBusinessDays(from, businessDays)
+  return { dueDate, expiresAt: endOfBrazilianDay(dueDate).toISOString() }
+}
+
+/**
+ * Prazo para a confirmação de um boleto pago até o vencimento
+ */
+export function getBoletoSettlementDeadline(expiresAt: string): Date {
+  return endOfBrazilianDay(addBusinessDays(new Date(expiresAt), BOLETO_SETTLEMENT_BUSINESS_DAYS))
+}
+
+// ============================================
+// Código de barras e linha digitável (padrão FEBRABAN)
+// ============================================
+
+const DUE_FACTOR_BASE = Date.UTC(1997, 9, 7)
+
+// Dias desde 07/10/1997; o fator voltou a 1000 em 22/02/2025 (ciclos de 9000 dias)
+export function getDueFactor(dueDate: string): string {
+  const days = Math.round((Date.parse(`${dueDate}T00:00:00Z`) - DUE_FACTOR_BASE) / DAY_MS)
+  return String(((days - 1000) % 9000) + 1000).padStart(4, "0")
+}
+
+// Dígito verificador de cada campo da linha digitável
+export function modulo10(digits: string): string {
+  let sum = 0
+  let weight = 2
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight
+    sum += product > 9 ? product - 9 : product
+    weight = weight === 2 ? 1 : 2
+  }
+  return String((10 - (sum % 10)) % 10)
+}
+
+// Dígito verificador geral do código de barras (0, 10 e 11 viram 1)
+export function modulo11(digits: string): string {
+  let sum = 0
+  let weight = 2
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight
+    weight = weight === 9 ? 2 : weight + 1
+  }
+  const digit = 11 - (sum % 11)
+  return digit === 0 || digit >= 10 ? "1" : String(digit)
+}
+
+/**
+ * Monta o código de barras: banco, moeda (9), DV, fator de vencimento,
+ * valor em centavos e campo livre (25 dígitos definidos pelo banco)
+ */
+export function buildBoletoBarcode(params: {
+  bankCode: string
+  amount: number
+  dueDate: string
+  freeField: string
+}): string {
+  const amount = String(Math.round(params.amount * 100)).padStart(10, "0")
+  const freeField = params.freeField.replace(/\D/g, "").padStart(25, "0").slice(-25)
+  const withoutDigit = `${params.bankCode}9${getDueFactor(params.dueDate)}${amount}${freeField}`
+  const digit = modulo11(withoutDigit)
+  return `${withoutDigit.slice(0, 4)}${digit}${withoutDigit.slice(4)}`
+}
+
+/**
+ * Linha digitável (47 dígitos) a partir do código de barras
+ */
+export function getDigitableLine(barcode: string): string {
+  const freeField = barcode.slice(19)
+  const field1 = `${barcode.slice(0, 4)}${freeField.slice(0, 5)}`
+  const field2 = freeField.slice(5, 15)
+  const field3 = freeField.slice(15, 25)
+  return (
+    `${field1}${modulo10(field1)}` +
+    `${field2}${modulo10(field2)}` +
+    `${field3}${modulo10(field3)}` +
+    `${barcode[4]}${barcode.slice(5, 19)}`
+  )
+}
+
+/**
+ * Linha digitável com a pontuação usada no boleto impresso
+ */
+export function formatDigitableLine(line: string): string {
+  const digits = line.replace(/\D/g, "")
+  if (digits.length !== 47) return line
+  return (
+    `${digits.slice(0, 5)}.${digits.slice(5, 10)} ` +
+    `${digits.slice(10, 15)}.${digits.slice(15, 21)} ` +
+    `${digits.slice(21, 26)}.${digits.slice(26, 32)} ` +
+    `${digits[32]} ${digits.slice(33)}`
+  )
+}
+
+// ============================================
+// Interleaved 2 of 5
+// ============================================
+
+// Barras largas (1) e estreitas (0) de cada dígito
+const ITF_PATTERNS = ["00110", "10001", "01001", "11000", "00101", "10100", "01100", "00011", "10010", "01010"]
+
+/**
+ * Larguras dos elementos do código, alternando barra e espaço (começa por barra),
+ * em múltiplos da barra estreita
+ */
+export function encodeInterleaved2of5(digits: string, wideRatio = 3): number[] {
+  const padded = digits.length % 2 === 0 ? digits : `0${digits}`
+  const width = (bit: string) => (bit === "1" ? wideRatio : 1)
+  const elements = [1, 1, 1, 1]
+
+  for (let i = 0; i < padded.length; i += 2) {
+    const bars = ITF_PATTERNS[Number(padded[i])]
+    const spaces = ITF_PATTERNS[Number(padded[i + 1])]
+    for (let j = 0; j < 5; j++) {
+      elements.push(width(bars[j]), width(spaces[j]))
+    }
+  }
+
+  elements.push(wideRatio, 1, 1)
+  return elements
+}
@@ -0,0 +1,124 @@
+import crypto from "crypto"
+import { NextResponse } from "next/server"
+import { getConfig } from "@/lib/config"
+import { getRateLimitStore } from "@/lib/rate-limit"
+import {
+  countLeadingZeroBits,
+  getProofOfWorkInput,
+  HONEYPOT_FIELD,
+  type CheckoutChallengeMode,
+  type CheckoutChallengeSolution,
+  type ProofOfWorkChallenge,
+} from "@/lib/checkout-challenge"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Proteção do checkout contra robôs (CHECKOUT_CHALLENGE)
+// Os desafios de prova de trabalho são assinados com HMAC e não ficam
+// guardados no servidor: o token carrega a validade e a dificuldade.
+// O honeypot também é conferido no modo "pow"
+// ============================================
+
+const log = createLogger("Bot Protection")
+
+const CHALLENGE_TTL_MS = 10 * 60 * 1000
+
+function signChallenge(expiresAt: number, id: string, difficulty: number): string {
+  return crypto
+    .createHmac("sha256", getConfig().checkoutChallenge.secret)
+    .update(`${expiresAt}.${id}.${difficulty}`)
+    .digest("hex")
+}
+
+/**
+ * Desafio entregue ao checkout antes de gerar o PIX
+ */
+export function issueCheckoutChallenge(): { mode: CheckoutChallengeMode; challenge?: ProofOfWorkChallenge } {
+  const { mode, powDifficulty } = getConfig().checkoutChallenge
+  if (mode !== "pow") return { mode }
+
+  const expiresAt = Date.now() + CHALLENGE_TTL_MS
+  const id = crypto.randomBytes(12).toString("hex")
+  return {
+    mode,
+    challenge: {
+      token: `${expiresAt}.${id}.${powDifficulty}.${signChallenge(expiresAt, id, powDifficulty)}`,
+      difficulty: powDifficulty,
+    },
+  }
+}
+
+async function verifyProofOfWork(
+  solution: CheckoutChallengeSolution,
+  idempotencyKey: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const { token, nonce } = solution
+  if (!token || !nonce) return { success: false, error: "prova de trabalho ausente" }
+
+  const [expiresAtValue, id, difficultyValue, signature] = token.split(".")
+  const expiresAt = Number(expiresAtValue)
+  const difficulty = Number(difficultyValue)
+  if (!id || !signature || !Number.isFinite(expiresAt) || !Number.isFinite(difficulty)) {
+    return { success: false, error: "token malformado" }
+  }
+
+  const expected = Buffer.from(signChallenge(expiresAt, id, difficulty))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { success: false, error: "assinatura inválida" }
+  }
+  if (expiresAt <= Date.now()) return { success: false, error: "desafio expirado" }
+  if (difficulty < getConfig().checkoutChallenge.powDifficulty) {
+    return { success: false, error: "dificuldade abaixo da configurada" }
+  }
+
+  const hash = crypto
+    .createHash("sha256")
+    .update(getProofOfWorkInput(token, idempotencyKey || "", nonce))
+    .digest()
+  if (countLeadingZeroBits(hash) < difficulty) return { success: false, error: "prova de trabalho inválida" }
+
+  // Com chave de idempotência, repetir a prova só devolve o mesmo pedido;
+  // sem ela, cada desafio vale para uma única requisição
+  if (!idempotencyKey) {
+    const { count } = await getRateLimitStore().increment(`pow:${id}`, CHALLENGE_TTL_MS)
+    if (count > 1) return { success: false, error: "desafio já utilizado" }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Confere o desafio enviado em POST /api/pix/create
+ */
+export async function verifyCheckoutChallenge(
+  value: unknown,
+  idempotencyKey: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const { mode } = getConfig().checkoutChallenge
+  if (mode === "none") return { success: true }
+
+  const solution = (value && typeof value === "object" ? value : {}) as CheckoutChallengeSolution
+  let result: { success: boolean; error?: string } = { success: true }
+
+  if (solution[HONEYPOT_FIELD]) {
+    result = { success: false, error: "honeypot preenchido" }
+  } else if (mode === "pow") {
+    result = await verifyProofOfWork(solution, idempotencyKey)
+  }
+
+  if (!result.success) {
+    log.warn("Desafio do checkout recusado", { mode, reason: result.error })
+  }
+  return result
+}
+
+export function challengeFailedResponse() {
+  return NextResponse.json(
+    {
+      error: "Não foi possível validar o seu pedido. Recarregue a página e tente novamente.",
+      code: "CHALLENGE_FAILED",
+    },
+    { status: 400 }
+  )
+}
@@ -0,0 +1,94 @@
+import type { CardBrand } from "@/lib/payment-provider"
+
+// ============================================
+// Campos hospedados do cartão
+// O gateway exibe número, validade e CVV em uma página própria, carregada em
+// um iframe no checkout. A conversa com o iframe é só por postMessage:
+// - iframe → checkout: { type: "state", complete, brand } a cada alteração
+// - checkout → iframe: { type: "tokenize", requestId } ao finalizar o pedido
+// - iframe → checkout: { type: "token", requestId, token, brand, lastDigits }
+//   ou { type: "error", requestId, error }
+// As mensagens só são aceitas da origem da página dos campos
+// ============================================
+
+export const CARD_FIELDS_MESSAGE_SOURCE = "cometa-card-fields"
+
+const CARD_TOKEN_TIMEOUT_MS = 20000
+
+export interface CardFieldsState {
+  // Todos os campos preenchidos e válidos
+  complete: boolean
+  brand: CardBrand
+}
+
+export interface CardTokenResult {
+  success: boolean
+  token?: string
+  brand?: CardBrand
+  lastDigits?: string
+  error?: string
+}
+
+type CardFieldsMessage =
+  | ({ type: "state" } & CardFieldsState)
+  | { type: "token"; requestId: string; token: string; brand: CardBrand; lastDigits: string }
+  | { type: "error"; requestId: string; error: string }
+
+function getOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin
+  } catch {
+    return null
+  }
+}
+
+function readMessage(event: MessageEvent, fieldsUrl: string): CardFieldsMessage | null {
+  if (event.origin !== getOrigin(fieldsUrl)) return null
+  const data = event.data
+  if (!data || typeof data !== "object" || data.source !== CARD_FIELDS_MESSAGE_SOURCE) return null
+  return data as CardFieldsMessage
+}
+
+/**
+ * Acompanha o preenchimento dos campos; devolve a função que encerra a escuta
+ */
+export function subscribeCardFieldsState(fieldsUrl: string, onState: (state: CardFieldsState) => void): () => void {
+  const listener = (event: MessageEvent) => {
+    const message = readMessage(event, fieldsUrl)
+    if (message?.type === "state") onState({ complete: !!message.complete, brand: message.brand || "unknown" })
+  }
+  window.addEventListener("message", listener)
+  return () => window.removeEventListener("message", listener)
+}
+
+/**
+ * Pede ao iframe o token de uso único do cartão digitado
+ */
+export function requestCardToken(frame: HTMLIFrameElement | null, fieldsUrl: string): Promise<CardTokenResult> {
+  const targetOrigin = getOrigin(fieldsUrl)
+  if (!frame?.contentWindow || !targetOrigin) {
+    return Promise.resolve({ success: false, error: "Pagamento no cartão indisponível no momento" })
+  }
+
+  const requestId = crypto.randomUUID()
+  return new Promise((resolve) => {
+    const finish = (result: CardTokenResult) => {
+      clearTimeout(timer)
+      window.removeEventListener("message", listener)
+      resolve(result)
+    }
+    const listener = (event: MessageEvent) => {
+      const message = readMessage(event, fieldsUrl)
+      if (!message || message.type === "state" || message.requestId !== requestId) return
+      finish(
+        message.type === "token"
+          ? { success: true, token: message.token, brand: message.brand, lastDigits: message.lastDigits }
+          : { success: false, error: message.error || "Não foi possível validar o cartão" }
+      )
+    }
+    const timer = setTimeout(() => finish({ success: false, error: "Não foi possível validar o cartão" }), CARD_TOKEN_TIMEOUT_MS)
+
+    window.addEventListener("message", listener)
+    frame.contentWindow!.postMessage({ source: CARD_FIELDS_MESSAGE_SOURCE, type: "tokenize", requestId }, targetOrigin)
+  })
+}
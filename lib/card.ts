@@ -0,0 +1,47 @@
+import type { CardBrand } from "@/lib/payment-provider"
+
+// ============================================
+// Cartão de crédito: bandeira e dígito verificador
+// Os dados do cartão são digitados nos campos hospedados do gateway
+// (lib/card-hosted-fields.ts) e nunca passam pela página da loja
+// ============================================
+
+export const CARD_BRAND_PATTERNS: [CardBrand, RegExp][] = [
+  // Elo e Hipercard antes de Visa/Mastercard: alguns BINs se sobrepõem
+  ["elo", /^(4011(78|79)|43(1274|8935)|45(1416|7393|763(1|2))|50(4175|6699|67[0-7][0-9]|9000)|627780|63(6297|6368)|650|6516|6550)/],
+  ["hipercard", /^(606282|3841)/],
+  ["amex", /^3[47]/],
+  ["visa", /^4/],
+  ["mastercard", /^(5[1-5]|2(2[2-9]|[3-6]\d|7[01]|720))/],
+]
+
+export const CARD_BRAND_LABELS: Record<CardBrand, string> = {
+  visa: "Visa",
+  mastercard: "Mastercard",
+  amex: "American Express",
+  elo: "Elo",
+  hipercard: "Hipercard",
+  unknown: "Cartão",
+}
+
+export function detectCardBrand(number: string): CardBrand {
+  const digits = number.replace(/\D/g, "")
+  return CARD_BRAND_PATTERNS.find(([, pattern]) => pattern.test(digits))?.[0] || "unknown"
+}
+
+// Algoritmo de Luhn (dígito verificador do número do cartão)
+export function isValidCardNumber(number: string): boolean {
+  const digits = number.replace(/\D/g, "")
+  if (digits.length < 13 || digits.length > 19) return false
+
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
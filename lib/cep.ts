@@ -0,0 +1,145 @@
+import { getCityRangeByCep, getStateByCep, getUncoveredRangeByCep } from "@/data/cep-ranges"
+import { normalizeText } from "@/lib/utils"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Resolução de CEP
+// Provedor local (faixas embarcadas); um provedor HTTP no estilo
+// ViaCEP pode ser adicionado implementando CepProvider
+// ============================================
+
+const log = createLogger("CEP")
+
+export interface CepAddress {
+  cep: string
+  street: string
+  neighborhood: string
+  city: string
+  state: string
+}
+
+export interface CepProvider {
+  name: string
+  lookup(cep: string): Promise<CepAddress | null>
+}
+
+export interface CepLookupResult {
+  success: boolean
+  address?: CepAddress
+  deliverable?: boolean
+  coverageMessage?: string
+  error?: string
+}
+
+function normalizeCep(cep: string): string {
+  return cep.replace(/\D/g, "")
+}
+
+/**
+ * Provedor baseado nas faixas de CEP embarcadas: resolve cidade e estado
+ * (logradouro e bairro ficam em branco para o cliente preencher)
+ */
+export function createLocalCepProvider(): CepProvider {
+  return {
+    name: "local",
+    async lookup(cep) {
+      const state = getStateByCep(cep)
+      if (!state) return null
+
+      const cityRange = getCityRangeByCep(cep)
+      return {
+        cep: normalizeCep(cep),
+        street: "",
+        neighborhood: "",
+        city: cityRange?.city || "",
+        state,
+      }
+    },
+  }
+}
+
+const providers: Record<string, () => CepProvider> = {
+  local: createLocalCepProvider,
+}
+
+let provider: CepProvider | null = null
+
+export function getCepProvider(): CepProvider {
+  if (!provider) {
+    const name = getConfig().cep.provider
+    const factory = providers[name] || providers.local
+    provider = factory()
+  }
+  return provider
+}
+
+/**
+ * Verifica se o CEP está dentro da área de entrega
+ */
+export function checkDeliveryCoverage(cep: string): { deliverable: boolean; message?: string } {
+  const uncovered = getUncoveredRangeByCep(cep)
+  if (uncovered) {
+    return { deliverable: false, message: `Ainda não entregamos nesta região (${uncovered.reason})` }
+  }
+  return { deliverable: true }
+}
+
+/**
+ * Resolve o endereço do CEP e informa a cobertura de entrega
+ */
+export async function resolveCep(cep: string): Promise<CepLookupResult> {
+  if (normalizeCep(cep).length !== 8) {
+    return { success: false, error: "CEP inválido" }
+  }
+
+  try {
+    const address = await getCepProvider().lookup(cep)
+    if (!address) {
+      return { success: false, error: "CEP não encontrado" }
+    }
+
+    const coverage = checkDeliveryCoverage(cep)
+    return {
+      success: true,
+      address,
+      deliverable: coverage.deliverable,
+      coverageMessage: coverage.message,
+    }
+  } catch (error) {
+    log.error("Erro ao consultar CEP", { error })
+    return { success: false, error: "Não foi possível consultar o CEP" }
+  }
+}
+
+/**
+ * Confere se cidade e estado informados correspondem ao CEP
+ * Retorna os erros por campo (vazio quando o endereço é consistente)
+ */
+export async function validateAddressAgainstCep(address: {
+  cep: string
+  city: string
+  state: string
+}): Promise<Record<string, string>> {
+  const errors: Record<string, string> = {}
+  const result = await resolveCep(address.cep)
+
+  if (!result.success || !result.address) {
+    errors.cep = result.error || "CEP inválido"
+    return errors
+  }
+
+  if (!result.deliverable) {
+    errors.cep = result.coverageMessage || "CEP fora da área de entrega"
+  }
+
+  if (address.state.trim().toUpperCase() !== result.address.state) {
+    errors.state = `O estado não corresponde ao CEP (esperado ${result.address.state})`
+  }
+
+  if (result.address.city && normalizeText(address.city) !== normalizeText(result.address.city)) {
+    errors.city = `A cidade não corresponde ao CEP (esperado ${result.address.city})`
+  }
+
+  return errors
+}
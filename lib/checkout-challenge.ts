@@ -0,0 +1,54 @@
+// ============================================
+// Desafio anti-robô do checkout (compartilhado entre cliente e servidor)
+// "honeypot": campo invisível que pessoas deixam vazio
+// "pow": prova de trabalho; o navegador procura um nonce cujo SHA-256
+// comece com `difficulty` bits zerados. A prova é atrelada à chave de
+// idempotência, então cada pedido novo exige uma nova prova
+// ============================================
+
+export type CheckoutChallengeMode = "none" | "honeypot" | "pow"
+
+// Nome do campo invisível do formulário
+export const HONEYPOT_FIELD = "website"
+
+export interface ProofOfWorkChallenge {
+  token: string
+  difficulty: number
+}
+
+// Enviado pelo checkout no campo "challenge" de POST /api/pix/create
+export interface CheckoutChallengeSolution {
+  website?: string
+  token?: string
+  nonce?: string
+}
+
+export function countLeadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8
+      continue
+    }
+    return bits + Math.clz32(byte) - 24
+  }
+  return bits
+}
+
+export function getProofOfWorkInput(token: string, idempotencyKey: string, nonce: string): string {
+  return `${token}:${idempotencyKey}:${nonce}`
+}
+
+/**
+ * Resolve a prova de trabalho no navegador (Web Crypto)
+ */
+export async function solveProofOfWork(challenge: ProofOfWorkChallenge, idempotencyKey: string): Promise<string> {
+  const encoder = new TextEncoder()
+  for (let nonce = 0; ; nonce++) {
+    const input = encoder.encode(getProofOfWorkInput(challenge.token, idempotencyKey, String(nonce)))
+    const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", input))
+    if (countLeadingZeroBits(hash) >= challenge.difficulty) {
+      return String(nonce)
+    }
+  }
+}
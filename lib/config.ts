@@ -0,0 +1,238 @@
+import path from "path"
+import { z } from "zod"
+
+// ============================================
+// Configuração do servidor
+// Todas as variáveis de ambiente são lidas e validadas aqui (na inicialização,
+// via instrumentation.ts); o restante do código usa apenas getConfig().
+// Somente no servidor: contém tokens e segredos
+// ============================================
+
+const optionalString = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => value || null)
+
+const flag = (defaultValue: boolean) =>
+  z
+    .enum(["true", "false", "1", "0"])
+    .optional()
+    .transform((value) => (value === undefined ? defaultValue : value === "true" || value === "1"))
+
+const positiveNumber = (defaultValue: number) =>
+  z.coerce.number().positive().optional().default(defaultValue)
+
+const envSchema = z
+  .object({
+    NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
+    NEXT_PUBLIC_SITE_URL: z.string().url().optional(),
+    VERCEL_URL: optionalString,
+    DATA_DIR: optionalString,
+    LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).optional(),
+    ADMIN_API_TOKEN: z.string().trim().min(24, "use pelo menos 24 caracteres").optional(),
+
+    PAYMENT_PROVIDER: z.enum(["trexpay", "simulator"]).default("trexpay"),
+    PAYMENT_GATEWAY_FEE_PERCENT: z.coerce.number().min(0).max(100).default(0),
+    PAYMENT_GATEWAY_FEE_FIXED: z.coerce.number().min(0).default(0),
+    PAYMENT_SIMULATOR_SECRET: optionalString,
+    PIX_EXPIRATION_MINUTES: positiveNumber(30),
+    BOLETO_EXPIRATION_BUSINESS_DAYS: z.coerce.number().int().min(1).max(30).default(3),
+    CARD_MAX_INSTALLMENTS: z.coerce.number().int().min(1).max(12).default(12),
+    CARD_INTEREST_FREE_INSTALLMENTS: z.coerce.number().int().min(1).max(12).default(3),
+    CARD_INSTALLMENT_INTEREST_PERCENT: z.coerce.number().min(0).max(20).default(2.99),
+    CARD_MIN_INSTALLMENT_AMOUNT: positiveNumber(5),
+
+    TREXPAY_TOKEN: optionalString,
+    TREXPAY_SECRET: optionalString,
+    TREXPAY_WEBHOOK_SECRET: optionalString,
+    TREXPAY_WEBHOOK_SECRET_PREVIOUS: optionalString,
+    TREXPAY_BOLETO_ENABLED: flag(false),
+
+    WEBHOOK_STRICT_SIGNATURE: z.enum(["true", "false", "1", "0"]).optional(),
+    WEBHOOK_REQUIRE_TIMESTAMP: flag(false),
+    WEBHOOK_TOLERANCE_SECONDS: positiveNumber(300),
+
+    UTMFY_ENABLED: flag(true),
+    UTMFY_API_TOKEN: optionalString,
+    UTMFY_API_URL: z.string().url().default("https://api.utmify.com.br/api-credentials/orders"),
+
+    META_PIXEL_ID: optionalString,
+    META_CAPI_ACCESS_TOKEN: optionalString,
+    META_CAPI_BASE_URL: z.string().url().default("https://graph.facebook.com"),
+    META_CAPI_API_VERSION: z.string().default("v21.0"),
+    META_CAPI_TEST_EVENT_CODE: optionalString,
+
+    GA4_MEASUREMENT_ID: optionalString,
+    GA4_API_SECRET: optionalString,
+    GA4_BASE_URL: z.string().url().default("https://www.google-analytics.com"),
+
+    ATTRIBUTION_STORE: z.enum(["file", "memory"]).default("file"),
+    ATTRIBUTION_TTL_HOURS: positiveNumber(7 * 24),
+
+    CEP_PROVIDER: z.enum(["local"]).default("local"),
+
+    RATE_LIMIT_ENABLED: flag(true),
+    RATE_LIMIT_STORE: z.enum(["memory", "file"]).default("memory"),
+    RATE_LIMIT_PIX_CREATE_PER_IP: z.coerce.number().int().positive().default(10),
+    RATE_LIMIT_PIX_CREATE_PER_CPF: z.coerce.number().int().positive().default(5),
+    RATE_LIMIT_PIX_STATUS_PER_IP: z.coerce.number().int().positive().default(60),
+    RATE_LIMIT_ADMIN_LOGIN_PER_IP: z.coerce.number().int().positive().default(5),
+    TRUSTED_PROXY_HOPS: z.coerce.number().int().min(0).max(10).default(1),
+
+    CHECKOUT_CHALLENGE: z.enum(["none", "honeypot", "pow"]).default("honeypot"),
+    CHECKOUT_CHALLENGE_SECRET: optionalString,
+    CHECKOUT_POW_DIFFICULTY: z.coerce.number().int().min(8).max(24).default(16),
+  })
+  .superRefine((env, ctx) => {
+    const requireVar = (key: keyof typeof env, reason: string) => {
+      if (!env[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `obrigatório ${reason}` })
+      }
+    }
+
+    if (env.PAYMENT_PROVIDER === "simulator") {
+      if (env.NODE_ENV === "production") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["PAYMENT_PROVIDER"],
+          message: "o simulador não pode ser usado em produção",
+        })
+      }
+      requireVar("PAYMENT_SIMULATOR_SECRET", "com PAYMENT_PROVIDER=simulator (assina os webhooks simulados)")
+    }
+    if (env.PAYMENT_PROVIDER === "trexpay") {
+      requireVar("TREXPAY_TOKEN", "com PAYMENT_PROVIDER=trexpay")
+      requireVar("TREXPAY_SECRET", "com PAYMENT_PROVIDER=trexpay")
+    }
+    if (env.UTMFY_ENABLED) {
+      requireVar("UTMFY_API_TOKEN", "com a UTMify ativa (use UTMFY_ENABLED=false para desativar)")
+    }
+    if (env.NODE_ENV === "production" && !env.VERCEL_URL) {
+      requireVar("NEXT_PUBLIC_SITE_URL", "em produção (URL de postback dos webhooks)")
+    }
+    if (!!env.META_PIXEL_ID !== !!env.META_CAPI_ACCESS_TOKEN) {
+      requireVar(env.META_PIXEL_ID ? "META_CAPI_ACCESS_TOKEN" : "META_PIXEL_ID", "para ativar a Meta CAPI")
+    }
+    if (!!env.GA4_MEASUREMENT_ID !== !!env.GA4_API_SECRET) {
+      requireVar(env.GA4_MEASUREMENT_ID ? "GA4_API_SECRET" : "GA4_MEASUREMENT_ID", "para ativar o GA4")
+    }
+    if (env.NODE_ENV === "production" && env.CHECKOUT_CHALLENGE === "pow") {
+      requireVar("CHECKOUT_CHALLENGE_SECRET", "com CHECKOUT_CHALLENGE=pow em produção")
+    }
+  })
+
+function buildConfig(env: z.infer<typeof envSchema>) {
+  const isProduction = env.NODE_ENV === "production"
+
+  return {
+    env: env.NODE_ENV,
+    isProduction,
+    // URL pública do site (postback dos webhooks, links)
+    siteUrl: env.VERCEL_URL
+      ? `https://${env.VERCEL_URL}`
+      : (env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000").replace(/\/$/, ""),
+    dataDir: env.DATA_DIR || path.join(process.cwd(), ".data"),
+    logLevel: env.LOG_LEVEL || (isProduction ? "info" : "debug"),
+    // Token da área administrativa (/api/admin/*); sem ele o acesso fica bloqueado
+    adminApiToken: env.ADMIN_API_TOKEN || null,
+    payments: {
+      provider: env.PAYMENT_PROVIDER,
+      gatewayFeePercent: env.PAYMENT_GATEWAY_FEE_PERCENT,
+      gatewayFeeFixed: env.PAYMENT_GATEWAY_FEE_FIXED,
+      simulatorSecret: env.PAYMENT_SIMULATOR_SECRET || null,
+      // Validade do PIX quando o gateway não informa o vencimento da cobrança
+      pixExpirationMinutes: env.PIX_EXPIRATION_MINUTES,
+      // Vencimento do boleto em dias úteis a partir da emissão
+      boletoExpirationBusinessDays: env.BOLETO_EXPIRATION_BUSINESS_DAYS,
+      // Tabela de parcelamento no cartão: parcelas sem juros, juros mensais (tabela Price) e parcela mínima
+      card: {
+        maxInstallments: env.CARD_MAX_INSTALLMENTS,
+        interestFreeInstallments: env.CARD_INTEREST_FREE_INSTALLMENTS,
+        monthlyInterestPercent: env.CARD_INSTALLMENT_INTEREST_PERCENT,
+        minInstallmentAmount: env.CARD_MIN_INSTALLMENT_AMOUNT,
+      },
+    },
+    trexpay: {
+      token: env.TREXPAY_TOKEN,
+      secret: env.TREXPAY_SECRET,
+      // Segredos aceitos na assinatura dos webhooks (atual e anterior, durante a rotação)
+      webhookSecrets: [env.TREXPAY_WEBHOOK_SECRET || env.TREXPAY_SECRET, env.TREXPAY_WEBHOOK_SECRET_PREVIOUS].filter(
+        (secret): secret is string => !!secret
+      ),
+      // Boleto só é oferecido depois de habilitado na conta TrexPay
+      boletoEnabled: env.TREXPAY_BOLETO_ENABLED,
+    },
+    webhooks: {
+      strictSignature: env.WEBHOOK_STRICT_SIGNATURE
+        ? env.WEBHOOK_STRICT_SIGNATURE === "true" || env.WEBHOOK_STRICT_SIGNATURE === "1"
+        : isProduction,
+      // Timestamp/nonce são opcionais: só entram na assinatura quando enviados
+      requireTimestamp: env.WEBHOOK_REQUIRE_TIMESTAMP,
+      toleranceSeconds: env.WEBHOOK_TOLERANCE_SECONDS,
+    },
+    utmify: {
+      enabled: env.UTMFY_ENABLED,
+      apiToken: env.UTMFY_API_TOKEN,
+      apiUrl: env.UTMFY_API_URL,
+    },
+    meta: {
+      pixelId: env.META_PIXEL_ID,
+      accessToken: env.META_CAPI_ACCESS_TOKEN,
+      baseUrl: env.META_CAPI_BASE_URL.replace(/\/$/, ""),
+      apiVersion: env.META_CAPI_API_VERSION,
+      testEventCode: env.META_CAPI_TEST_EVENT_CODE,
+    },
+    ga4: {
+      measurementId: env.GA4_MEASUREMENT_ID,
+      apiSecret: env.GA4_API_SECRET,
+      baseUrl: env.GA4_BASE_URL.replace(/\/$/, ""),
+    },
+    attribution: {
+      store: env.ATTRIBUTION_STORE,
+      ttlHours: env.ATTRIBUTION_TTL_HOURS,
+    },
+    cep: {
+      provider: env.CEP_PROVIDER,
+    },
+    rateLimit: {
+      enabled: env.RATE_LIMIT_ENABLED,
+      store: env.RATE_LIMIT_STORE,
+      // Tentativas permitidas por janela (janelas definidas em lib/rate-limit.ts)
+      pixCreatePerIp: env.RATE_LIMIT_PIX_CREATE_PER_IP,
+      pixCreatePerCpf: env.RATE_LIMIT_PIX_CREATE_PER_CPF,
+      pixStatusPerIp: env.RATE_LIMIT_PIX_STATUS_PER_IP,
+      adminLoginPerIp: env.RATE_LIMIT_ADMIN_LOGIN_PER_IP,
+      // Proxies à frente da aplicação que acrescentam o IP ao x-forwarded-for
+      trustedProxyHops: env.TRUSTED_PROXY_HOPS,
+    },
+    checkoutChallenge: {
+      mode: env.CHECKOUT_CHALLENGE,
+      secret: env.CHECKOUT_CHALLENGE_SECRET || "checkout-challenge-dev-secret",
+      // Bits zerados exigidos no hash da prova de trabalho
+      powDifficulty: env.CHECKOUT_POW_DIFFICULTY,
+    },
+  }
+}
+
+export type AppConfig = ReturnType<typeof buildConfig>
+
+let config: AppConfig | null = null
+
+/**
+ * Configuração validada; lança um erro listando todas as variáveis
+ * ausentes ou inválidas
+ */
+export function getConfig(): AppConfig {
+  if (!config) {
+    // Variáveis vazias (ex.: copiadas do .env.example) contam como ausentes
+    const env = Object.fromEntries(Object.entries(process.env).filter(([, value]) => value !== ""))
+    const result = envSchema.safeParse(env)
+    if (!result.success) {
+      const problems = result.error.issues.map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+      throw new Error(`[Config] Configuração inválida:\n${problems.join("\n")}`)
+    }
+    config = buildConfig(result.data)
+  }
+  return config
+}
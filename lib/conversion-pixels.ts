@@ -0,0 +1,84 @@
+import type { ConversionEventName } from "@/lib/conversion-sinks"
+
+// ============================================
+// Pixels do navegador (Meta Pixel e gtag do GA4)
+// Os mesmos eventos saem do servidor (lib/conversion-sinks.ts): o eventID do
+// pixel e o transaction_id do GA4 repetem os ids do evento server-side, e
+// cada plataforma descarta a cópia duplicada
+// ============================================
+
+declare global {
+  interface Window {
+    fbq?: (...args: unknown[]) => void
+    gtag?: (...args: unknown[]) => void
+  }
+}
+
+// Nomes de evento recomendados do GA4
+export const GA4_EVENT_NAMES: Record<ConversionEventName, string> = {
+  InitiateCheckout: "begin_checkout",
+  Purchase: "purchase",
+}
+
+export interface PixelConversion {
+  orderId: string
+  // Id devolvido pela API (conversionEventIds), igual ao do evento server-side
+  eventId: string
+  value: number
+}
+
+/**
+ * Script de carregamento do Meta Pixel (snippet oficial)
+ */
+export function buildMetaPixelScript(pixelId: string): string {
+  return `
+!function(f,b,e,v,n,t,s){if(f.fbq)return;n=f.fbq=function(){n.callMethod?
+n.callMethod.apply(n,arguments):n.queue.push(arguments)};if(!f._fbq)f._fbq=n;
+n.push=n;n.loaded=!0;n.version='2.0';n.queue=[];t=b.createElement(e);t.async=!0;
+t.src=v;s=b.getElementsByTagName(e)[0];s.parentNode.insertBefore(t,s)}(window,
+document,'script','https://connect.facebook.net/en_US/fbevents.js');
+fbq('init', ${JSON.stringify(pixelId)});
+fbq('track', 'PageView');
+`
+}
+
+/**
+ * Inicialização do gtag (o script gtag.js é carregado à parte)
+ */
+export function buildGa4TagScript(measurementId: string): string {
+  return `
+window.dataLayer = window.dataLayer || [];
+function gtag(){dataLayer.push(arguments);}
+gtag('js', new Date());
+gtag('config', ${JSON.stringify(measurementId)});
+`
+}
+
+/**
+ * Envia o evento aos pixels carregados, uma vez por eventId nesta sessão
+ * (a página de obrigado pode ser recarregada)
+ */
+export function trackPixelConversion(name: ConversionEventName, conversion: PixelConversion): void {
+  if (typeof window === "undefined") return
+
+  const storageKey = `cometa_pixel_${conversion.eventId}`
+  try {
+    if (sessionStorage.getItem(storageKey)) return
+    sessionStorage.setItem(storageKey, "1")
+  } catch {
+    // Sem sessionStorage: a deduplicação das plataformas ainda vale
+  }
+
+  window.fbq?.(
+    "track",
+    name,
+    { currency: "BRL", value: conversion.value, order_id: conversion.orderId },
+    { eventID: conversion.eventId }
+  )
+  window.gtag?.("event", GA4_EVENT_NAMES[name], {
+    transaction_id: conversion.orderId,
+    event_id: conversion.eventId,
+    currency: "BRL",
+    value: conversion.value,
+  })
+}
@@ -0,0 +1,197 @@
+import crypto from "crypto"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Servidor local para os sinks de conversão
+// Recebe os envios da Meta CAPI e do GA4 Measurement Protocol no lugar das
+// APIs reais (META_CAPI_BASE_URL / GA4_BASE_URL apontando para
+// /api/simulator/meta e /api/simulator/ga4), confere o formato do payload e
+// guarda o que chegou para inspeção
+// ============================================
+
+const log = createLogger("Conversion Simulator")
+
+export type SimulatedConversionSink = "meta_capi" | "ga4"
+
+export interface ReceivedConversion {
+  id: string
+  sink: SimulatedConversionSink
+  eventName: string
+  eventId: string | null
+  transactionId: string | null
+  receivedAt: string
+  validationMessages: string[]
+  payload: unknown
+}
+
+const receivedStore = createJsonFileStore<ReceivedConversion>("simulator-conversions.json")
+
+const SHA256_HEX = /^[a-f0-9]{64}$/
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isHashList(value: unknown): boolean {
+  return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "string" && SHA256_HEX.test(item))
+}
+
+// ============================================
+// Meta Conversions API
+// ============================================
+
+function validateMetaEvent(event: unknown, index: number): string[] {
+  const messages: string[] = []
+  const prefix = `data[${index}]`
+  if (!isRecord(event)) return [`${prefix}: evento inválido`]
+
+  if (typeof event.event_name !== "string") messages.push(`${prefix}.event_name ausente`)
+  if (typeof event.event_time !== "number") messages.push(`${prefix}.event_time deve ser um timestamp em segundos`)
+  if (typeof event.event_id !== "string" || !event.event_id) messages.push(`${prefix}.event_id ausente (deduplicação)`)
+  if (event.action_source !== "website") messages.push(`${prefix}.action_source deve ser "website"`)
+
+  const userData = event.user_data
+  if (!isRecord(userData)) {
+    messages.push(`${prefix}.user_data ausente`)
+  } else {
+    for (const key of ["em", "ph"]) {
+      if (userData[key] !== undefined && !isHashList(userData[key])) {
+        messages.push(`${prefix}.user_data.${key} deve conter hashes SHA-256`)
+      }
+    }
+  }
+
+  const customData = event.custom_data
+  if (!isRecord(customData) || customData.currency !== "BRL" || typeof customData.value !== "number") {
+    messages.push(`${prefix}.custom_data precisa de currency e value`)
+  }
+  return messages
+}
+
+/**
+ * POST /{versão}/{pixel}/events: resposta no formato da Graph API
+ */
+export async function receiveMetaCapiEvents(
+  body: unknown
+): Promise<{ success: boolean; eventsReceived: number; validationMessages: string[] }> {
+  if (!isRecord(body) || !Array.isArray(body.data) || body.data.length === 0) {
+    return { success: false, eventsReceived: 0, validationMessages: ["data deve ser uma lista de eventos"] }
+  }
+
+  const validationMessages = [
+    ...(typeof body.access_token === "string" && body.access_token ? [] : ["access_token ausente"]),
+    ...body.data.flatMap((event, index) => validateMetaEvent(event, index)),
+  ]
+
+  const events = body.data.filter(isRecord)
+  // O token não fica gravado
+  const payload = { ...body }
+  delete payload.access_token
+  await receivedStore.update((records) => {
+    for (const event of events) {
+      const customData = isRecord(event.custom_data) ? event.custom_data : {}
+      const record: ReceivedConversion = {
+        id: crypto.randomUUID(),
+        sink: "meta_capi",
+        eventName: String(event.event_name),
+        eventId: typeof event.event_id === "string" ? event.event_id : null,
+        transactionId: typeof customData.order_id === "string" ? customData.order_id : null,
+        receivedAt: new Date().toISOString(),
+        validationMessages,
+        payload,
+      }
+      records[record.id] = record
+    }
+  })
+
+  log.info("Eventos Meta CAPI recebidos", { events: events.length, invalid: validationMessages.length })
+  return { success: validationMessages.length === 0, eventsReceived: events.length, validationMessages }
+}
+
+// ============================================
+// GA4 Measurement Protocol
+// ============================================
+
+function validateGa4Payload(body: unknown): string[] {
+  if (!isRecord(body)) return ["Corpo da requisição inválido"]
+
+  const messages: string[] = []
+  if (typeof body.client_id !== "string" || !body.client_id) messages.push("client_id ausente")
+  if (!Array.isArray(body.events) || body.events.length === 0) return [...messages, "events deve ser uma lista"]
+
+  body.events.forEach((event, index) => {
+    const prefix = `events[${index}]`
+    if (!isRecord(event) || typeof event.name !== "string") {
+      messages.push(`${prefix}.name ausente`)
+      return
+    }
+    const params = isRecord(event.params) ? event.params : {}
+    if (event.name === "purchase" && typeof params.transaction_id !== "string") {
+      messages.push(`${prefix}.params.transaction_id é obrigatório em purchase`)
+    }
+    if (params.value !== undefined && params.currency !== "BRL") {
+      messages.push(`${prefix}.params.currency é obrigatório com value`)
+    }
+  })
+
+  const userData = body.user_data
+  if (isRecord(userData)) {
+    for (const key of ["sha256_email_address", "sha256_phone_number"]) {
+      if (userData[key] !== undefined && !isHashList(userData[key])) {
+        messages.push(`user_data.${key} deve conter hashes SHA-256`)
+      }
+    }
+  }
+  return messages
+}
+
+/**
+ * POST /mp/collect; com `debug` (/debug/mp/collect) só valida, sem registrar
+ */
+export async function receiveGa4Events(
+  body: unknown,
+  query: { measurementId: string | null; apiSecret: string | null; debug?: boolean }
+): Promise<{ validationMessages: string[] }> {
+  const validationMessages = [
+    ...(query.measurementId && query.apiSecret ? [] : ["measurement_id e api_secret são obrigatórios"]),
+    ...validateGa4Payload(body),
+  ]
+  if (query.debug || !isRecord(body) || !Array.isArray(body.events)) {
+    return { validationMessages }
+  }
+
+  const events = body.events.filter(isRecord)
+  await receivedStore.update((records) => {
+    for (const event of events) {
+      const params = isRecord(event.params) ? event.params : {}
+      const record: ReceivedConversion = {
+        id: crypto.randomUUID(),
+        sink: "ga4",
+        eventName: String(event.name),
+        eventId: typeof params.event_id === "string" ? params.event_id : null,
+        transactionId: typeof params.transaction_id === "string" ? params.transaction_id : null,
+        receivedAt: new Date().toISOString(),
+        validationMessages,
+        payload: body,
+      }
+      records[record.id] = record
+    }
+  })
+
+  log.info("Eventos GA4 recebidos", { events: events.length, invalid: validationMessages.length })
+  return { validationMessages }
+}
+
+/**
+ * Eventos recebidos, do mais recente para o mais antigo
+ */
+export async function listReceivedConversions(
+  filter: { sink?: SimulatedConversionSink; transactionId?: string } = {}
+): Promise<ReceivedConversion[]> {
+  const records = Object.values(await receivedStore.read())
+  return records
+    .filter((record) => !filter.sink || record.sink === filter.sink)
+    .filter((record) => !filter.transactionId || record.transactionId === filter.transactionId)
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))
+}
@@ -0,0 +1,166 @@
+import { createHash } from "crypto"
+import {
+  enqueueOutboxMessage,
+  registerOutboxDispatcher,
+  scheduleOutboxDispatch,
+  type OutboxDeliveryResult,
+} from "@/lib/outbox"
+import type { Order } from "@/lib/orders"
+import { createMetaCapiSink } from "@/lib/meta-capi"
+import { createGa4Sink } from "@/lib/ga4-measurement"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Eventos de conversão server-side (Meta CAPI, GA4 Measurement Protocol)
+// Cada destino é um "sink" que monta o próprio payload; o envio passa pelo
+// outbox, como os eventos da UTMify. Um sink só recebe eventos quando as
+// credenciais dele estão configuradas, e a URL base de cada um pode apontar
+// para um servidor local durante os testes
+// ============================================
+
+const log = createLogger("Conversions")
+
+export type ConversionEventName = "InitiateCheckout" | "Purchase"
+
+export type ConversionSinkName = "meta_capi" | "ga4"
+
+export interface ConversionEvent {
+  name: ConversionEventName
+  // Mesmo id usado pelos pixels do navegador, para deduplicação
+  eventId: string
+  eventTime: string
+  order: Order
+}
+
+export interface ConversionSink {
+  name: ConversionSinkName
+  isConfigured(): boolean
+  buildPayload(event: ConversionEvent): unknown
+  send(payload: unknown): Promise<OutboxDeliveryResult>
+}
+
+const sinks: Record<ConversionSinkName, () => ConversionSink> = {
+  meta_capi: createMetaCapiSink,
+  ga4: createGa4Sink,
+}
+
+const sinkInstances = Object.values(sinks).map((create) => create())
+
+for (const sink of sinkInstances) {
+  registerOutboxDispatcher(sink.name, (payload) => sink.send(payload))
+}
+
+/**
+ * Id determinístico do evento: o navegador consegue gerar o mesmo valor
+ * a partir do id do pedido (eventID do pixel)
+ */
+export function getConversionEventId(orderId: string, name: ConversionEventName): string {
+  return `${orderId}-${name}`
+}
+
+// ============================================
+// Dados do cliente (normalizados e com hash SHA-256)
+// ============================================
+
+export function hashUserData(value: string | null | undefined): string | null {
+  if (!value) return null
+  return createHash("sha256").update(value).digest("hex")
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Telefone com DDI 55, apenas dígitos
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "")
+  return digits.startsWith("55") && digits.length > 11 ? digits : `55${digits}`
+}
+
+// Minúsculas, sem acentos, espaços ou pontuação (ex.: "São Paulo" -> "saopaulo")
+export function normalizeName(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "")
+}
+
+export function splitCustomerName(name: string): { firstName: string; lastName: string } {
+  const parts = name.trim().split(/\s+/)
+  return { firstName: parts[0] || "", lastName: parts.length > 1 ? parts[parts.length - 1] : "" }
+}
+
+// ============================================
+// Envio
+// ============================================
+
+/**
+ * POST JSON para o destino; erros 4xx (exceto 429) indicam payload
+ * rejeitado e vão direto para dead-letter
+ */
+export async function postConversionPayload(
+  sinkName: ConversionSinkName,
+  url: string,
+  body: unknown
+): Promise<OutboxDeliveryResult> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    const responseText = await response.text()
+
+    if (!response.ok) {
+      log.error("Destino recusou o evento", { sink: sinkName, httpStatus: response.status, response: responseText })
+      return {
+        success: false,
+        error: `HTTP ${response.status}: ${responseText.substring(0, 500)}`,
+        retryable: response.status === 429 || response.status >= 500,
+      }
+    }
+
+    return { success: true }
+  } catch (error) {
+    log.error("Erro ao enviar evento", { sink: sinkName, error })
+    return { success: false, error: String(error), retryable: true }
+  }
+}
+
+/**
+ * Grava o evento do pedido no outbox de cada sink configurado
+ * (um único envio por pedido/evento em cada destino)
+ */
+export async function queueConversionEvent(
+  order: Order,
+  name: ConversionEventName,
+  eventTime: string = new Date().toISOString()
+): Promise<{ queued: ConversionSinkName[] }> {
+  const event: ConversionEvent = {
+    name,
+    eventId: getConversionEventId(order.id, name),
+    eventTime,
+    order,
+  }
+
+  const queued: ConversionSinkName[] = []
+  for (const sink of sinkInstances) {
+    if (!sink.isConfigured()) continue
+
+    const { message, created } = await enqueueOutboxMessage({
+      destination: sink.name,
+      dedupeKey: `${order.id}:${name}`,
+      payload: sink.buildPayload(event),
+    })
+    if (created) {
+      queued.push(sink.name)
+      log.info("Evento enfileirado", { messageId: message.id })
+    }
+  }
+
+  if (queued.length > 0) {
+    scheduleOutboxDispatch()
+  }
+  return { queued }
+}
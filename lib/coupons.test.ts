@@ -0,0 +1,125 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterAll, beforeEach, describe, expect, it } from "vitest"
+import { evaluateCoupon, releaseCouponUsage, reserveCouponUsage } from "@/lib/coupons"
+
+// Cada execução grava os usos dos cupons em um diretório temporário
+const dataDir = mkdtempSync(path.join(tmpdir(), "coupons-test-"))
+process.env.DATA_DIR = dataDir
+
+const usagePath = path.join(dataDir, "coupon-usage.json")
+const now = new Date("2026-10-19T12:00:00-03:00")
+
+// Catálogo: 10 e 12 (cadernos/mochilas), 11 (lápis e canetas),
+// 14 (kit escolar) e 33 (kit escolar em promoção)
+const item = (productId: string, unitPrice: number, quantity = 1) => ({ productId, unitPrice, quantity })
+
+beforeEach(() => {
+  writeFileSync(usagePath, "{}")
+})
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe("evaluateCoupon", () => {
+  it("recusa código inexistente", async () => {
+    const result = await evaluateCoupon({ code: "NAOEXISTE", items: [item("10", 59.9)], now })
+    expect(result).toEqual({ success: false, error: "Cupom inválido ou expirado" })
+  })
+
+  it("aplica o percentual só nos itens elegíveis", async () => {
+    const result = await evaluateCoupon({
+      code: "ESCOLA20",
+      items: [item("10", 59.9), item("12", 39.9), item("11", 49.9)],
+      now,
+    })
+    expect(result.success).toBe(true)
+    // 20% de R$ 99,80 (cadernos + mochilas); lápis e canetas ficam de fora
+    expect(result.coupon?.discount).toBe(19.96)
+  })
+
+  it("confere o mínimo com os itens elegíveis, não com o carrinho inteiro", async () => {
+    // Carrinho de R$ 109,80, mas só R$ 59,90 em produtos participantes
+    const result = await evaluateCoupon({ code: "ESCOLA20", items: [item("10", 59.9), item("11", 49.9)], now })
+    expect(result).toEqual({ success: false, error: "Este cupom exige R$ 79,90 em produtos participantes" })
+  })
+
+  it("aceita o carrinho exatamente no mínimo", async () => {
+    const result = await evaluateCoupon({ code: "FRETEGRATIS", items: [item("10", 59.9)], now })
+    expect(result.success).toBe(true)
+    expect(result.coupon).toMatchObject({ discount: 0, freeShipping: true })
+  })
+
+  it("recusa um centavo abaixo do mínimo", async () => {
+    const result = await evaluateCoupon({ code: "FRETEGRATIS", items: [item("10", 59.89)], now })
+    expect(result).toEqual({ success: false, error: "Este cupom exige compras a partir de R$ 59,90" })
+  })
+
+  it("respeita a janela de validade", async () => {
+    const items = [item("10", 59.9)]
+    const early = await evaluateCoupon({ code: "FRETEGRATIS", items, now: new Date("2026-09-30T23:59:59-03:00") })
+    const late = await evaluateCoupon({ code: "FRETEGRATIS", items, now: new Date("2027-03-01T00:00:00-03:00") })
+
+    expect(early).toEqual({ success: false, error: "Este cupom ainda não está válido" })
+    expect(late).toEqual({ success: false, error: "Cupom inválido ou expirado" })
+  })
+
+  it("recusa carrinho sem produtos elegíveis", async () => {
+    const result = await evaluateCoupon({ code: "ESCOLA20", items: [item("11", 49.9, 2)], now })
+    expect(result).toEqual({ success: false, error: "Nenhum produto do carrinho é elegível para este cupom" })
+  })
+
+  it("aplica o desconto fixo em itens em promoção quando o cupom acumula", async () => {
+    // KIT15 acumula com promoção: o kit 33 conta para o mínimo e para o desconto
+    const result = await evaluateCoupon({ code: "KIT15", items: [item("33", 79.9), item("14", 39.9)], now })
+    expect(result.success).toBe(true)
+    expect(result.coupon?.discount).toBe(15)
+  })
+
+  it("recusa cupom que atingiu o limite total", async () => {
+    writeFileSync(usagePath, JSON.stringify({ KIT15: { total: 500, byCpf: {} } }))
+    const result = await evaluateCoupon({ code: "KIT15", items: [item("33", 79.9), item("14", 39.9)], now })
+    expect(result).toEqual({ success: false, error: "Este cupom atingiu o limite de utilizações" })
+  })
+})
+
+describe("limite por CPF", () => {
+  const items = [item("10", 59.9)]
+
+  it("recusa o CPF que já usou o cupom e libera outros CPFs", async () => {
+    await reserveCouponUsage("PRIMEIRACOMPRA", "529.982.247-25", "order-1")
+
+    const sameCpf = await evaluateCoupon({ code: "PRIMEIRACOMPRA", items, cpf: "52998224725", now })
+    const otherCpf = await evaluateCoupon({ code: "PRIMEIRACOMPRA", items, cpf: "111.444.777-35", now })
+    const withoutCpf = await evaluateCoupon({ code: "PRIMEIRACOMPRA", items, now })
+
+    expect(sameCpf).toEqual({ success: false, error: "Este cupom já foi utilizado por este CPF" })
+    expect(otherCpf.success).toBe(true)
+    expect(withoutCpf.success).toBe(true)
+  })
+
+  it("reserva uma vez por pedido e barra um segundo pedido do mesmo CPF", async () => {
+    expect(await reserveCouponUsage("PRIMEIRACOMPRA", "529.982.247-25", "order-1")).toEqual({ success: true })
+    expect(await reserveCouponUsage("PRIMEIRACOMPRA", "529.982.247-25", "order-1")).toEqual({ success: true })
+    expect(await reserveCouponUsage("PRIMEIRACOMPRA", "529.982.247-25", "order-2")).toEqual({
+      success: false,
+      error: "Este cupom já foi utilizado por este CPF",
+    })
+  })
+
+  it("devolve a utilização quando o pedido não é pago", async () => {
+    await reserveCouponUsage("PRIMEIRACOMPRA", "529.982.247-25", "order-1")
+    await releaseCouponUsage("PRIMEIRACOMPRA", "order-1")
+
+    const result = await evaluateCoupon({ code: "PRIMEIRACOMPRA", items, cpf: "529.982.247-25", now })
+    expect(result.success).toBe(true)
+  })
+
+  it("conta o pagamento confirmado mesmo acima do limite", async () => {
+    await reserveCouponUsage("PRIMEIRACOMPRA", "529.982.247-25", "order-1")
+    const result = await reserveCouponUsage("PRIMEIRACOMPRA", "529.982.247-25", "order-2", { enforceLimits: false })
+    expect(result).toEqual({ success: true })
+  })
+})
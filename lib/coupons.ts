@@ -0,0 +1,209 @@
+import type { AppliedCoupon, Coupon } from "@/types"
+import { getCouponByCode } from "@/data/coupons"
+import { getProductById } from "@/data/products"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import type { Order } from "@/lib/orders"
+import { toCents } from "@/lib/pricing"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Cupons de desconto
+// Regras avaliadas sempre no servidor
+// ============================================
+
+const log = createLogger("Coupons")
+
+interface CouponUsage {
+  total: number
+  byCpf: Record<string, number>
+  // Pedidos que ocupam uma utilização (orderId → CPF): reservada na criação do
+  // pedido, liberada se ele vence ou é cancelado sem pagamento
+  orders?: Record<string, string>
+}
+
+const usageStore = createJsonFileStore<CouponUsage>("coupon-usage.json")
+
+export interface CouponCartItem {
+  productId: string
+  unitPrice: number
+  quantity: number
+}
+
+function normalizeCpf(cpf: string): string {
+  return cpf.replace(/\D/g, "")
+}
+
+/**
+ * Itens que podem receber o desconto, respeitando restrições de
+ * categoria/produto e a regra de não acumular com promoções
+ */
+function getEligibleItems(coupon: Coupon, items: CouponCartItem[]): CouponCartItem[] {
+  return items.filter((item) => {
+    const product = getProductById(item.productId)
+    if (!product) return false
+
+    if (coupon.productIds && !coupon.productIds.includes(product.id)) return false
+    if (coupon.categorySlugs && !coupon.categorySlugs.includes(product.categorySlug)) return false
+    if (!coupon.stackable && product.isOnSale) return false
+
+    return true
+  })
+}
+
+/**
+ * Valida um cupom para o carrinho informado e calcula o desconto em reais
+ */
+export async function evaluateCoupon(params: {
+  code: string
+  items: CouponCartItem[]
+  cpf?: string | null
+  now?: Date
+}): Promise<{ success: boolean; coupon?: AppliedCoupon; type?: Coupon["type"]; error?: string }> {
+  const coupon = getCouponByCode(params.code)
+  const now = params.now || new Date()
+
+  if (!coupon) {
+    return { success: false, error: "Cupom inválido ou expirado" }
+  }
+
+  if (coupon.startsAt && now < new Date(coupon.startsAt)) {
+    return { success: false, error: "Este cupom ainda não está válido" }
+  }
+  if (coupon.endsAt && now > new Date(coupon.endsAt)) {
+    return { success: false, error: "Cupom inválido ou expirado" }
+  }
+
+  // O mínimo vale para os itens que recebem o cupom: produtos de outras
+  // categorias ou já em promoção não contam para atingi-lo
+  const eligibleItems = getEligibleItems(coupon, params.items)
+  if (coupon.type !== "free_shipping" && eligibleItems.length === 0) {
+    return { success: false, error: "Nenhum produto do carrinho é elegível para este cupom" }
+  }
+  const eligibleCents = eligibleItems.reduce((sum, item) => sum + toCents(item.unitPrice) * item.quantity, 0)
+  if (coupon.minSubtotal && eligibleCents < toCents(coupon.minSubtotal)) {
+    const minimum = `R$ ${coupon.minSubtotal.toFixed(2).replace(".", ",")}`
+    const isRestricted = coupon.productIds || coupon.categorySlugs || !coupon.stackable
+    return {
+      success: false,
+      error: isRestricted
+        ? `Este cupom exige ${minimum} em produtos participantes`
+        : `Este cupom exige compras a partir de ${minimum}`,
+    }
+  }
+
+  // Conferência antecipada para o checkout; a reserva na criação do pedido é a que vale
+  if (coupon.maxUses || coupon.maxUsesPerCpf) {
+    const usage = (await usageStore.read())[coupon.code]
+    const error = getUsageLimitError(coupon, usage, params.cpf || "")
+    if (error) {
+      return { success: false, error }
+    }
+  }
+
+  let discountCents = 0
+  if (coupon.type === "percentage") {
+    discountCents = Math.round((eligibleCents * coupon.value) / 100)
+  } else if (coupon.type === "fixed") {
+    discountCents = Math.min(toCents(coupon.value), eligibleCents)
+  }
+
+  return {
+    success: true,
+    type: coupon.type,
+    coupon: {
+      code: coupon.code,
+      description: coupon.description,
+      discount: discountCents / 100,
+      freeShipping: coupon.type === "free_shipping",
+    },
+  }
+}
+
+function getUsageLimitError(coupon: Coupon, usage: CouponUsage | undefined, cpf: string): string | null {
+  if (coupon.maxUses && usage && usage.total >= coupon.maxUses) {
+    return "Este cupom atingiu o limite de utilizações"
+  }
+  if (coupon.maxUsesPerCpf && cpf) {
+    const usedByCpf = usage?.byCpf[normalizeCpf(cpf)] || 0
+    if (usedByCpf >= coupon.maxUsesPerCpf) {
+      return "Este cupom já foi utilizado por este CPF"
+    }
+  }
+  return null
+}
+
+/**
+ * Reserva uma utilização do cupom para o pedido. A verificação dos limites e
+ * a contagem acontecem na mesma gravação: checkouts simultâneos não passam do limite.
+ * Com `enforceLimits: false` (pagamento já confirmado) a utilização conta mesmo acima do limite
+ */
+export async function reserveCouponUsage(
+  code: string,
+  cpf: string,
+  orderId: string,
+  options: { enforceLimits?: boolean } = {}
+): Promise<{ success: boolean; error?: string }> {
+  const coupon = getCouponByCode(code)
+  if (!coupon || (!coupon.maxUses && !coupon.maxUsesPerCpf)) return { success: true }
+
+  const document = normalizeCpf(cpf)
+  const result = await usageStore.update<{ success: boolean; reserved: boolean; error?: string }>((records) => {
+    const usage = records[coupon.code] || { total: 0, byCpf: {} }
+    const orders = usage.orders || {}
+    if (orders[orderId]) return { success: true, reserved: false }
+
+    const error = options.enforceLimits === false ? null : getUsageLimitError(coupon, usage, document)
+    if (error) return { success: false, error, reserved: false }
+
+    usage.total += 1
+    usage.byCpf[document] = (usage.byCpf[document] || 0) + 1
+    usage.orders = { ...orders, [orderId]: document }
+    records[coupon.code] = usage
+    return { success: true, reserved: true }
+  })
+
+  if (result.reserved) {
+    log.info("Utilização reservada", { coupon: coupon.code, orderId })
+  } else if (!result.success) {
+    log.warn("Limite do cupom atingido", { coupon: coupon.code, orderId })
+  }
+  return { success: result.success, error: result.error }
+}
+
+/**
+ * Devolve a utilização reservada pelo pedido (vencido, cancelado ou recusado)
+ */
+export async function releaseCouponUsage(code: string, orderId: string): Promise<void> {
+  const coupon = getCouponByCode(code)
+  if (!coupon) return
+
+  const released = await usageStore.update((records) => {
+    const usage = records[coupon.code]
+    const document = usage?.orders?.[orderId]
+    if (!usage?.orders || document === undefined) return false
+
+    usage.total = Math.max(0, usage.total - 1)
+    usage.byCpf[document] = Math.max(0, (usage.byCpf[document] || 0) - 1)
+    delete usage.orders[orderId]
+    return true
+  })
+
+  if (released) {
+    log.info("Utilização liberada", { coupon: coupon.code, orderId })
+  }
+}
+
+/**
+ * Acompanha o status do pedido: pago ocupa a utilização em definitivo;
+ * encerrado sem pagamento libera a reserva
+ */
+export async function syncCouponUsage(order: Order): Promise<void> {
+  if (!order.coupon) return
+
+  if (order.status === "paid") {
+    // Pagamento depois do vencimento: a reserva pode ter sido liberada
+    await reserveCouponUsage(order.coupon, order.customer.cpf, order.id, { enforceLimits: false })
+  } else if (order.status === "expired" || order.status === "cancelled" || order.status === "refused") {
+    await releaseCouponUsage(order.coupon, order.id)
+  }
+}
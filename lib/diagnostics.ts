@@ -0,0 +1,228 @@
+import { getConfig } from "@/lib/config"
+import { getPixStatus } from "@/lib/trexpay"
+import { formatUtmfyDate, sendOrderToUtmfy, type UtmfyOrderRequest } from "@/lib/utmfy"
+import { createMetaCapiSink, type MetaCapiPayload } from "@/lib/meta-capi"
+import { validateGa4Payload } from "@/lib/ga4-measurement"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Diagnóstico das integrações (área administrativa)
+// As verificações só rodam sob demanda e nunca geram conversões reais:
+// UTMify recebe pedidos com isTest, a Meta só é testada com um
+// test_event_code e o GA4 usa o endpoint de validação
+// ============================================
+
+const log = createLogger("Diagnostics")
+
+export const DIAGNOSTIC_CHECKS = ["trexpay", "utmify", "meta_capi", "ga4"] as const
+
+export type DiagnosticCheckName = (typeof DIAGNOSTIC_CHECKS)[number]
+
+export interface DiagnosticCheckResult {
+  check: DiagnosticCheckName
+  success: boolean
+  skipped?: boolean
+  message: string
+  status?: number
+  details?: unknown
+  durationMs: number
+}
+
+/**
+ * Situação da configuração, sem expor valores e sem chamadas externas
+ */
+export function getDiagnosticsStatus() {
+  const config = getConfig()
+
+  return {
+    environment: config.env,
+    siteUrl: config.siteUrl,
+    webhooks: {
+      trexpay: `${config.siteUrl}/api/webhook/trexpay`,
+      strictSignature: config.webhooks.strictSignature,
+    },
+    payments: {
+      provider: config.payments.provider,
+      trexpayCredentials: !!config.trexpay.token && !!config.trexpay.secret,
+      webhookSecrets: config.trexpay.webhookSecrets.length,
+    },
+    integrations: {
+      utmify: { enabled: config.utmify.enabled, configured: !!config.utmify.apiToken },
+      metaCapi: { configured: !!config.meta.pixelId && !!config.meta.accessToken, testMode: !!config.meta.testEventCode },
+      ga4: { configured: !!config.ga4.measurementId && !!config.ga4.apiSecret },
+    },
+    availableChecks: DIAGNOSTIC_CHECKS,
+  }
+}
+
+function buildTestUtmfyOrder(): UtmfyOrderRequest {
+  const now = formatUtmfyDate(new Date())
+
+  return {
+    orderId: `DIAG-${Date.now()}`,
+    platform: "papelaria-site",
+    paymentMethod: "pix",
+    status: "waiting_payment",
+    createdAt: now || "",
+    approvedDate: null,
+    refundedAt: null,
+    customer: {
+      name: "Diagnostico Integracao",
+      email: "diagnostico@example.com",
+      phone: null,
+      document: null,
+      country: "BR",
+    },
+    products: [
+      {
+        id: "diagnostico",
+        name: "Produto Diagnostico",
+        planId: null,
+        planName: null,
+        quantity: 1,
+        priceInCents: 100,
+      },
+    ],
+    trackingParameters: {
+      src: null,
+      sck: null,
+      utm_source: null,
+      utm_campaign: null,
+      utm_medium: null,
+      utm_content: null,
+      utm_term: null,
+    },
+    commission: {
+      totalPriceInCents: 100,
+      gatewayFeeInCents: 0,
+      userCommissionInCents: 100,
+      currency: "BRL",
+    },
+    isTest: true,
+  }
+}
+
+type CheckOutcome = Omit<DiagnosticCheckResult, "check" | "durationMs">
+
+const checks: Record<DiagnosticCheckName, () => Promise<CheckOutcome>> = {
+  // Consulta de status de uma transação inexistente: só verifica se a API responde
+  async trexpay() {
+    const { token, secret } = getConfig().trexpay
+    if (!token || !secret) {
+      return { success: false, skipped: true, message: "TREXPAY_TOKEN/TREXPAY_SECRET não configurados" }
+    }
+    const result = await getPixStatus(`DIAG-${Date.now()}`)
+    const reachable = result.success || result.error !== "NETWORK_ERROR"
+    return {
+      success: reachable,
+      message: reachable ? "API da TrexPay acessível" : "Não foi possível conectar à TrexPay",
+      details: { error: result.error || null },
+    }
+  },
+
+  async utmify() {
+    if (!getConfig().utmify.apiToken) {
+      return { success: false, skipped: true, message: "UTMFY_API_TOKEN não configurado" }
+    }
+    const result = await sendOrderToUtmfy(buildTestUtmfyOrder())
+    return {
+      success: result.success,
+      status: result.status,
+      message: result.success ? "Pedido de teste (isTest) aceito pela UTMify" : "UTMify recusou o pedido de teste",
+      details: result.success ? undefined : result.error,
+    }
+  },
+
+  async meta_capi() {
+    const { pixelId, accessToken, testEventCode } = getConfig().meta
+    if (!pixelId || !accessToken) {
+      return { success: false, skipped: true, message: "Meta CAPI não configurada" }
+    }
+    if (!testEventCode) {
+      return {
+        success: false,
+        skipped: true,
+        message: "Defina META_CAPI_TEST_EVENT_CODE para testar sem registrar conversões reais",
+      }
+    }
+
+    const payload: MetaCapiPayload = {
+      data: [
+        {
+          event_name: "PageView",
+          event_time: Math.floor(Date.now() / 1000),
+          event_id: `DIAG-${Date.now()}`,
+          action_source: "website",
+          event_source_url: getConfig().siteUrl,
+          user_data: { external_id: ["diagnostico"] },
+          custom_data: {
+            currency: "BRL",
+            value: 0,
+            order_id: "diagnostico",
+            content_type: "product",
+            content_ids: [],
+            contents: [],
+          },
+        },
+      ],
+      test_event_code: testEventCode,
+    }
+    const result = await createMetaCapiSink().send(payload)
+    return {
+      success: result.success,
+      message: result.success ? "Evento de teste aceito pela Meta" : "Meta recusou o evento de teste",
+      details: result.error,
+    }
+  },
+
+  async ga4() {
+    const { measurementId, apiSecret } = getConfig().ga4
+    if (!measurementId || !apiSecret) {
+      return { success: false, skipped: true, message: "GA4 Measurement Protocol não configurado" }
+    }
+    const result = await validateGa4Payload({
+      client_id: "diagnostico",
+      timestamp_micros: Date.now() * 1000,
+      events: [{ name: "page_view", params: { debug_mode: true } }],
+    })
+    return {
+      success: result.success,
+      status: result.status,
+      message: result.success
+        ? "Payload validado pelo GA4"
+        : result.error
+          ? "Não foi possível conectar ao GA4"
+          : "GA4 apontou problemas no payload de teste",
+      details: result.error || result.validationMessages,
+    }
+  },
+}
+
+/**
+ * Executa as verificações pedidas (todas, se nenhuma for informada)
+ */
+export async function runDiagnosticChecks(
+  names: DiagnosticCheckName[] = [...DIAGNOSTIC_CHECKS]
+): Promise<DiagnosticCheckResult[]> {
+  const results: DiagnosticCheckResult[] = []
+
+  for (const check of names) {
+    const startedAt = Date.now()
+    try {
+      const outcome = await checks[check]()
+      results.push({ check, ...outcome, durationMs: Date.now() - startedAt })
+    } catch (error) {
+      results.push({
+        check,
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      })
+    }
+  }
+
+  log.info("Verificações executadas", {
+    results: results.map((result) => ({ check: result.check, success: result.success, skipped: !!result.skipped })),
+  })
+  return results
+}
@@ -0,0 +1,113 @@
+// GA4 Measurement Protocol
+// Docs: https://developers.google.com/analytics/devguides/collection/protocol/ga4
+
+import {
+  hashUserData,
+  normalizeEmail,
+  normalizePhone,
+  postConversionPayload,
+  type ConversionEvent,
+  type ConversionSink,
+} from "@/lib/conversion-sinks"
+import { GA4_EVENT_NAMES } from "@/lib/conversion-pixels"
+import { getConfig } from "@/lib/config"
+
+export interface Ga4Payload {
+  client_id: string
+  timestamp_micros: number
+  user_data?: {
+    sha256_email_address?: string[]
+    sha256_phone_number?: string[]
+  }
+  events: {
+    name: string
+    params: Record<string, unknown>
+  }[]
+}
+
+export function buildGa4Payload(event: ConversionEvent): Ga4Payload {
+  const { order } = event
+  const tracking = order.trackingParams
+  const email = hashUserData(normalizeEmail(order.customer.email))
+  // GA4 espera o telefone no formato E.164 (+55...)
+  const phone = hashUserData(`+${normalizePhone(order.customer.phone)}`)
+
+  const params: Record<string, unknown> = {
+    transaction_id: order.id,
+    event_id: event.eventId,
+    currency: "BRL",
+    value: order.totals.total,
+    shipping: order.totals.shipping,
+    items: order.items.map((item) => ({
+      item_id: item.productId,
+      item_name: item.name,
+      price: item.unitPrice,
+      quantity: item.quantity,
+    })),
+  }
+  if (order.coupon) params.coupon = order.coupon
+  if (tracking?.utm_source) params.campaign_source = tracking.utm_source
+  if (tracking?.utm_medium) params.campaign_medium = tracking.utm_medium
+  if (tracking?.utm_campaign) params.campaign_name = tracking.utm_campaign
+  if (tracking?.utm_content) params.campaign_content = tracking.utm_content
+  if (tracking?.utm_term) params.campaign_term = tracking.utm_term
+  const gclid = order.attribution?.lastTouch?.clickIds.gclid
+  if (gclid) params.gclid = gclid
+
+  return {
+    // Sem o cookie _ga, o próprio pedido identifica o cliente
+    client_id: order.client?.gaClientId || order.id,
+    timestamp_micros: new Date(event.eventTime).getTime() * 1000,
+    user_data: {
+      ...(email ? { sha256_email_address: [email] } : {}),
+      ...(phone ? { sha256_phone_number: [phone] } : {}),
+    },
+    events: [{ name: GA4_EVENT_NAMES[event.name], params }],
+  }
+}
+
+export function createGa4Sink(): ConversionSink {
+  return {
+    name: "ga4",
+    isConfigured() {
+      const { measurementId, apiSecret } = getConfig().ga4
+      return !!measurementId && !!apiSecret
+    },
+    buildPayload: buildGa4Payload,
+    async send(payload) {
+      const { measurementId, apiSecret, baseUrl } = getConfig().ga4
+      if (!measurementId || !apiSecret) {
+        return { success: false, error: "GA4 Measurement Protocol não configurado", retryable: true }
+      }
+      const url = `${baseUrl}/mp/collect?measurement_id=${encodeURIComponent(measurementId)}&api_secret=${encodeURIComponent(apiSecret)}`
+      return postConversionPayload("ga4", url, payload)
+    },
+  }
+}
+
+/**
+ * Valida um payload no endpoint de depuração do GA4 (/debug/mp/collect),
+ * que não registra o evento
+ */
+export async function validateGa4Payload(
+  payload: Ga4Payload
+): Promise<{ success: boolean; status?: number; validationMessages?: unknown[]; error?: string }> {
+  const { measurementId, apiSecret, baseUrl } = getConfig().ga4
+  if (!measurementId || !apiSecret) {
+    return { success: false, error: "GA4 Measurement Protocol não configurado" }
+  }
+
+  try {
+    const url = `${baseUrl}/debug/mp/collect?measurement_id=${encodeURIComponent(measurementId)}&api_secret=${encodeURIComponent(apiSecret)}`
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    })
+    const data = await response.json().catch(() => ({}))
+    const validationMessages: unknown[] = Array.isArray(data.validationMessages) ? data.validationMessages : []
+    return { success: response.ok && validationMessages.length === 0, status: response.status, validationMessages }
+  } catch (error) {
+    return { success: false, error: String(error) }
+  }
+}
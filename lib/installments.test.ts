@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { findInstallmentOption, getInstallmentOptions, type InstallmentPolicy } from "@/lib/installments"
+
+const policy: InstallmentPolicy = {
+  maxInstallments: 12,
+  interestFreeInstallments: 3,
+  monthlyInterestPercent: 2.99,
+  minInstallmentAmount: 5,
+}
+
+describe("getInstallmentOptions", () => {
+  it("mantém o valor do pedido nas parcelas sem juros", () => {
+    const options = getInstallmentOptions(200, policy)
+
+    expect(options[0]).toEqual({ installments: 1, installmentAmount: 200, total: 200, interest: 0, interestFree: true })
+    expect(options[2]).toEqual({
+      installments: 3,
+      installmentAmount: 66.67,
+      total: 200,
+      interest: 0,
+      interestFree: true,
+    })
+  })
+
+  it("aplica a tabela Price acima das parcelas sem juros", () => {
+    const options = getInstallmentOptions(200, policy)
+
+    expect(options).toHaveLength(12)
+    expect(options[3]).toEqual({
+      installments: 4,
+      installmentAmount: 53.79,
+      total: 215.16,
+      interest: 15.16,
+      interestFree: false,
+    })
+    expect(options[11]).toEqual({
+      installments: 12,
+      installmentAmount: 20.08,
+      total: 240.96,
+      interest: 40.96,
+      interestFree: false,
+    })
+  })
+
+  it("para no número de parcelas que ficaria abaixo da parcela mínima", () => {
+    const options = getInstallmentOptions(30, policy)
+
+    // 6x de R$ 5,54; 7x daria R$ 4,81
+    expect(options.map((option) => option.installments)).toEqual([1, 2, 3, 4, 5, 6])
+    expect(options[5].installmentAmount).toBe(5.54)
+  })
+
+  it("não cobra juros quando a taxa é zero", () => {
+    const options = getInstallmentOptions(120, { ...policy, monthlyInterestPercent: 0 })
+
+    expect(options).toHaveLength(12)
+    expect(options.every((option) => option.interestFree && option.total === 120)).toBe(true)
+    expect(options[11].installmentAmount).toBe(10)
+  })
+
+  it("não oferece parcelas para valor zerado", () => {
+    expect(getInstallmentOptions(0, policy)).toEqual([])
+  })
+})
+
+describe("findInstallmentOption", () => {
+  it("devolve a opção oferecida para o valor", () => {
+    expect(findInstallmentOption(200, 12, policy)?.total).toBe(240.96)
+  })
+
+  it("recusa parcelas que não são oferecidas", () => {
+    expect(findInstallmentOption(30, 7, policy)).toBeNull()
+    expect(findInstallmentOption(200, 13, policy)).toBeNull()
+  })
+})
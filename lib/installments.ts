@@ -0,0 +1,81 @@
+import { getConfig } from "@/lib/config"
+import { toCents } from "@/lib/pricing"
+
+// ============================================
+// Parcelamento no cartão de crédito
+// As primeiras parcelas são sem juros; acima delas, juros mensais pela
+// tabela Price. O número de parcelas é limitado pela parcela mínima
+// ============================================
+
+export interface InstallmentPolicy {
+  maxInstallments: number
+  interestFreeInstallments: number
+  monthlyInterestPercent: number
+  minInstallmentAmount: number
+}
+
+export interface InstallmentOption {
+  installments: number
+  installmentAmount: number
+  // Valor cobrado no cartão (pedido + juros)
+  total: number
+  interest: number
+  interestFree: boolean
+}
+
+function buildOption(amountInCents: number, installments: number, policy: InstallmentPolicy): InstallmentOption {
+  const rate = policy.monthlyInterestPercent / 100
+  const interestFree = installments <= policy.interestFreeInstallments || rate === 0
+
+  // Sem juros a parcela exibida é arredondada; o valor cobrado continua o do pedido
+  if (interestFree) {
+    return {
+      installments,
+      installmentAmount: Math.round(amountInCents / installments) / 100,
+      total: amountInCents / 100,
+      interest: 0,
+      interestFree: true,
+    }
+  }
+
+  // Tabela Price: PMT = PV * i / (1 - (1 + i)^-n)
+  const installmentInCents = Math.round((amountInCents * rate) / (1 - Math.pow(1 + rate, -installments)))
+  const totalInCents = installmentInCents * installments
+  return {
+    installments,
+    installmentAmount: installmentInCents / 100,
+    total: totalInCents / 100,
+    interest: (totalInCents - amountInCents) / 100,
+    interestFree: false,
+  }
+}
+
+/**
+ * Opções de parcelamento para o valor do pedido (à vista sempre disponível)
+ */
+export function getInstallmentOptions(
+  amount: number,
+  policy: InstallmentPolicy = getConfig().payments.card
+): InstallmentOption[] {
+  const amountInCents = toCents(amount)
+  if (amountInCents <= 0) return []
+
+  const options = [buildOption(amountInCents, 1, policy)]
+  for (let installments = 2; installments <= policy.maxInstallments; installments++) {
+    const option = buildOption(amountInCents, installments, policy)
+    if (option.installmentAmount < policy.minInstallmentAmount) break
+    options.push(option)
+  }
+  return options
+}
+
+/**
+ * Opção escolhida no checkout; null se o número de parcelas não é oferecido para o valor
+ */
+export function findInstallmentOption(
+  amount: number,
+  installments: number,
+  policy?: InstallmentPolicy
+): InstallmentOption | null {
+  return getInstallmentOptions(amount, policy).find((option) => option.installments === installments) || null
+}
@@ -0,0 +1,69 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { getConfig } from "@/lib/config"
+
+// ============================================
+// Armazenamento em arquivo JSON
+// Base dos repositórios locais (pedidos, eventos, etc.)
+// ============================================
+
+/**
+ * Diretório onde os dados persistidos são gravados
+ * Pode ser alterado com a variável DATA_DIR (ex.: /tmp em ambientes serverless)
+ */
+export function getDataDir(): string {
+  return getConfig().dataDir
+}
+
+export interface JsonFileStore<T> {
+  read(): Promise<Record<string, T>>
+  update<R>(mutator: (records: Record<string, T>) => R | Promise<R>): Promise<R>
+}
+
+/**
+ * Cria um armazenamento de registros indexados por chave em um arquivo JSON.
+ * As escritas são serializadas dentro do processo e gravadas de forma atômica
+ * (arquivo temporário + rename) para não corromper o arquivo em caso de falha.
+ */
+export function createJsonFileStore<T>(fileName: string): JsonFileStore<T> {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const getFilePath = () => path.join(getDataDir(), fileName)
+
+  async function load(): Promise<Record<string, T>> {
+    try {
+      const content = await fs.readFile(getFilePath(), "utf-8")
+      return JSON.parse(content) as Record<string, T>
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  async function save(records: Record<string, T>): Promise<void> {
+    const filePath = getFilePath()
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(tempPath, JSON.stringify(records, null, 2), "utf-8")
+    await fs.rename(tempPath, filePath)
+  }
+
+  return {
+    read() {
+      // Aguarda escritas pendentes para não ler um estado intermediário
+      return queue.then(load, load)
+    },
+    update<R>(mutator: (records: Record<string, T>) => R | Promise<R>): Promise<R> {
+      const run = queue.then(async () => {
+        const records = await load()
+        const result = await mutator(records)
+        await save(records)
+        return result
+      })
+      queue = run.catch(() => undefined)
+      return run
+    },
+  }
+}
@@ -0,0 +1,203 @@
+import { AsyncLocalStorage } from "async_hooks"
+import crypto from "crypto"
+import { getConfig } from "@/lib/config"
+
+// ============================================
+// Logger estruturado (uma linha JSON por evento)
+// Dados de clientes e credenciais são mascarados antes da escrita: por
+// nome do campo (cpf, email, token, ...) e por padrão no texto (CPF,
+// e-mail, telefone, código EMV do PIX). O correlation id da requisição
+// acompanha o pedido do checkout até o webhook
+// ============================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+const LEVEL_WEIGHT: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+export const CORRELATION_ID_HEADER = "x-correlation-id"
+
+// ============================================
+// Correlation id
+// ============================================
+
+const correlationStorage = new AsyncLocalStorage<{ correlationId: string }>()
+
+export function generateCorrelationId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * Correlation id enviado pelo checkout (header x-correlation-id) ou um novo
+ */
+export function getRequestCorrelationId(request: Request): string {
+  const received = request.headers.get(CORRELATION_ID_HEADER)?.trim()
+  return received && /^[\w-]{8,100}$/.test(received) ? received : generateCorrelationId()
+}
+
+/**
+ * Executa a função com o correlation id disponível para todos os logs dela
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationStorage.run({ correlationId }, fn)
+}
+
+export function getCorrelationId(): string | null {
+  return correlationStorage.getStore()?.correlationId || null
+}
+
+/**
+ * Executa o handler da rota com o correlation id da requisição e o
+ * devolve no header da resposta
+ */
+export async function withRequestCorrelation<T extends Response>(request: Request, handler: () => Promise<T>): Promise<T> {
+  const correlationId = getRequestCorrelationId(request)
+  const response = await runWithCorrelationId(correlationId, handler)
+  response.headers.set(CORRELATION_ID_HEADER, correlationId)
+  return response
+}
+
+// ============================================
+// Mascaramento
+// ============================================
+
+const SECRET_KEYS = /token|secret|password|authorization|signature|api[-_]?key|cookie/i
+const CPF_KEYS = /^(cpf|document|payerDocument|customerDocument)$/i
+const EMAIL_KEYS = /^(email|customerEmail|em)$/i
+const PHONE_KEYS = /^(phone|customerPhone|ph)$/i
+const EMV_KEYS = /^(qrcode|qrCode|qr_code|qrCodeBase64|copiaECola|pixKey)$/i
+// Nomes de pessoas (o campo "name" só é mascarado dentro de dados do cliente)
+const PERSON_NAME_KEYS = /^(customerName|payerName|fn|ln)$/i
+const PERSON_CONTAINERS = /^(customer|payer|user)$/i
+
+function maskCpf(value: string): string {
+  const digits = value.replace(/\D/g, "")
+  return digits.length >= 2 ? `***.***.***-${digits.slice(-2)}` : "***"
+}
+
+function maskEmail(value: string): string {
+  const [user, domain] = value.split("@")
+  return domain ? `${user.charAt(0)}***@${domain}` : "***"
+}
+
+function maskPhone(value: string): string {
+  const digits = value.replace(/\D/g, "")
+  return digits.length >= 4 ? `(**) *****-${digits.slice(-4)}` : "***"
+}
+
+function maskName(value: string): string {
+  return value
+    .split(/\s+/)
+    .map((part) => (part ? `${part.charAt(0)}***` : part))
+    .join(" ")
+}
+
+/**
+ * Mascara dados sensíveis encontrados no meio de um texto
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(/000201\d{2}[\s\S]*?6304[0-9A-F]{4}/gi, "[EMV]")
+    .replace(/Bearer\s+[\w.~+/-]+=*/gi, "Bearer ***")
+    .replace(/([?&](?:access_token|api_secret|token|secret)=)[^&\s"]+/gi, "$1***")
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, (email) => maskEmail(email))
+    .replace(/\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g, (cpf) => maskCpf(cpf))
+    .replace(/\(?\b\d{2}\)?\s?9\d{4}-?\d{4}\b/g, (phone) => maskPhone(phone))
+}
+
+function redactByKey(key: string, value: string, parentKey: string | null): string {
+  if (SECRET_KEYS.test(key)) return "***"
+  if (CPF_KEYS.test(key)) return maskCpf(value)
+  if (EMAIL_KEYS.test(key)) return maskEmail(value)
+  if (PHONE_KEYS.test(key)) return maskPhone(value)
+  if (EMV_KEYS.test(key)) return value ? "[EMV]" : value
+  if (PERSON_NAME_KEYS.test(key) || (key === "name" && parentKey && PERSON_CONTAINERS.test(parentKey))) {
+    return maskName(value)
+  }
+  return redactText(value)
+}
+
+/**
+ * Cópia do valor com os dados sensíveis mascarados
+ */
+export function redact(value: unknown, key: string | null = null, parentKey: string | null = null, depth = 0): unknown {
+  if (value === null || value === undefined) return value
+  if (depth > 8) return "[...]"
+
+  if (typeof value === "string") {
+    return key ? redactByKey(key, value, parentKey) : redactText(value)
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return key && (CPF_KEYS.test(key) || PHONE_KEYS.test(key) || SECRET_KEYS.test(key)) ? "***" : value
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message), stack: value.stack ? redactText(value.stack) : undefined }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, key, parentKey, depth + 1))
+  }
+  if (typeof value === "object") {
+    const result: Record<string, unknown> = {}
+    for (const [childKey, childValue] of Object.entries(value as Record<string, unknown>)) {
+      result[childKey] = redact(childValue, childKey, key, depth + 1)
+    }
+    return result
+  }
+  return String(value)
+}
+
+// ============================================
+// Logger
+// ============================================
+
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void
+  info(message: string, fields?: Record<string, unknown>): void
+  warn(message: string, fields?: Record<string, unknown>): void
+  error(message: string, fields?: Record<string, unknown>): void
+  child(fields: Record<string, unknown>): Logger
+}
+
+function getMinimumLevel(): LogLevel {
+  try {
+    return getConfig().logLevel
+  } catch {
+    return "info"
+  }
+}
+
+function write(level: LogLevel, scope: string, message: string, fields: Record<string, unknown>): void {
+  if (LEVEL_WEIGHT[level] < LEVEL_WEIGHT[getMinimumLevel()]) return
+
+  const correlationId = getCorrelationId()
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    scope,
+    msg: redactText(message),
+    ...(correlationId ? { correlationId } : {}),
+    ...(redact(fields) as Record<string, unknown>),
+  }
+
+  const line = `${JSON.stringify(entry)}\n`
+  if (level === "error" || level === "warn") {
+    process.stderr.write(line)
+  } else {
+    process.stdout.write(line)
+  }
+}
+
+/**
+ * Cria um logger para um módulo ou rota (ex.: createLogger("PIX Create"))
+ */
+export function createLogger(scope: string, baseFields: Record<string, unknown> = {}): Logger {
+  const log = (level: LogLevel) => (message: string, fields: Record<string, unknown> = {}) =>
+    write(level, scope, message, { ...baseFields, ...fields })
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields) => createLogger(scope, { ...baseFields, ...fields }),
+  }
+}
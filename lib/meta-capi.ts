@@ -0,0 +1,126 @@
+// Meta Conversions API
+// Docs: https://developers.facebook.com/docs/marketing-api/conversions-api
+
+import {
+  hashUserData,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+  postConversionPayload,
+  splitCustomerName,
+  type ConversionEvent,
+  type ConversionSink,
+} from "@/lib/conversion-sinks"
+import type { Order } from "@/lib/orders"
+import { getConfig } from "@/lib/config"
+
+export interface MetaCapiEvent {
+  event_name: string
+  event_time: number
+  event_id: string
+  action_source: "website"
+  event_source_url?: string
+  user_data: Record<string, string | string[]>
+  custom_data: {
+    currency: "BRL"
+    value: number
+    order_id: string
+    content_type: "product"
+    content_ids: string[]
+    contents: { id: string; quantity: number; item_price: number }[]
+  }
+}
+
+export interface MetaCapiPayload {
+  data: MetaCapiEvent[]
+  test_event_code?: string
+}
+
+/**
+ * Valor do cookie _fbc: o do navegador ou, sem ele, montado a partir do fbclid capturado
+ */
+function getFbc(order: Order): string | null {
+  if (order.client?.fbc) return order.client.fbc
+  const touch = order.attribution?.lastTouch
+  const fbclid = touch?.clickIds.fbclid
+  return touch && fbclid ? `fb.1.${new Date(touch.timestamp).getTime()}.${fbclid}` : null
+}
+
+function buildUserData(order: Order): Record<string, string | string[]> {
+  const { firstName, lastName } = splitCustomerName(order.customer.name)
+  const hashed: Record<string, string | null> = {
+    em: hashUserData(normalizeEmail(order.customer.email)),
+    ph: hashUserData(normalizePhone(order.customer.phone)),
+    fn: hashUserData(normalizeName(firstName)),
+    ln: hashUserData(normalizeName(lastName)),
+    ct: hashUserData(normalizeName(order.address.city)),
+    st: hashUserData(order.address.state.toLowerCase()),
+    zp: hashUserData(order.address.cep.replace(/\D/g, "")),
+    country: hashUserData("br"),
+    external_id: hashUserData(order.customer.cpf.replace(/\D/g, "")),
+  }
+
+  const userData: Record<string, string | string[]> = {}
+  for (const [key, value] of Object.entries(hashed)) {
+    if (value) userData[key] = [value]
+  }
+
+  const fbc = getFbc(order)
+  if (fbc) userData.fbc = fbc
+  if (order.client?.fbp) userData.fbp = order.client.fbp
+  if (order.client?.ip) userData.client_ip_address = order.client.ip
+  if (order.client?.userAgent) userData.client_user_agent = order.client.userAgent
+
+  return userData
+}
+
+export function buildMetaCapiPayload(event: ConversionEvent): MetaCapiPayload {
+  const { order } = event
+  const { testEventCode } = getConfig().meta
+
+  return {
+    data: [
+      {
+        event_name: event.name,
+        event_time: Math.floor(new Date(event.eventTime).getTime() / 1000),
+        event_id: event.eventId,
+        action_source: "website",
+        event_source_url: order.attribution?.lastTouch?.landingPage || getConfig().siteUrl,
+        user_data: buildUserData(order),
+        custom_data: {
+          currency: "BRL",
+          value: order.totals.total,
+          order_id: order.id,
+          content_type: "product",
+          content_ids: order.items.map((item) => item.productId),
+          contents: order.items.map((item) => ({
+            id: item.productId,
+            quantity: item.quantity,
+            item_price: item.unitPrice,
+          })),
+        },
+      },
+    ],
+    ...(testEventCode ? { test_event_code: testEventCode } : {}),
+  }
+}
+
+export function createMetaCapiSink(): ConversionSink {
+  return {
+    name: "meta_capi",
+    isConfigured() {
+      const { pixelId, accessToken } = getConfig().meta
+      return !!pixelId && !!accessToken
+    },
+    buildPayload: buildMetaCapiPayload,
+    async send(payload) {
+      const { pixelId, accessToken, baseUrl, apiVersion } = getConfig().meta
+      if (!pixelId || !accessToken) {
+        return { success: false, error: "Meta CAPI não configurada", retryable: true }
+      }
+      // O token vai só na requisição (não fica gravado no outbox)
+      const url = `${baseUrl}/${apiVersion}/${pixelId}/events`
+      return postConversionPayload("meta_capi", url, { ...(payload as MetaCapiPayload), access_token: accessToken })
+    },
+  }
+}
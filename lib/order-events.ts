@@ -0,0 +1,30 @@
+import { EventEmitter } from "events"
+import type { Order } from "@/lib/orders"
+
+// ============================================
+// Eventos de pedido dentro do processo
+// transitionOrder publica cada mudança de status; o stream de status
+// (GET /api/pix/events) repassa ao navegador na hora. Outras instâncias
+// não recebem estes eventos: o stream também relê o pedido periodicamente
+// ============================================
+
+const emitter = new EventEmitter()
+// Cada checkout aberto assina o próprio pedido
+emitter.setMaxListeners(0)
+
+export type OrderUpdateListener = (order: Order) => void
+
+export function publishOrderUpdate(order: Order): void {
+  emitter.emit(`order:${order.id}`, order)
+}
+
+/**
+ * Assina as mudanças de um pedido; devolve a função para cancelar
+ */
+export function subscribeToOrder(orderId: string, listener: OrderUpdateListener): () => void {
+  const eventName = `order:${orderId}`
+  emitter.on(eventName, listener)
+  return () => {
+    emitter.off(eventName, listener)
+  }
+}
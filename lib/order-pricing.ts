@@ -0,0 +1,85 @@
+import type { AppliedCoupon, ShippingOption } from "@/types"
+import { getProductById } from "@/data/products"
+import { evaluateCoupon } from "@/lib/coupons"
+import { calculateBreakdown, type PriceBreakdown, type PricedItem } from "@/lib/pricing"
+import { quoteShipping } from "@/lib/shipping"
+
+// ============================================
+// Precificação do pedido no servidor
+// ============================================
+
+/**
+ * Recalcula o pedido a partir do catálogo, ignorando preços enviados pelo cliente
+ */
+export async function priceOrder(params: {
+  items: { id: string; quantity: number }[]
+  couponCode: string | null
+  shippingOptionId: string | null
+  cep: string
+  cpf?: string | null
+}): Promise<{
+  success: boolean
+  items?: PricedItem[]
+  shipping?: ShippingOption | null
+  coupon?: AppliedCoupon | null
+  breakdown?: PriceBreakdown
+  error?: string
+}> {
+  const pricedItems: PricedItem[] = []
+
+  for (const item of params.items) {
+    const product = getProductById(String(item.id))
+    const quantity = Math.floor(Number(item.quantity))
+
+    if (!product || !product.price || !product.inStock) {
+      return { success: false, error: `Produto indisponível: ${item.id}` }
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return { success: false, error: `Quantidade inválida para o produto: ${product.name}` }
+    }
+
+    pricedItems.push({
+      productId: product.id,
+      name: product.name,
+      unitPrice: product.price,
+      quantity,
+    })
+  }
+
+  let shipping: ShippingOption | null = null
+  if (params.shippingOptionId) {
+    const quote = quoteShipping({ cep: params.cep, items: params.items })
+    shipping = quote.options?.find((option) => option.id === params.shippingOptionId) || null
+    if (!shipping) {
+      return { success: false, error: quote.error || "Opção de frete indisponível para o CEP informado" }
+    }
+  }
+
+  let coupon: AppliedCoupon | null = null
+  if (params.couponCode) {
+    const evaluation = await evaluateCoupon({
+      code: params.couponCode,
+      items: pricedItems,
+      cpf: params.cpf,
+    })
+    if (!evaluation.success || !evaluation.coupon) {
+      return { success: false, error: evaluation.error || "Cupom inválido ou expirado" }
+    }
+    coupon = evaluation.coupon
+  }
+
+  const subtotal = pricedItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0)
+
+  return {
+    success: true,
+    items: pricedItems,
+    shipping,
+    coupon,
+    breakdown: calculateBreakdown({
+      subtotal,
+      discount: coupon?.discount || 0,
+      shippingPrice: shipping?.price || 0,
+      freeShipping: coupon?.freeShipping,
+    }),
+  }
+}
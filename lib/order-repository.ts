@@ -0,0 +1,114 @@
+import { createJsonFileStore } from "@/lib/json-file-store"
+import type { Order } from "@/lib/orders"
+
+// ============================================
+// Repositório de pedidos
+// ============================================
+
+export interface OrderRepository {
+  create(order: Order): Promise<Order>
+  /**
+   * Cria o pedido apenas se nenhum pedido existente satisfizer `match`
+   * (verificação e gravação atômicas); caso contrário devolve o existente
+   */
+  createUnlessExists(order: Order, match: (existing: Order) => boolean): Promise<{ order: Order; created: boolean }>
+  findById(orderId: string): Promise<Order | null>
+  findByTransactionId(transactionId: string): Promise<Order | null>
+  // Pedido mais recente criado com esta chave de idempotência
+  findByIdempotencyKey(idempotencyKey: string): Promise<Order | null>
+  // Pedido com o estorno cujo envio (PIX OUT) tem este id no gateway
+  findByRefundPayoutId(payoutId: string): Promise<Order | null>
+  // Pedido com o estorno de id `refundId` (external_id enviado ao gateway)
+  findByRefundId(refundId: string): Promise<Order | null>
+  update(orderId: string, mutator: (order: Order) => Order): Promise<Order | null>
+  list(): Promise<Order[]>
+}
+
+/**
+ * Implementação em arquivo JSON (um único arquivo com todos os pedidos)
+ */
+export function createFileOrderRepository(fileName = "orders.json"): OrderRepository {
+  const store = createJsonFileStore<Order>(fileName)
+
+  return {
+    async create(order) {
+      return store.update((records) => {
+        if (records[order.id]) {
+          throw new Error(`Pedido ${order.id} já existe`)
+        }
+        records[order.id] = order
+        return order
+      })
+    },
+
+    async createUnlessExists(order, match) {
+      return store.update((records) => {
+        const existing = Object.values(records).find(match)
+        if (existing) {
+          return { order: existing, created: false }
+        }
+        records[order.id] = order
+        return { order, created: true }
+      })
+    },
+
+    async findById(orderId) {
+      const records = await store.read()
+      return records[orderId] || null
+    },
+
+    async findByTransactionId(transactionId) {
+      const records = await store.read()
+      return (
+        Object.values(records).find(
+          (order) =>
+            order.payment.transactionId === transactionId ||
+            !!order.payment.previousTransactionIds?.includes(transactionId)
+        ) || null
+      )
+    },
+
+    async findByIdempotencyKey(idempotencyKey) {
+      const records = await store.read()
+      return (
+        Object.values(records)
+          .filter((order) => order.idempotencyKey === idempotencyKey)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null
+      )
+    },
+
+    async findByRefundPayoutId(payoutId) {
+      const records = await store.read()
+      return Object.values(records).find((order) => !!order.refunds?.some((refund) => refund.payoutId === payoutId)) || null
+    },
+
+    async findByRefundId(refundId) {
+      const records = await store.read()
+      return Object.values(records).find((order) => !!order.refunds?.some((refund) => refund.id === refundId)) || null
+    },
+
+    async update(orderId, mutator) {
+      return store.update((records) => {
+        const current = records[orderId]
+        if (!current) return null
+        const updated = mutator(current)
+        records[orderId] = updated
+        return updated
+      })
+    },
+
+    async list() {
+      const records = await store.read()
+      return Object.values(records).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+  }
+}
+
+let repository: OrderRepository | null = null
+
+export function getOrderRepository(): OrderRepository {
+  if (!repository) {
+    repository = createFileOrderRepository()
+  }
+  return repository
+}
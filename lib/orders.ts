@@ -0,0 +1,415 @@
+import type { ShippingOption } from "@/types"
+import type { StoredUtmParams } from "@/lib/attribution-store"
+import type { AttributionData } from "@/lib/attribution"
+import { getOrderRepository } from "@/lib/order-repository"
+import type { CardBrand, PaymentMethod, PaymentProviderName } from "@/lib/payment-provider"
+import { getBoletoSettlementDeadline } from "@/lib/boleto"
+import { createLogger } from "@/lib/logger"
+import { publishOrderUpdate } from "@/lib/order-events"
+import { syncCouponUsage } from "@/lib/coupons"
+
+// ============================================
+// Pedidos e ciclo de vida
+// ============================================
+
+const log = createLogger("Orders")
+
+export type OrderStatus =
+  | "created"
+  | "waiting_payment"
+  | "paid"
+  | "shipped"
+  | "delivered"
+  | "expired"
+  | "cancelled"
+  | "refused"
+  | "partially_refunded"
+  | "refunded"
+  | "chargedback"
+
+export interface OrderCustomer {
+  name: string
+  email: string
+  cpf: string
+  phone: string
+}
+
+export interface OrderAddress {
+  cep: string
+  street: string
+  number: string
+  complement: string
+  neighborhood: string
+  city: string
+  state: string
+}
+
+export interface OrderItem {
+  productId: string
+  name: string
+  unitPrice: number
+  quantity: number
+}
+
+export interface OrderTotals {
+  subtotal: number
+  discount: number
+  shipping: number
+  // Juros do parcelamento no cartão, já incluídos no total
+  interest?: number
+  total: number
+}
+
+export interface OrderBoleto {
+  digitableLine: string
+  barcode: string
+  // Vencimento impresso no boleto (AAAA-MM-DD)
+  dueDate: string
+  // PDF do gateway; sem ele, GET /api/boleto/[orderId]/pdf gera o documento
+  pdfUrl: string | null
+}
+
+export interface OrderCardPayment {
+  brand: CardBrand
+  lastDigits: string
+  installments: number
+  installmentAmount: number
+  // Autenticação 3DS pendente no emissor
+  authenticationUrl: string | null
+  declineCode: string | null
+  declineMessage: string | null
+}
+
+export interface OrderPayment {
+  method: PaymentMethod
+  gateway: PaymentProviderName | null
+  transactionId: string | null
+  qrCode: string | null
+  boleto?: OrderBoleto | null
+  card?: OrderCardPayment | null
+  // PIX: validade do código; boleto: fim do dia do vencimento; cartão: prazo da autenticação 3DS
+  expiresAt: string | null
+  // Cobranças anteriores do pedido (PIX expirados substituídos por um novo)
+  previousTransactionIds?: string[]
+  paidAt: string | null
+  // Documento de quem pagou (webhook pix.received), destino preferencial do estorno
+  payerDocument?: string | null
+}
+
+// Divisão da venda com um parceiro, enviada à TrexPay (split_email / split_percentage)
+export interface OrderSplit {
+  recipientEmail: string
+  // Percentual sobre o total da cobrança, frete incluído
+  percentage: number
+  amount: number
+  // Regras de data/split-rules.ts que compõem o valor
+  ruleIds: string[]
+}
+
+export type OrderRefundStatus = "pending" | "completed" | "failed"
+
+// Estorno feito por PIX OUT; o pedido só muda de estado com a confirmação (webhook pix.sent)
+export interface OrderRefund {
+  id: string
+  amount: number
+  reason: string | null
+  status: OrderRefundStatus
+  // Transação do envio no gateway, usada para localizar o estorno no webhook
+  payoutId: string | null
+  endToEndId: string | null
+  error: string | null
+  requestedAt: string
+  completedAt: string | null
+}
+
+// Dados do navegador no momento da compra, usados nos eventos de conversão server-side
+export interface OrderClientContext {
+  ip: string | null
+  userAgent: string | null
+  // Cookies _fbp / _fbc do pixel da Meta
+  fbp: string | null
+  fbc: string | null
+  // client_id extraído do cookie _ga
+  gaClientId: string | null
+}
+
+export interface OrderStatusChange {
+  from: OrderStatus | null
+  to: OrderStatus
+  at: string
+  reason?: string
+}
+
+export interface Order {
+  id: string
+  status: OrderStatus
+  customer: OrderCustomer
+  address: OrderAddress
+  items: OrderItem[]
+  shipping: ShippingOption | null
+  coupon: string | null
+  totals: OrderTotals
+  payment: OrderPayment
+  // Ausente em pedidos gravados antes do split
+  split?: OrderSplit | null
+  // Ausente em pedidos gravados antes dos estornos
+  refunds?: OrderRefund[]
+  trackingParams: StoredUtmParams | null
+  // Primeiro e último toque (click IDs, referrer, landing page) para comparar modelos de atribuição
+  attribution: AttributionData | null
+  client: OrderClientContext | null
+  // Correlation id da requisição do checkout, repetido nos logs do status e do webhook
+  correlationId: string | null
+  idempotencyKey: string | null
+  history: OrderStatusChange[]
+  createdAt: string
+  updatedAt: string
+}
+
+// Transições permitidas a partir de cada estado
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  created: ["waiting_payment", "cancelled"],
+  waiting_payment: ["paid", "expired", "cancelled", "refused"],
+  paid: ["shipped", "partially_refunded", "refunded", "chargedback"],
+  shipped: ["delivered", "partially_refunded", "refunded", "chargedback"],
+  delivered: ["partially_refunded", "refunded", "chargedback"],
+  // Novo PIX gerado para o pedido expirado, ou pagamento confirmado depois do vencimento
+  expired: ["waiting_payment", "paid"],
+  cancelled: [],
+  // Cartão recusado: uma nova tentativa cria outro pedido
+  refused: [],
+  // Novos estornos parciais não mudam o estado; o último leva a "refunded"
+  partially_refunded: ["refunded", "chargedback"],
+  refunded: [],
+  chargedback: [],
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to)
+}
+
+// Gera ID único para o pedido
+export function generateOrderId(): string {
+  const timestamp = Date.now().toString(36).toUpperCase()
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase()
+  return `PED-${timestamp}-${random}`
+}
+
+interface CreateOrderParams {
+  customer: OrderCustomer
+  address: OrderAddress
+  items: OrderItem[]
+  shipping: ShippingOption | null
+  coupon: string | null
+  totals: OrderTotals
+  paymentMethod?: PaymentMethod
+  split?: OrderSplit | null
+  trackingParams: StoredUtmParams | null
+  attribution?: AttributionData | null
+  client?: OrderClientContext | null
+  correlationId?: string | null
+  idempotencyKey?: string | null
+}
+
+function buildOrder(params: CreateOrderParams): Order {
+  const now = new Date().toISOString()
+
+  return {
+    id: generateOrderId(),
+    status: "created",
+    customer: params.customer,
+    address: params.address,
+    items: params.items,
+    shipping: params.shipping,
+    coupon: params.coupon,
+    totals: params.totals,
+    payment: {
+      method: params.paymentMethod || "pix",
+      gateway: null,
+      transactionId: null,
+      qrCode: null,
+      expiresAt: null,
+      paidAt: null,
+    },
+    split: params.split || null,
+    refunds: [],
+    trackingParams: params.trackingParams,
+    attribution: params.attribution || null,
+    client: params.client || null,
+    correlationId: params.correlationId || null,
+    idempotencyKey: params.idempotencyKey || null,
+    history: [{ from: null, to: "created", at: now }],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Cria e persiste um novo pedido no estado "created"
+ */
+export async function createOrder(params: CreateOrderParams): Promise<Order> {
+  const order = buildOrder(params)
+
+  log.info("Pedido criado", { orderId: order.id })
+  return getOrderRepository().create(order)
+}
+
+// Estados em que a cobrança já teve resultado: a repetição devolve esse resultado
+// em vez de gerar (e cobrar) um segundo pedido
+const SETTLED_ORDER_STATUSES: OrderStatus[] = [
+  "paid",
+  "shipped",
+  "delivered",
+  "partially_refunded",
+  "refunded",
+  "chargedback",
+  "refused",
+]
+
+export function isOrderSettled(order: Order): boolean {
+  return SETTLED_ORDER_STATUSES.includes(order.status)
+}
+
+/**
+ * Indica se o pedido ainda pode ser devolvido para uma requisição repetida:
+ * em criação, aguardando pagamento com o PIX dentro da validade, ou já pago
+ * ou recusado (cartão aprovado ou PIX pago antes da repetição)
+ */
+export function isOrderReusable(order: Order, now = new Date()): boolean {
+  if (order.status === "created" || isOrderSettled(order)) return true
+  return order.status === "waiting_payment" && !!order.payment.expiresAt && new Date(order.payment.expiresAt) > now
+}
+
+/**
+ * Indica se o PIX do pedido venceu sem pagamento confirmado
+ * Boleto pago no dia do vencimento só é confirmado pelo banco dias depois:
+ * o pedido aguarda o prazo de compensação antes de expirar
+ */
+export function isOrderOverdue(order: Order, now = new Date()): boolean {
+  if (order.status !== "waiting_payment" || !order.payment.expiresAt) return false
+  const deadline =
+    order.payment.method === "boleto"
+      ? getBoletoSettlementDeadline(order.payment.expiresAt)
+      : new Date(order.payment.expiresAt)
+  return deadline <= now
+}
+
+/**
+ * Cria o pedido uma única vez por chave de idempotência enquanto o PIX
+ * anterior continuar válido ou a cobrança já tiver resultado; repetições
+ * devolvem o pedido existente
+ */
+export async function createOrderOnce(
+  params: CreateOrderParams & { idempotencyKey: string }
+): Promise<{ order: Order; created: boolean }> {
+  const result = await getOrderRepository().createUnlessExists(
+    buildOrder(params),
+    (existing) => existing.idempotencyKey === params.idempotencyKey && isOrderReusable(existing)
+  )
+
+  if (result.created) {
+    log.info("Pedido criado", { orderId: result.order.id })
+  } else {
+    log.info("Requisição repetida, reutilizando pedido", { orderId: result.order.id })
+  }
+  return result
+}
+
+export function getOrder(orderId: string): Promise<Order | null> {
+  return getOrderRepository().findById(orderId)
+}
+
+export function getOrderByTransactionId(transactionId: string): Promise<Order | null> {
+  return getOrderRepository().findByTransactionId(transactionId)
+}
+
+export function getOrderByIdempotencyKey(idempotencyKey: string): Promise<Order | null> {
+  return getOrderRepository().findByIdempotencyKey(idempotencyKey)
+}
+
+export function getOrderByRefundPayoutId(payoutId: string): Promise<Order | null> {
+  return getOrderRepository().findByRefundPayoutId(payoutId)
+}
+
+export function getOrderByRefundId(refundId: string): Promise<Order | null> {
+  return getOrderRepository().findByRefundId(refundId)
+}
+
+/**
+ * Pedidos aguardando pagamento com o PIX já vencido
+ */
+export async function listOverdueOrders(now = new Date()): Promise<Order[]> {
+  const orders = await getOrderRepository().list()
+  return orders.filter((order) => isOrderOverdue(order, now))
+}
+
+/**
+ * Boletos aguardando pagamento, conferidos periodicamente no gateway
+ */
+export async function listAwaitingBoletoOrders(): Promise<Order[]> {
+  const orders = await getOrderRepository().list()
+  return orders.filter((order) => order.status === "waiting_payment" && order.payment.method === "boleto")
+}
+
+/**
+ * Atualiza os dados de pagamento do pedido (sem alterar o estado)
+ */
+export function updateOrderPayment(orderId: string, payment: Partial<OrderPayment>): Promise<Order | null> {
+  return getOrderRepository().update(orderId, (order) => ({
+    ...order,
+    payment: { ...order.payment, ...payment },
+    updatedAt: new Date().toISOString(),
+  }))
+}
+
+/**
+ * Move o pedido para um novo estado, respeitando as transições permitidas
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: { reason?: string; payment?: Partial<OrderPayment> } = {}
+): Promise<{ success: boolean; order?: Order; error?: string }> {
+  let error: string | undefined
+
+  const order = await getOrderRepository().update(orderId, (current) => {
+    if (current.status === to) {
+      error = "ALREADY_IN_STATUS"
+      return current
+    }
+    if (!canTransitionOrder(current.status, to)) {
+      error = "INVALID_TRANSITION"
+      return current
+    }
+
+    const now = new Date().toISOString()
+    return {
+      ...current,
+      status: to,
+      payment: options.payment ? { ...current.payment, ...options.payment } : current.payment,
+      history: [...current.history, { from: current.status, to, at: now, reason: options.reason }],
+      updatedAt: now,
+    }
+  })
+
+  if (!order) {
+    log.error("Pedido não encontrado", { orderId })
+    return { success: false, error: "NOT_FOUND" }
+  }
+
+  if (error) {
+    log.warn("Transição ignorada", { orderId, from: order.status, to, reason: error })
+    return { success: false, order, error }
+  }
+
+  log.info("Status do pedido alterado", { orderId, to })
+  publishOrderUpdate(order)
+
+  // A mudança já foi gravada: uma falha no registro do cupom não a desfaz
+  try {
+    await syncCouponUsage(order)
+  } catch (couponError) {
+    log.error("Erro ao atualizar utilização do cupom", { orderId, error: couponError })
+  }
+  return { success: true, order }
+}
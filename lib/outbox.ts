@@ -0,0 +1,266 @@
+import { after } from "next/server"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Outbox de eventos de conversão
+// Os eventos são gravados antes do envio e despachados por um worker em
+// segundo plano, com backoff exponencial e dead-letter após o limite
+// de tentativas. A chave (destino + dedupeKey) garante um único envio.
+// ============================================
+
+const log = createLogger("Outbox")
+
+const DEFAULT_MAX_ATTEMPTS = 8
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+// Mensagens "delivering" há mais tempo que isso são consideradas abandonadas
+const DELIVERY_LEASE_MS = 2 * 60 * 1000
+const BATCH_SIZE = 20
+
+export type OutboxDestination = "utmify" | "meta_capi" | "ga4"
+
+export type OutboxStatus = "pending" | "delivering" | "delivered" | "dead"
+
+export interface OutboxMessage {
+  id: string
+  destination: OutboxDestination
+  dedupeKey: string
+  payload: unknown
+  status: OutboxStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  createdAt: string
+  updatedAt: string
+  deliveredAt: string | null
+}
+
+export interface OutboxDeliveryResult {
+  success: boolean
+  error?: string
+  // false para erros definitivos (ex.: payload rejeitado), que vão direto para dead-letter
+  retryable?: boolean
+}
+
+export type OutboxDispatcher = (payload: unknown) => Promise<OutboxDeliveryResult>
+
+const outboxStore = createJsonFileStore<OutboxMessage>("outbox.json")
+const dispatchers: Partial<Record<OutboxDestination, OutboxDispatcher>> = {}
+
+/**
+ * Registra a função de envio de um destino
+ */
+export function registerOutboxDispatcher(destination: OutboxDestination, dispatcher: OutboxDispatcher): void {
+  dispatchers[destination] = dispatcher
+}
+
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+  // Jitter de até 20% para não sincronizar as novas tentativas
+  return Math.round(delay * (1 + Math.random() * 0.2))
+}
+
+/**
+ * Grava o evento no outbox. Se já existir um evento com o mesmo destino e
+ * chave, nada é gravado (envio único por pedido/status)
+ */
+export async function enqueueOutboxMessage(params: {
+  destination: OutboxDestination
+  dedupeKey: string
+  payload: unknown
+  maxAttempts?: number
+}): Promise<{ message: OutboxMessage; created: boolean }> {
+  const id = `${params.destination}:${params.dedupeKey}`
+
+  return outboxStore.update((records) => {
+    if (records[id]) {
+      return { message: records[id], created: false }
+    }
+
+    const now = new Date().toISOString()
+    const message: OutboxMessage = {
+      id,
+      destination: params.destination,
+      dedupeKey: params.dedupeKey,
+      payload: params.payload,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: params.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      nextAttemptAt: now,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+      deliveredAt: null,
+    }
+    records[id] = message
+    return { message, created: true }
+  })
+}
+
+/**
+ * Reserva as mensagens prontas para envio, marcando-as como "delivering"
+ */
+async function claimDueMessages(limit: number): Promise<OutboxMessage[]> {
+  const now = Date.now()
+
+  return outboxStore.update((records) => {
+    const due = Object.values(records)
+      .filter(
+        (message) =>
+          (message.status === "pending" && new Date(message.nextAttemptAt).getTime() <= now) ||
+          (message.status === "delivering" && new Date(message.updatedAt).getTime() + DELIVERY_LEASE_MS <= now)
+      )
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+      .slice(0, limit)
+
+    const updatedAt = new Date(now).toISOString()
+    return due.map((message) => {
+      const claimed: OutboxMessage = { ...message, status: "delivering", updatedAt }
+      records[message.id] = claimed
+      return claimed
+    })
+  })
+}
+
+async function deliver(message: OutboxMessage): Promise<void> {
+  const dispatcher = dispatchers[message.destination]
+  let result: OutboxDeliveryResult
+
+  try {
+    result = dispatcher
+      ? await dispatcher(message.payload)
+      : { success: false, error: `Destino sem dispatcher: ${message.destination}`, retryable: true }
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : String(error), retryable: true }
+  }
+
+  await outboxStore.update((records) => {
+    const current = records[message.id]
+    if (!current) return
+
+    const now = new Date()
+    const attempts = current.attempts + 1
+
+    if (result.success) {
+      records[message.id] = {
+        ...current,
+        status: "delivered",
+        attempts,
+        lastError: null,
+        updatedAt: now.toISOString(),
+        deliveredAt: now.toISOString(),
+      }
+      return
+    }
+
+    const dead = result.retryable === false || attempts >= current.maxAttempts
+    records[message.id] = {
+      ...current,
+      status: dead ? "dead" : "pending",
+      attempts,
+      lastError: result.error || "Erro desconhecido",
+      nextAttemptAt: dead ? current.nextAttemptAt : new Date(now.getTime() + getRetryDelay(attempts)).toISOString(),
+      updatedAt: now.toISOString(),
+    }
+  })
+
+  if (result.success) {
+    log.info("Evento entregue", { messageId: message.id })
+  } else {
+    log.error("Falha ao entregar evento", { messageId: message.id, attempt: message.attempts + 1, error: result.error })
+  }
+}
+
+let processing: Promise<number> | null = null
+
+/**
+ * Envia as mensagens pendentes cujo horário de nova tentativa já chegou
+ * Retorna a quantidade de mensagens processadas
+ */
+export function processOutbox(limit = BATCH_SIZE): Promise<number> {
+  // Evita execuções sobrepostas no mesmo processo
+  if (processing) return processing
+
+  processing = (async () => {
+    const messages = await claimDueMessages(limit)
+    for (const message of messages) {
+      await deliver(message)
+    }
+    return messages.length
+  })().finally(() => {
+    processing = null
+  })
+
+  return processing
+}
+
+/**
+ * Dispara o envio logo após a resposta da requisição atual
+ * (fora de uma requisição, dispara imediatamente em segundo plano)
+ */
+export function scheduleOutboxDispatch(): void {
+  const run = () => processOutbox().catch((error) => log.error("Erro no processamento", { error }))
+  try {
+    after(run)
+  } catch {
+    void run()
+  }
+}
+
+/**
+ * Devolve uma mensagem em dead-letter para a fila
+ */
+export function retryOutboxMessage(id: string): Promise<OutboxMessage | null> {
+  return outboxStore.update((records) => {
+    const current = records[id]
+    if (!current || current.status !== "dead") return null
+
+    const now = new Date().toISOString()
+    const updated: OutboxMessage = {
+      ...current,
+      status: "pending",
+      maxAttempts: current.attempts + DEFAULT_MAX_ATTEMPTS,
+      nextAttemptAt: now,
+      updatedAt: now,
+    }
+    records[id] = updated
+    return updated
+  })
+}
+
+export async function listOutboxMessages(
+  filters: { status?: OutboxStatus; destination?: OutboxDestination; limit?: number } = {}
+): Promise<{ counts: Record<OutboxStatus, number>; messages: OutboxMessage[] }> {
+  const all = Object.values(await outboxStore.read())
+  const counts: Record<OutboxStatus, number> = { pending: 0, delivering: 0, delivered: 0, dead: 0 }
+  for (const message of all) {
+    counts[message.status]++
+  }
+
+  const messages = all
+    .filter((message) => !filters.status || message.status === filters.status)
+    .filter((message) => !filters.destination || message.destination === filters.destination)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filters.limit || 100)
+
+  return { counts, messages }
+}
+
+// ============================================
+// Worker periódico
+// ============================================
+
+let workerTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Inicia o worker que reprocessa a fila periodicamente (chamado em instrumentation.ts)
+ */
+export function startOutboxWorker(intervalMs = 15 * 1000): void {
+  if (workerTimer) return
+  workerTimer = setInterval(() => {
+    processOutbox().catch((error) => log.error("Erro no worker", { error }))
+  }, intervalMs)
+  log.info("Worker iniciado", { intervalMs })
+}
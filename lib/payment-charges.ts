@@ -0,0 +1,246 @@
+import { getPaymentProvider } from "@/lib/payment-provider"
+import { transitionOrder, type Order } from "@/lib/orders"
+import { mapOrderStatus, markOrderPaid, refuseOrder } from "@/lib/payment-status"
+import { buildUtmfyOrder, queueUtmfyOrder } from "@/lib/utmfy"
+import { getConversionEventId } from "@/lib/conversion-sinks"
+import { linkAttributionToTransaction } from "@/lib/attribution-store"
+import { getBoletoDueDate } from "@/lib/boleto"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Cobranças (PIX, boleto ou cartão) dos pedidos
+// Usado na criação do pedido e ao gerar uma nova cobrança para um pedido expirado
+// ============================================
+
+const log = createLogger("Charges")
+
+/**
+ * Resposta com os dados da cobrança devolvida ao checkout
+ */
+export function buildChargeResponse(order: Order, qrCodeBase64 = "") {
+  const boleto = getBoletoDetails(order)
+  const card = getCardDetails(order)
+  return {
+    success: true,
+    orderId: order.id,
+    transactionId: order.payment.transactionId,
+    paymentMethod: order.payment.method,
+    totals: order.totals,
+    ...(boleto
+      ? { boleto }
+      : card
+        ? { card }
+        : {
+            pix: {
+              qrcode: order.payment.qrCode || "",
+              qrCodeBase64,
+              expiresAt: order.payment.expiresAt,
+            },
+          }),
+    conversionEventIds: getConversionEventIds(order),
+  }
+}
+
+/**
+ * Ids para o eventID dos pixels do navegador (deduplicação com os eventos server-side)
+ */
+export function getConversionEventIds(order: Order) {
+  return {
+    initiateCheckout: getConversionEventId(order.id, "InitiateCheckout"),
+    purchase: getConversionEventId(order.id, "Purchase"),
+  }
+}
+
+/**
+ * Dados do boleto exibidos ao cliente; o PDF é o do gateway ou o gerado pela loja
+ */
+export function getBoletoDetails(order: Order) {
+  const { boleto } = order.payment
+  if (order.payment.method !== "boleto" || !boleto) return null
+  return {
+    digitableLine: boleto.digitableLine,
+    barcode: boleto.barcode,
+    dueDate: boleto.dueDate,
+    pdfUrl: boleto.pdfUrl || `/api/boleto/${encodeURIComponent(order.id)}/pdf`,
+    expiresAt: order.payment.expiresAt,
+  }
+}
+
+/**
+ * Resultado do pagamento no cartão exibido ao cliente (sem dados sensíveis)
+ */
+export function getCardDetails(order: Order) {
+  const { card } = order.payment
+  if (order.payment.method !== "credit_card" || !card) return null
+  return {
+    status: mapOrderStatus(order),
+    brand: card.brand,
+    lastDigits: card.lastDigits,
+    installments: card.installments,
+    installmentAmount: card.installmentAmount,
+    authenticationUrl: order.status === "waiting_payment" ? card.authenticationUrl : null,
+    declineMessage: card.declineMessage,
+  }
+}
+
+export interface IssueChargeResult {
+  success: boolean
+  order?: Order
+  qrCodeBase64?: string
+  error?: string
+  message?: string
+}
+
+export interface IssueChargeOptions {
+  // Token dos campos hospedados e parcelamento escolhido (já validado)
+  card?: {
+    token: string
+    installments: number
+    installmentAmount: number
+  }
+}
+
+/**
+ * Gera a cobrança no gateway e move o pedido para "waiting_payment".
+ * Em um pedido expirado, a transação anterior fica em previousTransactionIds
+ * para que webhooks atrasados ainda encontrem o pedido.
+ * No cartão, a aprovação ou recusa já chega na resposta do gateway; com
+ * autenticação 3DS o pedido aguarda o webhook
+ */
+export async function issueCharge(order: Order, options: IssueChargeOptions = {}): Promise<IssueChargeResult> {
+  const paymentProvider = getPaymentProvider()
+  const { siteUrl, payments } = getConfig()
+  const tracking = order.trackingParams
+  const method = order.payment.method
+  const boletoDue = method === "boleto" ? getBoletoDueDate(payments.boletoExpirationBusinessDays) : null
+
+  if (method === "credit_card" && !options.card) {
+    return { success: false, error: "INVALID_CARD_TOKEN", message: "Informe os dados do cartão" }
+  }
+
+  const charge = await paymentProvider.createCharge({
+    orderId: order.id,
+    method,
+    amount: order.totals.total,
+    customer: {
+      name: order.customer.name,
+      email: order.customer.email,
+      document: order.customer.cpf,
+      phone: order.customer.phone,
+    },
+    address: order.address,
+    dueDate: boletoDue?.dueDate,
+    card: options.card
+      ? {
+          token: options.card.token,
+          installments: options.card.installments,
+          returnUrl: `${siteUrl}/obrigado?pedido=${encodeURIComponent(order.id)}&metodo=credit_card`,
+        }
+      : undefined,
+    postbackUrl: `${siteUrl}/api/webhook/trexpay`,
+    trackingParams: tracking
+      ? {
+          src: tracking.src || undefined,
+          sck: tracking.sck || undefined,
+          utm_source: tracking.utm_source || undefined,
+          utm_campaign: tracking.utm_campaign || undefined,
+          utm_medium: tracking.utm_medium || undefined,
+          utm_content: tracking.utm_content || undefined,
+          utm_term: tracking.utm_term || undefined,
+        }
+      : undefined,
+    split: order.split ? { email: order.split.recipientEmail, percentage: order.split.percentage } : undefined,
+  })
+
+  if (!charge.success) {
+    log.error("Erro no gateway", {
+      orderId: order.id,
+      provider: paymentProvider.name,
+      method,
+      error: charge.error,
+      message: charge.message,
+    })
+    return { success: false, error: charge.error, message: charge.message }
+  }
+  if (method === "boleto" && !charge.boleto) {
+    log.error("Boleto sem linha digitável na resposta", { orderId: order.id, provider: paymentProvider.name })
+    return { success: false, error: "INVALID_RESPONSE", message: "Não foi possível gerar o boleto" }
+  }
+  if (method === "credit_card" && !charge.card) {
+    log.error("Cobrança no cartão sem dados do cartão na resposta", { orderId: order.id, provider: paymentProvider.name })
+    return { success: false, error: "INVALID_RESPONSE", message: "Não foi possível processar o pagamento no cartão" }
+  }
+
+  const previousTransactionId = order.payment.transactionId
+  const transactionId = charge.transactionId || order.id
+  // Sem vencimento informado pelo gateway, vale a validade configurada
+  // (PIX_EXPIRATION_MINUTES / BOLETO_EXPIRATION_BUSINESS_DAYS)
+  const expiresAt =
+    charge.expiresAt ||
+    boletoDue?.expiresAt ||
+    new Date(Date.now() + payments.pixExpirationMinutes * 60 * 1000).toISOString()
+
+  const transition = await transitionOrder(order.id, "waiting_payment", {
+    reason: previousTransactionId ? (method === "boleto" ? "Novo boleto gerado" : "Novo PIX gerado") : undefined,
+    payment: {
+      gateway: paymentProvider.name,
+      transactionId,
+      qrCode: charge.qrCode || "",
+      boleto:
+        charge.boleto && boletoDue
+          ? {
+              digitableLine: charge.boleto.digitableLine,
+              barcode: charge.boleto.barcode,
+              dueDate: boletoDue.dueDate,
+              pdfUrl: charge.boleto.pdfUrl || null,
+            }
+          : null,
+      card:
+        charge.card && options.card
+          ? {
+              brand: charge.card.brand,
+              lastDigits: charge.card.lastDigits,
+              installments: options.card.installments,
+              installmentAmount: options.card.installmentAmount,
+              authenticationUrl: charge.card.authenticationUrl || null,
+              declineCode: null,
+              declineMessage: null,
+            }
+          : null,
+      expiresAt,
+      paidAt: null,
+      ...(previousTransactionId
+        ? { previousTransactionIds: [...(order.payment.previousTransactionIds || []), previousTransactionId] }
+        : {}),
+    },
+  })
+  let updated = transition.order || order
+
+  // Indexar os UTMs também pelo transactionId do gateway
+  if ((updated.trackingParams || updated.attribution) && charge.transactionId) {
+    await linkAttributionToTransaction(updated.id, charge.transactionId)
+  }
+
+  // Evento waiting_payment da nova transação (a UTMify identifica o pedido pelo transactionId)
+  // Envio assíncrono pelo outbox para não atrasar a resposta ao cliente
+  try {
+    await queueUtmfyOrder(buildUtmfyOrder(updated, "waiting_payment"))
+  } catch (utmfyError) {
+    log.error("Erro ao enfileirar evento UTMify", { orderId: updated.id, error: utmfyError })
+  }
+
+  if (charge.status === "paid") {
+    updated = await markOrderPaid(updated, "Cartão aprovado")
+  } else if (charge.status === "refused") {
+    const declineMessage = charge.card?.declineMessage || "Pagamento recusado pelo emissor do cartão"
+    log.warn("Cartão recusado", { orderId: updated.id, declineCode: charge.card?.declineCode })
+    updated = await refuseOrder(updated, "Cartão recusado", {
+      declineCode: charge.card?.declineCode || null,
+      declineMessage,
+    })
+    return { success: false, order: updated, error: "CARD_DECLINED", message: declineMessage }
+  }
+
+  return { success: true, order: updated, qrCodeBase64: charge.qrCodeBase64 || "" }
+}
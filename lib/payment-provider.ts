@@ -0,0 +1,219 @@
+import { createTrexPayProvider } from "@/lib/trexpay"
+import { createSimulatorProvider } from "@/lib/payment-simulator"
+import type { WebhookVerificationError } from "@/lib/webhook-signature"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Abstração do gateway de pagamento
+// O provedor ativo é escolhido pela variável PAYMENT_PROVIDER
+// ("trexpay" em produção, "simulator" para rodar o checkout localmente)
+// ============================================
+
+const log = createLogger("Payments")
+
+export type PaymentProviderName = "trexpay" | "simulator"
+
+export type PaymentMethod = "pix" | "boleto" | "credit_card"
+
+export type ChargeStatus = "pending" | "paid" | "expired" | "cancelled" | "refused" | "refunded" | "chargedback"
+
+export type CardBrand = "visa" | "mastercard" | "amex" | "elo" | "hipercard" | "unknown"
+
+export interface ChargeTrackingParams {
+  src?: string
+  sck?: string
+  utm_source?: string
+  utm_campaign?: string
+  utm_medium?: string
+  utm_content?: string
+  utm_term?: string
+}
+
+export interface CreateChargeParams {
+  orderId: string
+  method: PaymentMethod
+  amount: number
+  customer: {
+    name: string
+    email: string
+    document: string
+    phone: string
+  }
+  // Endereço do pagador, exigido no registro do boleto
+  address?: {
+    cep: string
+    street: string
+    number: string
+    neighborhood: string
+    city: string
+    state: string
+  }
+  // Vencimento do boleto (AAAA-MM-DD)
+  dueDate?: string
+  // Token dos campos hospedados do gateway; os dados do cartão nunca passam pela loja
+  card?: {
+    token: string
+    installments: number
+    // Retorno do cliente após a autenticação 3DS
+    returnUrl: string
+  }
+  postbackUrl: string
+  trackingParams?: ChargeTrackingParams
+  // Parte da cobrança repassada a outra conta do gateway
+  split?: {
+    email: string
+    percentage: number
+  }
+}
+
+export interface CreateChargeResult {
+  success: boolean
+  transactionId?: string
+  qrCode?: string
+  qrCodeBase64?: string
+  boleto?: {
+    digitableLine: string
+    barcode: string
+    // PDF emitido pelo gateway; sem ele, a loja gera o próprio
+    pdfUrl?: string
+  }
+  // Cartão: aprovação ou recusa na própria criação; "pending" aguarda a autenticação 3DS
+  status?: ChargeStatus
+  card?: {
+    brand: CardBrand
+    lastDigits: string
+    // Página do emissor para a autenticação 3DS
+    authenticationUrl?: string
+    declineCode?: string
+    declineMessage?: string
+  }
+  expiresAt?: string
+  error?: string
+  message?: string
+}
+
+export interface ChargeStatusResult {
+  success: boolean
+  transactionId: string
+  status: ChargeStatus
+  amount?: number
+  paidAt?: string
+  error?: string
+}
+
+export type PixKeyType = "cpf" | "cnpj" | "email" | "phone" | "random"
+
+/**
+ * Estorno por envio PIX (PIX OUT) para a chave de quem pagou
+ * A confirmação chega depois, no webhook pix.sent
+ */
+export interface RefundParams {
+  // Cobrança original
+  transactionId: string
+  // Id do estorno no pedido, repassado como referência ao gateway
+  refundId: string
+  amount: number
+  pixKey: string
+  pixKeyType: PixKeyType
+  postbackUrl: string
+  reason?: string
+}
+
+export interface RefundResult {
+  success: boolean
+  // Transação do envio no gateway (idTransaction do webhook pix.sent)
+  payoutId?: string
+  // Falha sem recusa definitiva (timeout, resposta ilegível, erro 5xx): o
+  // gateway pode ter feito o envio, então o estorno continua pendente
+  unconfirmed?: boolean
+  error?: string
+  message?: string
+}
+
+/**
+ * Evento de webhook já validado e normalizado
+ * "charge" = pagamento recebido (PIX IN), "transfer" = envio (PIX OUT)
+ */
+export interface PaymentWebhookEvent {
+  kind: "charge" | "transfer"
+  transactionId: string
+  status: string
+  amount: number
+  paidAt?: string
+  completedAt?: string
+  payerName?: string
+  payerDocument?: string
+  endToEndId?: string
+  pixKey?: string
+  // Referência enviada ao gateway (nos envios PIX OUT, o id do estorno)
+  externalId?: string
+}
+
+/**
+ * Campos hospedados do cartão: página do gateway exibida em um iframe no
+ * checkout. Número, validade e CVV são digitados e tokenizados dentro dela;
+ * a página da loja recebe só o token (lib/card-hosted-fields.ts)
+ */
+export interface CardHostedFieldsConfig {
+  url: string
+}
+
+export interface ParseWebhookResult {
+  success: boolean
+  event?: PaymentWebhookEvent
+  // Nonce da entrega, liberado pela rota se o processamento falhar
+  nonce?: string
+  error?: "INVALID_PAYLOAD" | WebhookVerificationError
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName
+  // Formas de pagamento aceitas em createCharge
+  methods: PaymentMethod[]
+  createCharge(params: CreateChargeParams): Promise<CreateChargeResult>
+  getChargeStatus(transactionId: string): Promise<ChargeStatusResult>
+  refund(params: RefundParams): Promise<RefundResult>
+  parseWebhook(rawBody: string, headers: Headers): Promise<ParseWebhookResult>
+  // Presente nos gateways que aceitam cartão (null enquanto o cartão não está habilitado na conta)
+  getCardHostedFields?(): CardHostedFieldsConfig | null
+}
+
+/**
+ * Taxa cobrada pelo gateway sobre uma cobrança, em centavos
+ * Configurada por PAYMENT_GATEWAY_FEE_PERCENT (ex.: "1.99") e
+ * PAYMENT_GATEWAY_FEE_FIXED (valor fixo em reais por transação)
+ */
+export function getGatewayFeeInCents(amountInCents: number): number {
+  const { gatewayFeePercent: percent, gatewayFeeFixed } = getConfig().payments
+  const fixedInCents = Math.round(gatewayFeeFixed * 100)
+  const fee = Math.round((amountInCents * percent) / 100) + fixedInCents
+  return Math.min(Math.max(fee, 0), amountInCents)
+}
+
+const providers: Record<PaymentProviderName, () => PaymentProvider> = {
+  trexpay: createTrexPayProvider,
+  simulator: createSimulatorProvider,
+}
+
+let provider: PaymentProvider | null = null
+
+export function getPaymentProviderName(): PaymentProviderName {
+  return getConfig().payments.provider
+}
+
+/**
+ * Simulador e rotas /api/simulator/* ativos; nunca em produção, mesmo que a
+ * validação da configuração seja contornada
+ */
+export function isSimulatorEnabled(): boolean {
+  return getPaymentProviderName() === "simulator" && !getConfig().isProduction
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    provider = providers[getPaymentProviderName()]()
+    log.info("Provedor de pagamento", { provider: provider.name })
+  }
+  return provider
+}
@@ -0,0 +1,621 @@
+import crypto from "crypto"
+import { after } from "next/server"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import { getConfig } from "@/lib/config"
+import { parseTrexPayWebhook, type TrexPayWebhookPayload } from "@/lib/trexpay"
+import { signWebhookBody, WEBHOOK_NONCE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "@/lib/webhook-signature"
+import type {
+  CardBrand,
+  ChargeStatus,
+  CreateChargeParams,
+  CreateChargeResult,
+  PaymentMethod,
+  PaymentProvider,
+} from "@/lib/payment-provider"
+import { buildBoletoBarcode, endOfBrazilianDay, getBoletoDueDate, getDigitableLine } from "@/lib/boleto"
+import { detectCardBrand, isValidCardNumber } from "@/lib/card"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Simulador local de PIX, boleto e cartão
+// Emite códigos EMV e boletos fictícios, tokeniza cartões de teste e envia
+// webhooks assinados no formato da TrexPay, permitindo rodar o checkout
+// sem credenciais reais
+// ============================================
+
+const log = createLogger("Simulator")
+
+const SIMULATOR_PIX_VALIDITY_MS = 30 * 60 * 1000
+// Código de banco fictício dos boletos simulados
+const SIMULATOR_BANK_CODE = "999"
+// Chave pública aceita pela tokenização simulada
+export const SIMULATOR_CARD_PUBLIC_KEY = "pk_simulator"
+const SIMULATOR_CARD_TOKEN_VALIDITY_MS = 15 * 60 * 1000
+// Prazo para concluir a autenticação 3DS
+const SIMULATOR_3DS_VALIDITY_MS = 15 * 60 * 1000
+
+interface SimulatedCharge {
+  transactionId: string
+  orderId: string
+  method: PaymentMethod
+  amount: number
+  status: ChargeStatus
+  postbackUrl: string
+  customerName: string
+  customerDocument: string
+  qrCode: string
+  barcode: string | null
+  endToEndId: string | null
+  createdAt: string
+  expiresAt: string
+  paidAt: string | null
+  refundedAmount: number
+  // Split informado na criação (o simulador só registra)
+  split?: { email: string; percentage: number } | null
+  card?: {
+    brand: CardBrand
+    lastDigits: string
+    installments: number
+    // Retorno do cliente depois da autenticação 3DS
+    returnUrl: string
+    declineCode: string | null
+  } | null
+}
+
+// Resultado de cada cartão de teste, decidido na tokenização (como nos gateways reais)
+type SimulatedCardOutcome = "approve" | "decline" | "insufficient_funds" | "authenticate"
+
+/**
+ * Cartões de teste: 4000 0000 0000 0002 é recusado, 4000 0000 0000 9995 é
+ * recusado por saldo insuficiente e 4000 0000 0000 3220 exige autenticação 3DS.
+ * Qualquer outro número válido é aprovado
+ */
+const SIMULATOR_TEST_CARDS: Record<string, SimulatedCardOutcome> = {
+  "4000000000000002": "decline",
+  "4000000000009995": "insufficient_funds",
+  "4000000000003220": "authenticate",
+}
+
+const SIMULATOR_DECLINES: Record<string, string> = {
+  card_declined: "Cartão recusado pelo emissor",
+  insufficient_funds: "Saldo ou limite insuficiente",
+  authentication_failed: "Autenticação do cartão não concluída",
+}
+
+// O número completo e o CVV não são armazenados, nem no simulador
+interface SimulatedCardToken {
+  token: string
+  brand: CardBrand
+  lastDigits: string
+  holderName: string
+  outcome: SimulatedCardOutcome
+  createdAt: string
+  expiresAt: string
+  usedAt: string | null
+}
+
+const chargeStore = createJsonFileStore<SimulatedCharge>("simulator-charges.json")
+const cardTokenStore = createJsonFileStore<SimulatedCardToken>("simulator-card-tokens.json")
+
+function getSimulatorSecret(): string {
+  const secret = getConfig().payments.simulatorSecret
+  if (!secret) throw new Error("PAYMENT_SIMULATOR_SECRET não configurado")
+  return secret
+}
+
+// ============================================
+// Código EMV (BR Code)
+// ============================================
+
+function emvField(id: string, value: string): string {
+  return `${id}${value.length.toString().padStart(2, "0")}${value}`
+}
+
+// CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF), exigido pelo BR Code
+function crc16(payload: string): string {
+  let crc = 0xffff
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+      crc &= 0xffff
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0")
+}
+
+/**
+ * Monta um "copia e cola" PIX com estrutura válida, mas chave fictícia
+ */
+function buildFakeEmv(transactionId: string, amount: number): string {
+  const txid = transactionId.replace(/[^A-Za-z0-9]/g, "").slice(0, 25)
+  const payload =
+    emvField("00", "01") +
+    emvField("26", emvField("00", "br.gov.bcb.pix") + emvField("01", "simulador@papelaria.local")) +
+    emvField("52", "0000") +
+    emvField("53", "986") +
+    emvField("54", amount.toFixed(2)) +
+    emvField("58", "BR") +
+    emvField("59", "PAPELARIA SIMULADOR") +
+    emvField("60", "SAO PAULO") +
+    emvField("62", emvField("05", txid)) +
+    "6304"
+  return payload + crc16(payload)
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+interface SimulatedTransfer {
+  transactionId: string
+  amount: number
+  pixKey: string
+  pixKeyType: string
+  externalId: string
+}
+
+function generateEndToEndId(): string {
+  return `E${Date.now()}${crypto.randomBytes(6).toString("hex").toUpperCase()}`
+}
+
+/**
+ * Webhook da cobrança (pix.received) ou, com `transfer`, do envio PIX OUT
+ * feito a partir dela (pix.sent)
+ */
+async function sendWebhook(
+  charge: SimulatedCharge,
+  event: TrexPayWebhookPayload["event"],
+  status: string,
+  transfer?: SimulatedTransfer
+) {
+  const payload: Omit<TrexPayWebhookPayload, "signature"> = {
+    event,
+    data: transfer
+      ? {
+          idTransaction: transfer.transactionId,
+          status,
+          amount: transfer.amount,
+          completed_at: new Date().toISOString(),
+          typeTransaction: "PIX_OUT",
+          pixKey: transfer.pixKey,
+          pixKeyType: transfer.pixKeyType,
+          external_id: transfer.externalId,
+          metadata: {
+            endToEndId: generateEndToEndId(),
+            txid: transfer.transactionId,
+          },
+        }
+      : {
+          idTransaction: charge.transactionId,
+          status,
+          amount: charge.amount,
+          paid_at: charge.paidAt || undefined,
+          // A TrexPay usa o mesmo evento para qualquer depósito recebido
+          typeTransaction: charge.method === "boleto" ? "BOLETO_IN" : charge.method === "credit_card" ? "CARD_IN" : "PIX_IN",
+          payer: {
+            name: charge.customerName,
+            document: charge.customerDocument,
+          },
+          metadata: {
+            endToEndId: charge.endToEndId || "",
+            txid: charge.transactionId,
+          },
+        },
+  }
+  const body = JSON.stringify(payload)
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const nonce = crypto.randomUUID()
+
+  try {
+    const response = await fetch(charge.postbackUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-trexpay-signature": signWebhookBody(body, getSimulatorSecret(), { timestamp, nonce }),
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_NONCE_HEADER]: nonce,
+      },
+      body,
+    })
+    log.info("Webhook enviado", { event, status, transactionId: payload.data.idTransaction, httpStatus: response.status })
+    return { delivered: response.ok, status: response.status }
+  } catch (error) {
+    log.error("Erro ao enviar webhook", { transactionId: payload.data.idTransaction, error })
+    return { delivered: false, status: 0 }
+  }
+}
+
+// Considera expirada a cobrança pendente cuja validade já passou
+function withCurrentStatus(charge: SimulatedCharge): SimulatedCharge {
+  if (charge.status === "pending" && new Date(charge.expiresAt) <= new Date()) {
+    return { ...charge, status: "expired" }
+  }
+  return charge
+}
+
+export async function getSimulatedCharge(transactionId: string): Promise<SimulatedCharge | null> {
+  const charge = (await chargeStore.read())[transactionId]
+  return charge ? withCurrentStatus(charge) : null
+}
+
+/**
+ * Ações de controle do simulador: confirmar pagamento, expirar a cobrança ou
+ * registrar um chargeback (cartão pago), disparando o webhook correspondente
+ */
+export async function simulateChargeEvent(
+  transactionId: string,
+  action: "pay" | "expire" | "chargeback"
+): Promise<{ success: boolean; charge?: SimulatedCharge; webhook?: { delivered: boolean; status: number }; error?: string }> {
+  let error: string | undefined
+
+  const charge = await chargeStore.update((records) => {
+    const current = records[transactionId]
+    if (!current) return null
+
+    if (action === "chargeback") {
+      if (current.method !== "credit_card" || current.status !== "paid") {
+        error = "Chargeback disponível apenas para cobranças pagas no cartão"
+        return current
+      }
+      const updated: SimulatedCharge = { ...current, status: "chargedback" }
+      records[transactionId] = updated
+      return updated
+    }
+
+    if (current.status !== "pending") {
+      error = `Cobrança não está pendente (${current.status})`
+      return current
+    }
+
+    const updated: SimulatedCharge =
+      action === "pay"
+        ? {
+            ...current,
+            status: "paid",
+            paidAt: new Date().toISOString(),
+            endToEndId: generateEndToEndId(),
+          }
+        : { ...current, status: "expired" }
+    records[transactionId] = updated
+    return updated
+  })
+
+  if (!charge) {
+    return { success: false, error: "Cobrança não encontrada" }
+  }
+  if (error) {
+    return { success: false, charge, error }
+  }
+
+  const webhook = await sendWebhook(charge, "pix.received", charge.status)
+  return { success: true, charge, webhook }
+}
+
+// ============================================
+// Cartão: tokenização e autenticação 3DS
+// ============================================
+
+/**
+ * Tokenização chamada pelos campos hospedados (no gateway real, fora do servidor da loja)
+ */
+export async function createSimulatedCardToken(input: {
+  publicKey?: unknown
+  number?: unknown
+  holderName?: unknown
+  expMonth?: unknown
+  expYear?: unknown
+  cvv?: unknown
+}): Promise<{ success: boolean; token?: SimulatedCardToken; error?: string }> {
+  if (input.publicKey !== SIMULATOR_CARD_PUBLIC_KEY) {
+    return { success: false, error: "Chave pública inválida" }
+  }
+
+  const number = typeof input.number === "string" ? input.number.replace(/\D/g, "") : ""
+  const holderName = typeof input.holderName === "string" ? input.holderName.trim() : ""
+  const expMonth = Number(input.expMonth)
+  const expYear = Number(input.expYear)
+  const cvv = typeof input.cvv === "string" ? input.cvv : ""
+  const now = new Date()
+
+  if (!isValidCardNumber(number)) {
+    return { success: false, error: "Número do cartão inválido" }
+  }
+  if (!holderName) {
+    return { success: false, error: "Nome do titular obrigatório" }
+  }
+  if (
+    !Number.isInteger(expMonth) ||
+    expMonth < 1 ||
+    expMonth > 12 ||
+    new Date(Date.UTC(expYear, expMonth, 1)) <= now
+  ) {
+    return { success: false, error: "Cartão vencido ou validade inválida" }
+  }
+  if (!/^\d{3,4}$/.test(cvv)) {
+    return { success: false, error: "CVV inválido" }
+  }
+
+  const token: SimulatedCardToken = {
+    token: `tok_sim_${crypto.randomBytes(12).toString("hex")}`,
+    brand: detectCardBrand(number),
+    lastDigits: number.slice(-4),
+    holderName,
+    outcome: SIMULATOR_TEST_CARDS[number] || "approve",
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SIMULATOR_CARD_TOKEN_VALIDITY_MS).toISOString(),
+    usedAt: null,
+  }
+
+  await cardTokenStore.update((records) => {
+    // Remove tokens vencidos para o arquivo não crescer
+    for (const [key, record] of Object.entries(records)) {
+      if (new Date(record.expiresAt) <= now) delete records[key]
+    }
+    records[token.token] = token
+  })
+
+  log.info("Cartão tokenizado", { brand: token.brand, lastDigits: token.lastDigits })
+  return { success: true, token }
+}
+
+// Token de uso único: marcado como usado na primeira cobrança
+async function consumeCardToken(value: string): Promise<SimulatedCardToken | null> {
+  return cardTokenStore.update((records) => {
+    const current = records[value]
+    if (!current || current.usedAt || new Date(current.expiresAt) <= new Date()) return null
+
+    const used = { ...current, usedAt: new Date().toISOString() }
+    records[value] = used
+    return used
+  })
+}
+
+function getAuthenticationUrl(transactionId: string): string {
+  return `${getConfig().siteUrl}/api/simulator/card/3ds/${encodeURIComponent(transactionId)}`
+}
+
+/**
+ * Cobrança no cartão: aprovada ou recusada na hora, ou pendente de autenticação 3DS
+ */
+async function createCardCharge(
+  charge: SimulatedCharge,
+  card: NonNullable<CreateChargeParams["card"]>
+): Promise<CreateChargeResult> {
+  const token = await consumeCardToken(card.token)
+  if (!token) {
+    return { success: false, error: "INVALID_CARD_TOKEN", message: "Cartão não validado. Confira os dados e tente novamente." }
+  }
+
+  const now = new Date().toISOString()
+  const declineCode =
+    token.outcome === "decline" ? "card_declined" : token.outcome === "insufficient_funds" ? "insufficient_funds" : null
+  const status: ChargeStatus = declineCode ? "refused" : token.outcome === "authenticate" ? "pending" : "paid"
+
+  const stored: SimulatedCharge = {
+    ...charge,
+    status,
+    paidAt: status === "paid" ? now : null,
+    expiresAt:
+      status === "pending" ? new Date(Date.now() + SIMULATOR_3DS_VALIDITY_MS).toISOString() : charge.expiresAt,
+    card: {
+      brand: token.brand,
+      lastDigits: token.lastDigits,
+      installments: card.installments,
+      returnUrl: card.returnUrl,
+      declineCode,
+    },
+  }
+
+  await chargeStore.update((records) => {
+    records[stored.transactionId] = stored
+  })
+
+  log.info("Cobrança no cartão", {
+    transactionId: stored.transactionId,
+    status,
+    installments: card.installments,
+    declineCode,
+  })
+  return {
+    success: true,
+    transactionId: stored.transactionId,
+    status,
+    expiresAt: stored.expiresAt,
+    card: {
+      brand: token.brand,
+      lastDigits: token.lastDigits,
+      authenticationUrl: status === "pending" ? getAuthenticationUrl(stored.transactionId) : undefined,
+      declineCode: declineCode || undefined,
+      declineMessage: declineCode ? SIMULATOR_DECLINES[declineCode] : undefined,
+    },
+  }
+}
+
+/**
+ * Conclusão da autenticação 3DS na página simulada do emissor; o resultado
+ * chega à loja pelo webhook e o cliente volta para `returnUrl`
+ */
+export async function completeSimulatedAuthentication(
+  transactionId: string,
+  authenticated: boolean
+): Promise<{ success: boolean; charge?: SimulatedCharge; returnUrl?: string; error?: string }> {
+  let error: string | undefined
+
+  const charge = await chargeStore.update((records) => {
+    const current = records[transactionId]
+    if (!current || current.method !== "credit_card" || !current.card) return null
+
+    if (withCurrentStatus(current).status !== "pending") {
+      error = `Cobrança não está pendente (${withCurrentStatus(current).status})`
+      return current
+    }
+
+    const updated: SimulatedCharge = authenticated
+      ? { ...current, status: "paid", paidAt: new Date().toISOString() }
+      : { ...current, status: "refused", card: { ...current.card, declineCode: "authentication_failed" } }
+    records[transactionId] = updated
+    return updated
+  })
+
+  if (!charge?.card) {
+    return { success: false, error: "Cobrança não encontrada" }
+  }
+  if (error) {
+    return { success: false, charge, returnUrl: charge.card.returnUrl, error }
+  }
+
+  await sendWebhook(charge, "pix.received", charge.status)
+  return { success: true, charge, returnUrl: charge.card.returnUrl }
+}
+
+// ============================================
+// Provedor
+// ============================================
+
+export function createSimulatorProvider(): PaymentProvider {
+  return {
+    name: "simulator",
+    methods: ["pix", "boleto", "credit_card"],
+
+    async createCharge(params) {
+      const now = new Date()
+      const transactionId = `SIM-${now.getTime().toString(36).toUpperCase()}-${crypto
+        .randomBytes(3)
+        .toString("hex")
+        .toUpperCase()}`
+
+      const isBoleto = params.method === "boleto"
+      const dueDate = params.dueDate || getBoletoDueDate(3, now).dueDate
+      const barcode = isBoleto
+        ? buildBoletoBarcode({
+            bankCode: SIMULATOR_BANK_CODE,
+            amount: params.amount,
+            dueDate,
+            freeField: Array.from({ length: 25 }, () => crypto.randomInt(10)).join(""),
+          })
+        : null
+
+      const charge: SimulatedCharge = {
+        transactionId,
+        orderId: params.orderId,
+        method: params.method,
+        amount: params.amount,
+        status: "pending",
+        postbackUrl: params.postbackUrl,
+        customerName: params.customer.name,
+        customerDocument: params.customer.document.replace(/\D/g, ""),
+        qrCode: params.method === "pix" ? buildFakeEmv(transactionId, params.amount) : "",
+        barcode,
+        endToEndId: null,
+        createdAt: now.toISOString(),
+        expiresAt: isBoleto
+          ? endOfBrazilianDay(dueDate).toISOString()
+          : new Date(now.getTime() + SIMULATOR_PIX_VALIDITY_MS).toISOString(),
+        paidAt: null,
+        refundedAmount: 0,
+        split: params.split || null,
+      }
+
+      if (params.method === "credit_card") {
+        if (!params.card) {
+          return { success: false, error: "INVALID_CARD_TOKEN", message: "Dados do cartão não informados" }
+        }
+        return createCardCharge(charge, params.card)
+      }
+
+      await chargeStore.update((records) => {
+        records[transactionId] = charge
+      })
+
+      log.info("Cobrança criada", {
+        transactionId,
+        method: params.method,
+        amount: params.amount,
+        splitPercentage: params.split?.percentage,
+      })
+      return {
+        success: true,
+        transactionId,
+        qrCode: charge.qrCode || undefined,
+        // Sem PDF do gateway: a loja gera o boleto para impressão
+        boleto: barcode ? { barcode, digitableLine: getDigitableLine(barcode) } : undefined,
+        expiresAt: charge.expiresAt,
+      }
+    },
+
+    async getChargeStatus(transactionId) {
+      const charge = await getSimulatedCharge(transactionId)
+      if (!charge) {
+        return { success: false, transactionId, status: "pending", error: "NOT_FOUND" }
+      }
+      return {
+        success: true,
+        transactionId,
+        status: charge.status,
+        amount: charge.amount,
+        paidAt: charge.paidAt || undefined,
+      }
+    },
+
+    async refund(params) {
+      let error: string | undefined
+
+      const charge = await chargeStore.update((records) => {
+        const current = records[params.transactionId]
+        if (!current) return null
+
+        if (current.status !== "paid" && current.status !== "refunded") {
+          error = "Somente cobranças pagas podem ser estornadas"
+          return current
+        }
+        if (params.amount <= 0 || current.refundedAmount + params.amount > current.amount) {
+          error = "Valor de estorno inválido"
+          return current
+        }
+
+        const refundedAmount = current.refundedAmount + params.amount
+        const updated: SimulatedCharge = {
+          ...current,
+          refundedAmount,
+          status: refundedAmount >= current.amount ? "refunded" : current.status,
+        }
+        records[params.transactionId] = updated
+        return updated
+      })
+
+      if (!charge) {
+        return { success: false, error: "NOT_FOUND", message: "Cobrança não encontrada" }
+      }
+      if (error) {
+        return { success: false, error: "INVALID_REFUND", message: error }
+      }
+
+      // Como no gateway, a confirmação do envio chega depois da resposta
+      const transfer: SimulatedTransfer = {
+        transactionId: `${charge.transactionId}-R${Date.now().toString(36).toUpperCase()}`,
+        amount: params.amount,
+        pixKey: params.pixKey,
+        pixKeyType: params.pixKeyType,
+        externalId: params.refundId,
+      }
+      const deliver = () => sendWebhook(charge, "pix.sent", "completed", transfer).then(() => undefined)
+      try {
+        after(deliver)
+      } catch {
+        void deliver()
+      }
+
+      log.info("Estorno simulado", { transactionId: charge.transactionId, payoutId: transfer.transactionId })
+      return { success: true, payoutId: transfer.transactionId }
+    },
+
+    async parseWebhook(rawBody, headers) {
+      return parseTrexPayWebhook(rawBody, headers, [getSimulatorSecret()])
+    },
+
+    getCardHostedFields() {
+      return { url: `${getConfig().siteUrl}/api/simulator/card/fields` }
+    },
+  }
+}
@@ -0,0 +1,85 @@
+import { splitRules, type SplitRule } from "@/data/split-rules"
+import { getProductById } from "@/data/products"
+import { toCents } from "@/lib/pricing"
+import type { OrderItem, OrderSplit, OrderTotals } from "@/lib/orders"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Split da venda com parceiros e afiliados
+// Calculado na criação do pedido a partir de data/split-rules.ts;
+// o percentual vai para a TrexPay e o valor sai da comissão na UTMify
+// ============================================
+
+const log = createLogger("Payment Split")
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+function appliesToSource(rule: SplitRule, src: string | null | undefined): boolean {
+  if (!rule.srcCodes?.length) return true
+  return !!src && rule.srcCodes.some((code) => normalize(code) === normalize(src))
+}
+
+function appliesToItem(rule: SplitRule, item: OrderItem): boolean {
+  if (!rule.productIds?.length && !rule.brands?.length) return true
+  if (rule.productIds?.includes(item.productId)) return true
+
+  const brand = getProductById(item.productId)?.brand
+  return !!brand && !!rule.brands?.some((ruleBrand) => normalize(ruleBrand) === normalize(brand))
+}
+
+/**
+ * Calcula o split do pedido; null quando nenhuma regra se aplica
+ */
+export function resolveOrderSplit(params: {
+  items: OrderItem[]
+  totals: OrderTotals
+  src?: string | null
+  rules?: SplitRule[]
+}): OrderSplit | null {
+  const totalInCents = toCents(params.totals.total)
+  const subtotalInCents = toCents(params.totals.subtotal)
+  if (totalInCents <= 0 || subtotalInCents <= 0) return null
+
+  // O desconto do pedido reduz proporcionalmente a base de todos os itens
+  const discountFactor = Math.max(subtotalInCents - toCents(params.totals.discount), 0) / subtotalInCents
+
+  let recipientEmail: string | null = null
+  let amountInCents = 0
+  const ruleIds: string[] = []
+  const skippedRuleIds: string[] = []
+
+  for (const rule of params.rules || splitRules) {
+    if (!rule.active || rule.percentage <= 0 || !appliesToSource(rule, params.src)) continue
+
+    const baseInCents = params.items
+      .filter((item) => appliesToItem(rule, item))
+      .reduce((sum, item) => sum + toCents(item.unitPrice) * item.quantity, 0)
+    if (baseInCents <= 0) continue
+
+    // Um único recebedor por cobrança: vale o da primeira regra aplicável
+    if (recipientEmail && rule.recipientEmail !== recipientEmail) {
+      skippedRuleIds.push(rule.id)
+      continue
+    }
+
+    recipientEmail = rule.recipientEmail
+    amountInCents += Math.round((baseInCents * discountFactor * rule.percentage) / 100)
+    ruleIds.push(rule.id)
+  }
+
+  if (skippedRuleIds.length > 0) {
+    log.warn("Regras de outro recebedor ignoradas", { ruleIds: skippedRuleIds })
+  }
+  if (!recipientEmail || amountInCents <= 0) return null
+
+  // A TrexPay divide a cobrança inteira pelo percentual; o valor registrado segue o percentual arredondado
+  const percentage = Math.round((Math.min(amountInCents, totalInCents) / totalInCents) * 10000) / 100
+  return {
+    recipientEmail,
+    percentage,
+    amount: Math.round((totalInCents * percentage) / 100) / 100,
+    ruleIds,
+  }
+}
@@ -0,0 +1,268 @@
+import { getPaymentProvider, type ChargeStatusResult } from "@/lib/payment-provider"
+import {
+  isOrderOverdue,
+  listAwaitingBoletoOrders,
+  listOverdueOrders,
+  transitionOrder,
+  type Order,
+  type OrderCardPayment,
+} from "@/lib/orders"
+import { buildUtmfyOrder, queueUtmfyOrder } from "@/lib/utmfy"
+import { queueConversionEvent } from "@/lib/conversion-sinks"
+import { getOrderAttribution } from "@/lib/attribution-store"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Status de pagamento exibido ao cliente e vencimento do PIX e do boleto
+// Usado pela consulta de status e pelo stream de eventos do pedido.
+// A consulta ao gateway é o plano B para um webhook atrasado; pedidos
+// com o PIX vencido passam para "expired" e cartões recusados para
+// "refused" (ambos com o evento "refused" na UTMify)
+// ============================================
+
+const log = createLogger("Payment Status")
+
+export type CustomerPaymentStatus = "pending" | "paid" | "expired" | "cancelled" | "refused" | "refunded"
+
+// Intervalo mínimo entre consultas ao gateway para o mesmo pedido (stream de eventos)
+export const GATEWAY_CHECK_INTERVAL_MS = 30 * 1000
+// Boletos ficam dias em aberto, sem checkout consultando: o worker confere no gateway
+export const BOLETO_RECONCILE_INTERVAL_MS = 15 * 60 * 1000
+// Consultas mais antigas que isto saem do controle de intervalo
+const GATEWAY_CHECK_RETENTION_MS = 60 * 60 * 1000
+
+const lastGatewayCheck = new Map<string, number>()
+
+/**
+ * Mapeia o estado do pedido para o formato esperado pelo frontend
+ */
+export function mapOrderStatus(order: Order): CustomerPaymentStatus {
+  switch (order.status) {
+    case "paid":
+    case "shipped":
+    case "delivered":
+    // Estorno parcial: o pagamento continua valendo para o cliente
+    case "partially_refunded":
+      return "paid"
+    case "expired":
+      return "expired"
+    case "cancelled":
+      return "cancelled"
+    case "refused":
+      return "refused"
+    case "refunded":
+    // Chargeback: o valor voltou ao cliente pela operadora do cartão
+    case "chargedback":
+      return "refunded"
+    default:
+      return "pending"
+  }
+}
+
+/**
+ * Pedido ainda aguardando o pagamento (único caso em que o gateway é consultado)
+ */
+export function isOrderAwaitingPayment(order: Order): boolean {
+  return order.status === "created" || order.status === "waiting_payment"
+}
+
+/**
+ * Consulta a cobrança no gateway e registra no pedido uma mudança que o
+ * webhook ainda não trouxe
+ */
+export async function syncOrderWithGateway(
+  order: Order
+): Promise<{ order: Order; status: CustomerPaymentStatus; result: ChargeStatusResult | null }> {
+  const transactionId = order.payment.transactionId
+  if (!transactionId) {
+    return { order, status: mapOrderStatus(order), result: null }
+  }
+
+  lastGatewayCheck.set(order.id, Date.now())
+  log.debug("Consultando transação", { orderId: order.id, transactionId })
+
+  const result = await getPaymentProvider().getChargeStatus(transactionId)
+  if (!result.success) {
+    log.error("Erro ao consultar o gateway", { transactionId, error: result.error })
+    return { order, status: "pending", result }
+  }
+
+  const status: CustomerPaymentStatus =
+    result.status === "paid" || result.status === "expired" || result.status === "cancelled" || result.status === "refused"
+      ? result.status
+      : "pending"
+  if (status === "pending") {
+    return { order, status, result }
+  }
+
+  if (status === "expired") {
+    return { order: await expireOrder(order, "Consulta de status no gateway"), status, result }
+  }
+  if (status === "refused") {
+    return { order: await refuseOrder(order, "Consulta de status no gateway"), status, result }
+  }
+
+  // O webhook pode atrasar: o evento "paid" também sai daqui (o outbox garante envio único)
+  if (status === "paid") {
+    return { order: await markOrderPaid(order, "Consulta de status no gateway", result.paidAt), status, result }
+  }
+
+  const transition = await transitionOrder(order.id, status, { reason: "Consulta de status no gateway" })
+  return { order: transition.order || order, status, result }
+}
+
+/**
+ * Registra o pagamento confirmado e envia os eventos "paid" (UTMify) e Purchase
+ */
+export async function markOrderPaid(order: Order, reason: string, paidAt?: string): Promise<Order> {
+  const transition = await transitionOrder(order.id, "paid", {
+    reason,
+    payment: { paidAt: paidAt || new Date().toISOString() },
+  })
+  const updated = transition.order || order
+
+  if (transition.success) {
+    await queueUtmfyOrder(
+      buildUtmfyOrder(updated, "paid", {
+        approvedDate: updated.payment.paidAt,
+        trackingParams: await getOrderAttribution(updated),
+      })
+    )
+    await queueConversionEvent(updated, "Purchase", updated.payment.paidAt || undefined)
+  }
+  return updated
+}
+
+/**
+ * Mesma consulta, no máximo uma vez a cada `intervalMs` por pedido
+ * (compartilhado entre todas as conexões abertas para o pedido)
+ */
+export async function syncOrderWithGatewayThrottled(
+  order: Order,
+  intervalMs = GATEWAY_CHECK_INTERVAL_MS
+): Promise<Order> {
+  // Sem consulta anterior, conta a partir da última alteração do pedido (geração da cobrança)
+  const lastCheck = lastGatewayCheck.get(order.id) || new Date(order.updatedAt).getTime()
+  if (!isOrderAwaitingPayment(order) || Date.now() - lastCheck < intervalMs) {
+    return order
+  }
+
+  // Limpa consultas antigas para o mapa não crescer
+  for (const [orderId, checkedAt] of lastGatewayCheck) {
+    if (Date.now() - checkedAt > GATEWAY_CHECK_RETENTION_MS) lastGatewayCheck.delete(orderId)
+  }
+
+  const { order: updated } = await syncOrderWithGateway(order)
+  return updated
+}
+
+// ============================================
+// Vencimento do PIX
+// ============================================
+
+/**
+ * Marca o pedido como expirado e envia o evento "refused" da transação à UTMify
+ */
+export async function expireOrder(order: Order, reason: string): Promise<Order> {
+  const transition = await transitionOrder(order.id, "expired", { reason })
+  const updated = transition.order || order
+
+  if (transition.success) {
+    await queueUtmfyOrder(
+      buildUtmfyOrder(updated, "refused", {
+        trackingParams: await getOrderAttribution(updated),
+      })
+    )
+  }
+  return updated
+}
+
+/**
+ * Marca o pagamento no cartão como recusado e envia o evento "refused" à UTMify
+ */
+export async function refuseOrder(
+  order: Order,
+  reason: string,
+  decline?: Pick<OrderCardPayment, "declineCode" | "declineMessage">
+): Promise<Order> {
+  const transition = await transitionOrder(order.id, "refused", {
+    reason,
+    payment: decline && order.payment.card ? { card: { ...order.payment.card, ...decline } } : undefined,
+  })
+  const updated = transition.order || order
+
+  if (transition.success) {
+    await queueUtmfyOrder(
+      buildUtmfyOrder(updated, "refused", {
+        trackingParams: await getOrderAttribution(updated),
+      })
+    )
+  }
+  return updated
+}
+
+/**
+ * Expira o pedido com o PIX vencido, depois de confirmar no gateway que
+ * não houve pagamento. Um pagamento que chegue depois ainda é aceito
+ * (transição expired → paid)
+ */
+export async function expireIfOverdue(order: Order): Promise<Order> {
+  if (!isOrderOverdue(order)) return order
+
+  const sync = await syncOrderWithGateway(order)
+  if (!isOrderAwaitingPayment(sync.order)) return sync.order
+
+  const reason =
+    order.payment.method === "boleto"
+      ? "Boleto vencido"
+      : order.payment.method === "credit_card"
+        ? "Autenticação do cartão não concluída"
+        : "PIX vencido"
+  log.info(reason, { orderId: order.id, expiresAt: order.payment.expiresAt })
+  return expireOrder(sync.order, reason)
+}
+
+/**
+ * Expira todos os pedidos com o PIX vencido; devolve quantos foram expirados
+ */
+export async function expireOverdueOrders(): Promise<number> {
+  let expired = 0
+  for (const order of await listOverdueOrders()) {
+    try {
+      const updated = await expireIfOverdue(order)
+      if (updated.status === "expired") expired++
+    } catch (error) {
+      log.error("Erro ao expirar pedido", { orderId: order.id, error })
+    }
+  }
+  return expired
+}
+
+/**
+ * Confere no gateway os boletos em aberto (pagamento cujo webhook não chegou)
+ */
+export async function reconcileBoletoOrders(): Promise<void> {
+  for (const order of await listAwaitingBoletoOrders()) {
+    try {
+      await syncOrderWithGatewayThrottled(order, BOLETO_RECONCILE_INTERVAL_MS)
+    } catch (error) {
+      log.error("Erro ao conferir boleto", { orderId: order.id, error })
+    }
+  }
+}
+
+let expiryTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Inicia a verificação periódica de cobranças vencidas e de boletos em aberto
+ * (chamado em instrumentation.ts)
+ */
+export function startExpiryWorker(intervalMs = 60 * 1000): void {
+  if (expiryTimer) return
+  expiryTimer = setInterval(() => {
+    expireOverdueOrders()
+      .then(() => reconcileBoletoOrders())
+      .catch((error) => log.error("Erro no worker de vencimento", { error }))
+  }, intervalMs)
+  log.info("Worker de vencimento iniciado", { intervalMs })
+}
@@ -0,0 +1,152 @@
+import type { PaymentWebhookEvent } from "@/lib/payment-provider"
+import { buildUtmfyOrder, queueUtmfyOrder } from "@/lib/utmfy"
+import { queueConversionEvent } from "@/lib/conversion-sinks"
+import { getOrderByTransactionId, transitionOrder, type Order } from "@/lib/orders"
+import { getOrderAttribution } from "@/lib/attribution-store"
+import { expireOrder, refuseOrder } from "@/lib/payment-status"
+import { processRefundTransferEvent } from "@/lib/refunds"
+import { getWebhookEvent, markWebhookEvent, type WebhookEventRecord } from "@/lib/webhook-events"
+import { createLogger, runWithCorrelationId } from "@/lib/logger"
+
+// ============================================
+// Processamento dos webhooks de pagamento
+// Usado pela rota do webhook e pelo reprocessamento de eventos registrados
+// ============================================
+
+const log = createLogger("Payment Webhook")
+
+/**
+ * Aplica um evento de webhook já validado ao pedido correspondente
+ */
+export async function processPaymentWebhookEvent(event: PaymentWebhookEvent): Promise<void> {
+  // Envio PIX (PIX OUT): confirmação de um estorno
+  if (event.kind === "transfer") {
+    await processRefundTransferEvent(event)
+    return
+  }
+
+  const order = await getOrderByTransactionId(event.transactionId)
+  if (!order) {
+    log.warn("Pedido não encontrado para a transação", { transactionId: event.transactionId })
+    return
+  }
+
+  // Os logs do processamento usam o correlation id do checkout que criou o pedido
+  if (order.correlationId) {
+    await runWithCorrelationId(order.correlationId, () => applyChargeEvent(order, event))
+  } else {
+    await applyChargeEvent(order, event)
+  }
+}
+
+async function applyChargeEvent(order: Order, pixData: PaymentWebhookEvent): Promise<void> {
+  log.info("PIX recebido", {
+    orderId: order.id,
+    transactionId: pixData.transactionId,
+    status: pixData.status,
+    amount: pixData.amount,
+  })
+
+  // Cobrança substituída por um novo PIX: só um pagamento ainda interessa ao pedido
+  if (pixData.transactionId !== order.payment.transactionId && pixData.status !== "paid") {
+    log.info("Evento de cobrança anterior ignorado", { orderId: order.id, transactionId: pixData.transactionId })
+    return
+  }
+
+  if (pixData.status === "paid") {
+    const transition = await transitionOrder(order.id, "paid", {
+      reason: "Webhook pix.received",
+      payment: { paidAt: pixData.paidAt || new Date().toISOString(), payerDocument: pixData.payerDocument || null },
+    })
+    const paidOrder = transition.order || order
+
+    // Pagamento para um pedido que não pode mais ser pago (cancelado, recusado, estornado):
+    // não é uma venda; fica registrado no log para conciliação manual.
+    // Na repetição do webhook o pedido já está "paid" e o evento é reenfileirado (deduplicado no outbox)
+    if (!transition.success && paidOrder.status !== "paid") {
+      log.warn("Pagamento recebido para pedido que não aguarda pagamento", {
+        orderId: order.id,
+        transactionId: pixData.transactionId,
+        status: paidOrder.status,
+        amount: pixData.amount,
+      })
+      return
+    }
+
+    // Evento "paid" montado a partir do pedido salvo (mesmos produtos e cliente do waiting_payment)
+    // Se o outbox falhar, o erro sobe e o webhook é marcado como "failed" para nova tentativa
+    await queueUtmfyOrder(
+      buildUtmfyOrder(paidOrder, "paid", {
+        approvedDate: paidOrder.payment.paidAt || pixData.paidAt || new Date().toISOString(),
+        trackingParams: await getOrderAttribution(paidOrder),
+      })
+    )
+    await queueConversionEvent(paidOrder, "Purchase", paidOrder.payment.paidAt || undefined)
+  } else if (pixData.status === "expired") {
+    await expireOrder(order, "Webhook pix.received")
+  } else if (pixData.status === "cancelled") {
+    await transitionOrder(order.id, "cancelled", { reason: "Webhook pix.received" })
+  } else if (pixData.status === "refused") {
+    // Cartão recusado depois da criação (ex.: autenticação 3DS não concluída)
+    await refuseOrder(order, "Webhook pix.received")
+  } else if (pixData.status === "chargedback") {
+    await applyChargeback(order)
+  }
+}
+
+/**
+ * Contestação do pagamento no cartão: o pedido passa para "chargedback" e a
+ * UTMify recebe o evento correspondente (também na repetição do webhook)
+ */
+async function applyChargeback(order: Order): Promise<void> {
+  const transition = await transitionOrder(order.id, "chargedback", { reason: "Chargeback (webhook pix.received)" })
+  const chargedbackOrder = transition.order || order
+  // Contestação de um pedido que não foi pago (ou já estornado): nada a reverter na UTMify
+  if (chargedbackOrder.status !== "chargedback") {
+    log.warn("Chargeback recebido para pedido que não pode ser contestado", {
+      orderId: order.id,
+      transactionId: order.payment.transactionId,
+      status: chargedbackOrder.status,
+    })
+    return
+  }
+
+  log.warn("Chargeback recebido", { orderId: order.id, transactionId: order.payment.transactionId })
+  const chargedbackAt =
+    [...chargedbackOrder.history].reverse().find((change) => change.to === "chargedback")?.at || new Date().toISOString()
+  await queueUtmfyOrder(
+    buildUtmfyOrder(chargedbackOrder, "chargedback", {
+      approvedDate: chargedbackOrder.payment.paidAt,
+      refundedAt: chargedbackAt,
+      trackingParams: await getOrderAttribution(chargedbackOrder),
+    })
+  )
+}
+
+/**
+ * Reprocessa um evento registrado (ex.: após a correção de um bug),
+ * ignorando a deduplicação
+ */
+export async function replayWebhookEvent(
+  id: string
+): Promise<{ success: boolean; record?: WebhookEventRecord; error?: string }> {
+  const record = await getWebhookEvent(id)
+  if (!record) {
+    return { success: false, error: "Evento não encontrado" }
+  }
+  if (!record.event) {
+    return { success: false, record, error: "Evento sem dados válidos para reprocessar" }
+  }
+
+  log.info("Reprocessando evento", { eventId: id })
+
+  try {
+    await processPaymentWebhookEvent(record.event)
+    const updated = await markWebhookEvent(id, "processed")
+    return { success: true, record: updated || record }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Erro desconhecido"
+    const updated = await markWebhookEvent(id, "failed", message)
+    return { success: false, record: updated || record, error: message }
+  }
+}
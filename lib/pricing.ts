@@ -0,0 +1,45 @@
+// ============================================
+// Cálculo de valores do pedido
+// Compartilhado entre o carrinho (cliente) e a criação do PIX (servidor)
+// ============================================
+
+export interface PriceBreakdown {
+  subtotal: number
+  discount: number
+  shipping: number
+  total: number
+}
+
+export interface PricedItem {
+  productId: string
+  name: string
+  unitPrice: number
+  quantity: number
+}
+
+// Converte valor em reais para centavos
+export function toCents(value: number): number {
+  return Math.round(value * 100)
+}
+
+/**
+ * Calcula subtotal, desconto, frete e total em centavos para evitar
+ * diferenças de arredondamento entre o cliente e o servidor
+ */
+export function calculateBreakdown(params: {
+  subtotal: number
+  discount: number
+  shippingPrice: number
+  freeShipping?: boolean
+}): PriceBreakdown {
+  const subtotalCents = toCents(params.subtotal)
+  const discountCents = Math.min(toCents(params.discount), subtotalCents)
+  const shippingCents = params.freeShipping ? 0 : toCents(params.shippingPrice)
+
+  return {
+    subtotal: subtotalCents / 100,
+    discount: discountCents / 100,
+    shipping: shippingCents / 100,
+    total: (subtotalCents - discountCents + shippingCents) / 100,
+  }
+}
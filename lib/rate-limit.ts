@@ -0,0 +1,194 @@
+import crypto from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Limite de requisições (janela fixa)
+// Protege as rotas que geram cobranças e consultam o gateway. Os
+// contadores ficam em um RateLimitStore: "memory" (padrão, por processo)
+// ou "file"; um KV compartilhado pode ser adicionado implementando a interface
+// ============================================
+
+const log = createLogger("Rate Limit")
+
+export interface RateLimitStore {
+  name: string
+  /**
+   * Incrementa o contador da chave e devolve o total na janela atual
+   */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>
+}
+
+interface RateLimitCounter {
+  count: number
+  resetAt: number
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, RateLimitCounter>()
+
+  return {
+    name: "memory",
+    async increment(key, windowMs) {
+      const now = Date.now()
+      // Descarta janelas vencidas de tempos em tempos para o mapa não crescer
+      if (counters.size > 10000) {
+        for (const [existingKey, counter] of counters) {
+          if (counter.resetAt <= now) counters.delete(existingKey)
+        }
+      }
+
+      const current = counters.get(key)
+      const counter = current && current.resetAt > now ? current : { count: 0, resetAt: now + windowMs }
+      counter.count++
+      counters.set(key, counter)
+      return { ...counter }
+    },
+  }
+}
+
+export function createFileRateLimitStore(fileName = "rate-limit.json"): RateLimitStore {
+  const store = createJsonFileStore<RateLimitCounter>(fileName)
+
+  return {
+    name: "file",
+    increment(key, windowMs) {
+      return store.update((counters) => {
+        const now = Date.now()
+        for (const [existingKey, counter] of Object.entries(counters)) {
+          if (counter.resetAt <= now) delete counters[existingKey]
+        }
+        const counter = counters[key] || { count: 0, resetAt: now + windowMs }
+        counter.count++
+        counters[key] = counter
+        return { ...counter }
+      })
+    },
+  }
+}
+
+const stores: Record<string, () => RateLimitStore> = {
+  memory: createMemoryRateLimitStore,
+  file: () => createFileRateLimitStore(),
+}
+
+let rateLimitStore: RateLimitStore | null = null
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    const name = getConfig().rateLimit.store
+    rateLimitStore = (stores[name] || stores.memory)()
+  }
+  return rateLimitStore
+}
+
+// ============================================
+// Regras
+// ============================================
+
+export type RateLimitRule = "pix_create_ip" | "pix_create_cpf" | "pix_status_ip" | "admin_login_ip"
+
+const RULE_WINDOWS_SECONDS: Record<RateLimitRule, number> = {
+  pix_create_ip: 10 * 60,
+  pix_create_cpf: 60 * 60,
+  pix_status_ip: 60,
+  admin_login_ip: 15 * 60,
+}
+
+function getRuleLimit(rule: RateLimitRule): number {
+  const { pixCreatePerIp, pixCreatePerCpf, pixStatusPerIp, adminLoginPerIp } = getConfig().rateLimit
+  const limits: Record<RateLimitRule, number> = {
+    pix_create_ip: pixCreatePerIp,
+    pix_create_cpf: pixCreatePerCpf,
+    pix_status_ip: pixStatusPerIp,
+    admin_login_ip: adminLoginPerIp,
+  }
+  return limits[rule]
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  retryAfterSeconds: number
+}
+
+/**
+ * IP do cliente. Cada proxy acrescenta o endereço de quem o chamou ao fim do
+ * x-forwarded-for; o início da lista vem do próprio cliente e não é confiável,
+ * então o IP é lido a partir do fim, pulando os proxies confiáveis
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const hops = getConfig().rateLimit.trustedProxyHops
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  if (hops > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)]
+  }
+  return request.headers.get("x-real-ip") || null
+}
+
+/**
+ * Conta uma tentativa da regra para o identificador (IP, CPF...).
+ * O identificador é gravado como hash para não guardar dados do cliente
+ */
+export async function checkRateLimit(rule: RateLimitRule, identifier: string): Promise<RateLimitResult> {
+  const limit = getRuleLimit(rule)
+  if (!getConfig().rateLimit.enabled) {
+    return { allowed: true, limit, remaining: limit, retryAfterSeconds: 0 }
+  }
+
+  const hashedIdentifier = crypto.createHash("sha256").update(identifier).digest("hex").slice(0, 32)
+  const windowMs = RULE_WINDOWS_SECONDS[rule] * 1000
+
+  try {
+    const { count, resetAt } = await getRateLimitStore().increment(`${rule}:${hashedIdentifier}`, windowMs)
+    const allowed = count <= limit
+    if (!allowed) {
+      log.warn("Limite excedido", { rule, count, limit })
+    }
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - count),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+    }
+  } catch (error) {
+    // Falha no armazenamento não pode derrubar o checkout
+    log.error("Erro ao consultar o limite", { rule, error })
+    return { allowed: true, limit, remaining: limit, retryAfterSeconds: 0 }
+  }
+}
+
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return "em alguns segundos"
+  const minutes = Math.ceil(seconds / 60)
+  return minutes === 1 ? "em 1 minuto" : `em ${minutes} minutos`
+}
+
+/**
+ * Resposta 429 com Retry-After; o checkout usa o campo retryAfter para
+ * liberar o botão novamente
+ */
+export function rateLimitResponse(result: RateLimitResult) {
+  return NextResponse.json(
+    {
+      error: `Muitas tentativas. Tente novamente ${formatRetryAfter(result.retryAfterSeconds)}.`,
+      code: "RATE_LIMITED",
+      retryAfter: result.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(result.retryAfterSeconds),
+        "X-RateLimit-Limit": String(result.limit),
+        "X-RateLimit-Remaining": String(result.remaining),
+      },
+    }
+  )
+}
@@ -0,0 +1,323 @@
+import { getPaymentProvider, type PaymentWebhookEvent, type PixKeyType } from "@/lib/payment-provider"
+import {
+  getOrderByRefundId,
+  getOrderByRefundPayoutId,
+  transitionOrder,
+  type Order,
+  type OrderRefund,
+  type OrderStatus,
+} from "@/lib/orders"
+import { getOrderRepository } from "@/lib/order-repository"
+import { buildUtmfyOrder, queueUtmfyOrder } from "@/lib/utmfy"
+import { getOrderAttribution } from "@/lib/attribution-store"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Estornos de pedidos pagos
+// Solicitados pela área administrativa. O valor volta ao cliente por um
+// envio PIX (PIX OUT) e o pedido só passa para "partially_refunded" ou
+// "refunded" quando o webhook pix.sent confirma o envio. O estorno
+// total gera o evento "refunded" na UTMify. O id do estorno vai ao gateway
+// como external_id, então o pix.sent é associado mesmo sem payoutId gravado
+// ============================================
+
+const log = createLogger("Refunds")
+
+const REFUNDABLE_STATUSES: OrderStatus[] = ["paid", "shipped", "delivered", "partially_refunded"]
+
+// Status do webhook pix.sent (comparados em minúsculas)
+const TRANSFER_COMPLETED_STATUSES = ["completed", "paid", "success", "approved"]
+const TRANSFER_FAILED_STATUSES = ["failed", "error", "cancelled", "canceled", "refused", "rejected"]
+
+// Tempo máximo entre a solicitação ao gateway e a gravação do payoutId;
+// um pix.sent sem estorno correspondente nesse intervalo é reprocessado
+const REFUND_PAYOUT_PENDING_MS = 10 * 60 * 1000
+
+export type RefundErrorCode = "NOT_FOUND" | "NOT_REFUNDABLE" | "INVALID_AMOUNT" | "GATEWAY_ERROR"
+
+export interface RequestRefundResult {
+  success: boolean
+  order?: Order
+  refund?: OrderRefund
+  error?: RefundErrorCode
+  message?: string
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function generateRefundId(): string {
+  const timestamp = Date.now().toString(36).toUpperCase()
+  const random = Math.random().toString(36).substring(2, 6).toUpperCase()
+  return `EST-${timestamp}-${random}`
+}
+
+/**
+ * Valor já devolvido ao cliente (estornos confirmados)
+ */
+export function getRefundedAmount(order: Order): number {
+  const completed = (order.refunds || []).filter((refund) => refund.status === "completed")
+  return roundAmount(completed.reduce((sum, refund) => sum + refund.amount, 0))
+}
+
+/**
+ * Valor que ainda pode ser estornado: estornos em andamento já reservam a sua parte
+ */
+export function getRefundableAmount(order: Order): number {
+  const committed = (order.refunds || []).filter((refund) => refund.status !== "failed")
+  return roundAmount(order.totals.total - committed.reduce((sum, refund) => sum + refund.amount, 0))
+}
+
+/**
+ * Resumo dos estornos do pedido devolvido pela área administrativa
+ */
+export function getRefundSummary(order: Order) {
+  return {
+    orderId: order.id,
+    status: order.status,
+    total: order.totals.total,
+    refundedAmount: getRefundedAmount(order),
+    refundableAmount: REFUNDABLE_STATUSES.includes(order.status) ? getRefundableAmount(order) : 0,
+    refunds: order.refunds || [],
+  }
+}
+
+/**
+ * Destino do estorno: documento de quem pagou ou, sem ele, o CPF do pedido
+ */
+function getRefundDestination(order: Order): { pixKey: string; pixKeyType: PixKeyType } {
+  const document = (order.payment.payerDocument || order.customer.cpf).replace(/\D/g, "")
+  return { pixKey: document, pixKeyType: document.length === 14 ? "cnpj" : "cpf" }
+}
+
+function updateRefund(orderId: string, refundId: string, changes: Partial<OrderRefund>): Promise<Order | null> {
+  return getOrderRepository().update(orderId, (current) => ({
+    ...current,
+    refunds: (current.refunds || []).map((refund) => (refund.id === refundId ? { ...refund, ...changes } : refund)),
+    updatedAt: new Date().toISOString(),
+  }))
+}
+
+/**
+ * Solicita o estorno (total quando `amount` não é informado) e envia o PIX ao cliente
+ * O valor fica reservado no pedido antes da chamada ao gateway, para que dois
+ * pedidos de estorno simultâneos não ultrapassem o total pago
+ */
+export async function requestRefund(
+  orderId: string,
+  options: { amount?: number; reason?: string } = {}
+): Promise<RequestRefundResult> {
+  let error: RefundErrorCode | undefined
+  let message: string | undefined
+  let refund: OrderRefund | undefined
+
+  const order = await getOrderRepository().update(orderId, (current) => {
+    if (!REFUNDABLE_STATUSES.includes(current.status) || !current.payment.transactionId) {
+      error = "NOT_REFUNDABLE"
+      message = `Pedido no estado "${current.status}" não pode ser estornado`
+      return current
+    }
+    // O envio PIX só devolve pagamentos feitos por PIX ou boleto; no cartão, o estorno é o cancelamento da transação
+    if (current.payment.method === "credit_card") {
+      error = "NOT_REFUNDABLE"
+      message = "Pagamentos no cartão são estornados pelo cancelamento da transação no gateway"
+      return current
+    }
+
+    const available = getRefundableAmount(current)
+    const amount = roundAmount(options.amount ?? available)
+    if (!(amount > 0) || amount > available) {
+      error = "INVALID_AMOUNT"
+      message = `Valor inválido: disponível para estorno R$ ${available.toFixed(2)}`
+      return current
+    }
+
+    const now = new Date().toISOString()
+    refund = {
+      id: generateRefundId(),
+      amount,
+      reason: options.reason || null,
+      status: "pending",
+      payoutId: null,
+      endToEndId: null,
+      error: null,
+      requestedAt: now,
+      completedAt: null,
+    }
+    return { ...current, refunds: [...(current.refunds || []), refund], updatedAt: now }
+  })
+
+  if (!order) {
+    return { success: false, error: "NOT_FOUND", message: "Pedido não encontrado" }
+  }
+  if (error || !refund) {
+    log.warn("Estorno recusado", { orderId, error, message })
+    return { success: false, order, error, message }
+  }
+
+  const paymentProvider = getPaymentProvider()
+  log.info("Solicitando estorno", { orderId, refundId: refund.id, amount: refund.amount })
+
+  const result = await paymentProvider.refund({
+    transactionId: order.payment.transactionId!,
+    refundId: refund.id,
+    amount: refund.amount,
+    ...getRefundDestination(order),
+    postbackUrl: `${getConfig().siteUrl}/api/webhook/trexpay`,
+    reason: refund.reason || undefined,
+  })
+
+  // Sem recusa definitiva o PIX pode ter saído: o estorno fica pendente, com o
+  // valor reservado, até o pix.sent (associado pelo external_id) resolvê-lo
+  if (!result.success && result.unconfirmed) {
+    log.error("Envio do estorno sem confirmação do gateway", {
+      orderId,
+      refundId: refund.id,
+      provider: paymentProvider.name,
+      error: result.error,
+      message: result.message,
+    })
+    const unconfirmed =
+      (await updateRefund(orderId, refund.id, { error: result.message || result.error || "Envio não confirmado" })) || order
+    return {
+      success: true,
+      order: unconfirmed,
+      refund: unconfirmed.refunds?.find((item) => item.id === refund!.id),
+      message: "Envio não confirmado pelo gateway; o estorno segue pendente até o retorno do webhook",
+    }
+  }
+
+  if (!result.success) {
+    log.error("Erro no gateway", {
+      orderId,
+      refundId: refund.id,
+      provider: paymentProvider.name,
+      error: result.error,
+      message: result.message,
+    })
+    const failed = await updateRefund(orderId, refund.id, {
+      status: "failed",
+      error: result.message || result.error || "Erro no gateway",
+    })
+    return {
+      success: false,
+      order: failed || order,
+      refund: failed?.refunds?.find((item) => item.id === refund!.id),
+      error: "GATEWAY_ERROR",
+      message: result.message || "Não foi possível enviar o estorno",
+    }
+  }
+
+  const updated = (await updateRefund(orderId, refund.id, { payoutId: result.payoutId || null })) || order
+  return {
+    success: true,
+    order: updated,
+    refund: updated.refunds?.find((item) => item.id === refund!.id),
+  }
+}
+
+/**
+ * Há estorno enviado ao gateway há pouco tempo e ainda sem payoutId gravado
+ */
+async function hasRefundAwaitingPayoutId(now = Date.now()): Promise<boolean> {
+  const orders = await getOrderRepository().list()
+  return orders.some((order) =>
+    (order.refunds || []).some(
+      (refund) =>
+        refund.status === "pending" &&
+        !refund.payoutId &&
+        now - new Date(refund.requestedAt).getTime() < REFUND_PAYOUT_PENDING_MS
+    )
+  )
+}
+
+/**
+ * Estorno do envio: pelo payoutId ou, quando ele não foi gravado, pelo external_id
+ */
+async function findTransferRefund(event: PaymentWebhookEvent): Promise<{ order: Order; refund: OrderRefund } | null> {
+  const byPayout = await getOrderByRefundPayoutId(event.transactionId)
+  const refund = byPayout?.refunds?.find((item) => item.payoutId === event.transactionId)
+  if (byPayout && refund) return { order: byPayout, refund }
+
+  if (!event.externalId) return null
+  const byRefundId = await getOrderByRefundId(event.externalId)
+  const referenced = byRefundId?.refunds?.find((item) => item.id === event.externalId)
+  // Um external_id que já aponta para outro envio não é deste estorno
+  if (!byRefundId || !referenced || (referenced.payoutId && referenced.payoutId !== event.transactionId)) return null
+
+  if (referenced.payoutId) return { order: byRefundId, refund: referenced }
+  log.info("Envio associado ao estorno pelo external_id", { orderId: byRefundId.id, refundId: referenced.id })
+  const updated = (await updateRefund(byRefundId.id, referenced.id, { payoutId: event.transactionId })) || byRefundId
+  return { order: updated, refund: { ...referenced, payoutId: event.transactionId } }
+}
+
+/**
+ * Aplica o webhook pix.sent ao estorno correspondente
+ */
+export async function processRefundTransferEvent(event: PaymentWebhookEvent): Promise<void> {
+  const match = await findTransferRefund(event)
+  if (!match) {
+    // O webhook pode chegar antes da gravação do payoutId: o erro marca o evento
+    // como "failed" e o gateway reenvia (ou o evento é reprocessado pela área interna)
+    if (await hasRefundAwaitingPayoutId()) {
+      throw new Error(`Envio ${event.transactionId} sem estorno correspondente enquanto há estorno aguardando o gateway`)
+    }
+    // Saques feitos fora da loja também geram pix.sent
+    log.warn("Envio PIX sem estorno correspondente", { payoutId: event.transactionId, status: event.status })
+    return
+  }
+  const { order, refund } = match
+
+  if (refund.status !== "pending") {
+    log.info("Estorno já finalizado", { orderId: order.id, refundId: refund.id, status: refund.status })
+    return
+  }
+
+  const status = event.status.toLowerCase()
+
+  if (TRANSFER_FAILED_STATUSES.includes(status)) {
+    log.error("Envio do estorno falhou", { orderId: order.id, refundId: refund.id, status: event.status })
+    await updateRefund(order.id, refund.id, { status: "failed", error: `Envio PIX ${event.status}` })
+    return
+  }
+
+  if (!TRANSFER_COMPLETED_STATUSES.includes(status)) {
+    log.info("Envio do estorno em andamento", { orderId: order.id, refundId: refund.id, status: event.status })
+    return
+  }
+
+  if (event.amount && roundAmount(event.amount) !== refund.amount) {
+    log.warn("Valor enviado difere do estorno", { orderId: order.id, refundId: refund.id, amount: event.amount })
+  }
+
+  const completedAt = event.completedAt || new Date().toISOString()
+  const completed =
+    (await updateRefund(order.id, refund.id, {
+      status: "completed",
+      completedAt,
+      endToEndId: event.endToEndId || null,
+      error: null,
+    })) || order
+
+  log.info("Estorno confirmado", { orderId: order.id, refundId: refund.id, amount: refund.amount })
+
+  const fullyRefunded = getRefundedAmount(completed) >= completed.totals.total
+  // Um novo estorno parcial mantém "partially_refunded" (transição ignorada)
+  const transition = await transitionOrder(order.id, fullyRefunded ? "refunded" : "partially_refunded", {
+    reason: `Estorno ${refund.id} confirmado`,
+  })
+  const updated = transition.order || completed
+
+  // A UTMify não tem estorno parcial: o evento sai quando o pedido é estornado por completo
+  if (transition.success && updated.status === "refunded") {
+    await queueUtmfyOrder(
+      buildUtmfyOrder(updated, "refunded", {
+        approvedDate: updated.payment.paidAt,
+        refundedAt: completedAt,
+        trackingParams: await getOrderAttribution(updated),
+      })
+    )
+  }
+}
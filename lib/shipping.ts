@@ -0,0 +1,119 @@
+import type { PackageDimensions, ShippingOption } from "@/types"
+import { getProductById } from "@/data/products"
+import { getStateByCep, stateRegions } from "@/data/cep-ranges"
+import { SHIPPING_ORIGIN_CEP, shippingServices, type ShippingZone } from "@/data/shipping-rates"
+import { toCents } from "@/lib/pricing"
+import { checkDeliveryCoverage } from "@/lib/cep"
+
+// ============================================
+// Cotação de frete
+// Peso real x peso cúbico por item, tabela por serviço e zona de destino
+// ============================================
+
+// Embalagem usada quando o produto não informa peso/dimensões
+const DEFAULT_WEIGHT_GRAMS = 300
+const DEFAULT_DIMENSIONS: PackageDimensions = { length: 20, width: 15, height: 5 }
+
+// Fator de cubagem dos Correios (cm³ por kg)
+const CUBIC_FACTOR = 6000
+
+export interface ShippingQuoteItem {
+  id: string
+  quantity: number
+}
+
+/**
+ * Define a zona de entrega a partir do estado de origem e de destino
+ */
+function getZone(originState: string, destinationState: string): ShippingZone {
+  if (originState === destinationState) return "local"
+
+  const originRegion = stateRegions[originState]
+  const destinationRegion = stateRegions[destinationState]
+  if (originRegion === destinationRegion) return "regional"
+  if (originRegion === "norte" || destinationRegion === "norte") return "remote"
+  return "national"
+}
+
+/**
+ * Peso cobrado em kg: maior valor entre peso real e peso cúbico, somado por item
+ */
+function getBillableWeight(items: { weight: number; dimensions: PackageDimensions; quantity: number }[]): number {
+  return items.reduce((sum, item) => {
+    const realWeight = item.weight / 1000
+    const cubicWeight = (item.dimensions.length * item.dimensions.width * item.dimensions.height) / CUBIC_FACTOR
+    return sum + Math.max(realWeight, cubicWeight) * item.quantity
+  }, 0)
+}
+
+function formatDays(minDays: number, maxDays: number): string {
+  if (minDays === maxDays) {
+    return minDays === 1 ? "1 dia útil" : `${minDays} dias úteis`
+  }
+  return `${minDays}-${maxDays} dias úteis`
+}
+
+/**
+ * Calcula as opções de frete disponíveis para o CEP de destino
+ */
+export function quoteShipping(params: { cep: string; items: ShippingQuoteItem[] }): {
+  success: boolean
+  options?: ShippingOption[]
+  error?: string
+} {
+  const destinationState = getStateByCep(params.cep)
+  const originState = getStateByCep(SHIPPING_ORIGIN_CEP)
+
+  if (!destinationState || !originState) {
+    return { success: false, error: "CEP inválido" }
+  }
+
+  const coverage = checkDeliveryCoverage(params.cep)
+  if (!coverage.deliverable) {
+    return { success: false, error: coverage.message }
+  }
+
+  const packages: { weight: number; dimensions: PackageDimensions; quantity: number }[] = []
+  let subtotalCents = 0
+
+  for (const item of params.items) {
+    const product = getProductById(String(item.id))
+    const quantity = Math.floor(Number(item.quantity))
+    if (!product || !Number.isFinite(quantity) || quantity <= 0) {
+      return { success: false, error: `Produto inválido: ${item.id}` }
+    }
+
+    packages.push({
+      weight: product.weight || DEFAULT_WEIGHT_GRAMS,
+      dimensions: product.dimensions || DEFAULT_DIMENSIONS,
+      quantity,
+    })
+    subtotalCents += toCents(product.price || 0) * quantity
+  }
+
+  if (packages.length === 0) {
+    return { success: false, error: "Nenhum item para cotar" }
+  }
+
+  const zone = getZone(originState, destinationState)
+  const extraKg = Math.max(0, Math.ceil(getBillableWeight(packages)) - 1)
+
+  const options: ShippingOption[] = []
+  for (const service of shippingServices) {
+    const rate = service.rates[zone]
+    if (!rate) continue
+
+    const isFree =
+      service.freeShippingMinSubtotal !== undefined && subtotalCents >= toCents(service.freeShippingMinSubtotal)
+    const priceCents = isFree ? 0 : toCents(rate.basePrice) + toCents(rate.pricePerExtraKg) * extraKg
+
+    options.push({
+      id: service.id,
+      name: service.name,
+      price: priceCents / 100,
+      days: formatDays(rate.minDays, rate.maxDays),
+    })
+  }
+
+  return { success: true, options }
+}
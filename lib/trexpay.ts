@@ -1,4 +1,14 @@
-import crypto from "crypto"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+import { verifyWebhookRequest } from "@/lib/webhook-signature"
+import type {
+  ChargeStatus,
+  CreateChargeParams,
+  ParseWebhookResult,
+  PaymentMethod,
+  PaymentProvider,
+  PixKeyType,
+} from "@/lib/payment-provider"
 
 // ============================================
 // TrexPay API Integration
@@ -7,6 +17,8 @@ import crypto from "crypto"
 
 const TREXPAY_BASE_URL = "https://app.trexpay.com.br"
 
+const log = createLogger("TrexPay")
+
 // Tipos para requisições e respostas
 export interface TrexPayDepositRequest {
   token: string
@@ -17,7 +29,18 @@ export interface TrexPayDepositRequest {
   email: string
   debtor_document_number: string
   phone: string
-  method_pay: "pix"
+  method_pay: "pix" | "boleto"
+  // Boleto: vencimento (AAAA-MM-DD) e endereço do pagador para o registro
+  due_date?: string
+  debtor_address?: {
+    zip_code: string
+    street: string
+    number: string
+    neighborhood: string
+    city: string
+    state: string
+  }
+  external_id?: string
   src?: string
   sck?: string
   utm_source?: string
@@ -40,6 +63,10 @@ export interface TrexPayDepositResponse {
   pix_key?: string
   expiresAt?: string
   expires_at?: string
+  // Boleto
+  digitableLine?: string
+  barcode?: string
+  boletoUrl?: string
   error?: string
   message?: string
 }
@@ -57,6 +84,27 @@ export interface TrexPayStatusResponse {
   error?: string
 }
 
+export interface TrexPayWithdrawRequest {
+  token: string
+  secret: string
+  postback: string
+  amount: number
+  pixKey: string
+  pixKeyType: PixKeyType
+  external_id?: string
+  description?: string
+}
+
+export interface TrexPayWithdrawResponse {
+  success: boolean
+  idTransaction?: string
+  status?: string
+  // Sem recusa definitiva: o PIX pode ter sido enviado
+  unconfirmed?: boolean
+  error?: string
+  message?: string
+}
+
 export interface TrexPayWebhookPayload {
   event: "pix.received" | "pix.sent"
   data: {
@@ -72,6 +120,8 @@ export interface TrexPayWebhookPayload {
     }
     pixKey?: string
     pixKeyType?: string
+    // Referência informada no saque (external_id)
+    external_id?: string
     metadata: {
       endToEndId: string
       txid: string
@@ -85,38 +135,11 @@ export interface TrexPayWebhookPayload {
 // ============================================
 
 /**
- * Verifica a assinatura do webhook da TrexPay
- * A assinatura deve estar no formato: sha256=<hex_hash>
+ * Segredos aceitos nos webhooks: TREXPAY_WEBHOOK_SECRET (ou TREXPAY_SECRET)
+ * e, durante a troca de chaves, TREXPAY_WEBHOOK_SECRET_PREVIOUS
  */
-export function verifyWebhookSignature(
-  payload: object,
-  signature: string,
-  secret: string
-): boolean {
-  try {
-    // Gera a assinatura esperada usando HMAC SHA256
-    const expectedSignature =
-      "sha256=" +
-      crypto
-        .createHmac("sha256", secret)
-        .update(JSON.stringify(payload))
-        .digest("hex")
-
-    // Verifica se as assinaturas têm o mesmo tamanho antes de comparar
-    // (timingSafeEqual requer buffers de mesmo tamanho)
-    const signatureBuffer = Buffer.from(signature)
-    const expectedBuffer = Buffer.from(expectedSignature)
-
-    if (signatureBuffer.length !== expectedBuffer.length) {
-      console.error("[TrexPay] Assinatura com tamanho diferente do esperado")
-      return false
-    }
-
-    return crypto.timingSafeEqual(signatureBuffer, expectedBuffer)
-  } catch (error) {
-    console.error("[TrexPay] Erro ao verificar assinatura:", error)
-    return false
-  }
+export function getTrexPayWebhookSecrets(): string[] {
+  return getConfig().trexpay.webhookSecrets
 }
 
 /**
@@ -142,15 +165,20 @@ function formatPhone(phone: string): string {
 // ============================================
 
 /**
- * Cria um depósito PIX na TrexPay
+ * Cria um depósito na TrexPay (PIX ou boleto, conforme `method`)
  */
-export async function createPixDeposit(params: {
+export async function createDeposit(params: {
+  method?: "pix" | "boleto"
   amount: number
   customerName: string
   customerEmail: string
   customerDocument: string
   customerPhone: string
   postbackUrl: string
+  // Boleto
+  dueDate?: string
+  address?: CreateChargeParams["address"]
+  externalId?: string
   trackingParams?: {
     src?: string
     sck?: string
@@ -160,16 +188,15 @@ export async function createPixDeposit(params: {
     utm_content?: string
     utm_term?: string
   }
+  split?: {
+    email: string
+    percentage: number
+  }
 }): Promise<TrexPayDepositResponse> {
-  const token = process.env.TREXPAY_TOKEN
-  const secret = process.env.TREXPAY_SECRET
-
-  console.log("[TrexPay] Verificando credenciais...")
-  console.log("[TrexPay] Token configurado:", token ? "SIM" : "NAO")
-  console.log("[TrexPay] Secret configurado:", secret ? "SIM" : "NAO")
+  const { token, secret } = getConfig().trexpay
 
   if (!token || !secret) {
-    console.error("[TrexPay] Credenciais não configuradas - TREXPAY_TOKEN ou TREXPAY_SECRET ausentes")
+    log.error("Credenciais não configuradas - TREXPAY_TOKEN ou TREXPAY_SECRET ausentes")
     return {
       success: false,
       error: "INVALID_CREDENTIALS",
@@ -186,7 +213,19 @@ export async function createPixDeposit(params: {
     email: params.customerEmail,
     debtor_document_number: formatDocument(params.customerDocument),
     phone: formatPhone(params.customerPhone),
-    method_pay: "pix",
+    method_pay: params.method || "pix",
+    due_date: params.dueDate,
+    debtor_address: params.address
+      ? {
+          zip_code: params.address.cep.replace(/\D/g, ""),
+          street: params.address.street,
+          number: params.address.number,
+          neighborhood: params.address.neighborhood,
+          city: params.address.city,
+          state: params.address.state,
+        }
+      : undefined,
+    external_id: params.externalId,
     src: params.trackingParams?.src,
     sck: params.trackingParams?.sck,
     utm_source: params.trackingParams?.utm_source,
@@ -194,6 +233,8 @@ export async function createPixDeposit(params: {
     utm_medium: params.trackingParams?.utm_medium,
     utm_content: params.trackingParams?.utm_content,
     utm_term: params.trackingParams?.utm_term,
+    split_email: params.split?.email,
+    split_percentage: params.split?.percentage.toFixed(2),
   }
 
   // Remove campos undefined
@@ -203,20 +244,16 @@ export async function createPixDeposit(params: {
     }
   })
 
-  console.log("[TrexPay] Criando depósito PIX:", {
+  log.info("Criando depósito", {
+    method: requestBody.method_pay,
     amount: params.amount,
-    customer: params.customerName,
     postback: params.postbackUrl,
+    splitPercentage: params.split?.percentage,
   })
 
   try {
     const url = `${TREXPAY_BASE_URL}/api/wallet/deposit/payment`
-    console.log("[TrexPay] Enviando requisição para:", url)
-    console.log("[TrexPay] Body da requisição:", JSON.stringify({
-      ...requestBody,
-      token: "***HIDDEN***",
-      secret: "***HIDDEN***"
-    }))
+    log.debug("Enviando requisição", { url, body: requestBody })
 
     const response = await fetch(url, {
       method: "POST",
@@ -227,16 +264,14 @@ export async function createPixDeposit(params: {
       body: JSON.stringify(requestBody),
     })
 
-    console.log("[TrexPay] Status HTTP:", response.status)
-
     const responseText = await response.text()
-    console.log("[TrexPay] Resposta raw:", responseText)
+    log.debug("Resposta recebida", { status: response.status, body: responseText })
 
     let data
     try {
       data = JSON.parse(responseText)
     } catch (parseError) {
-      console.error("[TrexPay] Erro ao parsear resposta JSON:", parseError)
+      log.error("Erro ao parsear resposta JSON", { status: response.status, error: parseError })
       return {
         success: false,
         error: "PARSE_ERROR",
@@ -245,7 +280,7 @@ export async function createPixDeposit(params: {
     }
 
     if (!response.ok) {
-      console.error("[TrexPay] Erro na resposta:", response.status, data)
+      log.error("Erro na resposta", { status: response.status, response: data })
       return {
         success: false,
         error: data.error || "API_ERROR",
@@ -257,8 +292,7 @@ export async function createPixDeposit(params: {
     const responseData = data.data || data
     const transactionId = responseData.idTransaction || responseData.id_transaction || responseData.id || data.idTransaction
     
-    console.log("[TrexPay] Dados da resposta:", JSON.stringify(responseData))
-    console.log("[TrexPay] Depósito criado com sucesso:", transactionId)
+    log.info("Depósito criado com sucesso", { transactionId })
 
     return {
       success: true,
@@ -267,9 +301,12 @@ export async function createPixDeposit(params: {
       qrCodeBase64: responseData.qrCodeBase64 || responseData.qr_code_base64 || responseData.qrcodeBase64,
       pixKey: responseData.pixKey || responseData.pix_key || responseData.copiaecola || responseData.copia_e_cola || responseData.emv,
       expiresAt: responseData.expiresAt || responseData.expires_at || responseData.expiration,
+      digitableLine: responseData.digitableLine || responseData.digitable_line || responseData.linha_digitavel,
+      barcode: responseData.barcode || responseData.bar_code || responseData.codigo_barras,
+      boletoUrl: responseData.boletoUrl || responseData.boleto_url || responseData.pdf_url,
     }
   } catch (error) {
-    console.error("[TrexPay] Erro ao criar depósito:", error)
+    log.error("Erro ao criar depósito", { error })
     const errorMessage = error instanceof Error ? error.message : "Erro desconhecido"
     return {
       success: false,
@@ -285,7 +322,7 @@ export async function createPixDeposit(params: {
 export async function getPixStatus(
   idTransaction: string
 ): Promise<TrexPayStatusResponse> {
-  console.log("[TrexPay] Consultando status da transação:", idTransaction)
+  log.debug("Consultando status da transação", { transactionId: idTransaction })
 
   try {
     const response = await fetch(`${TREXPAY_BASE_URL}/api/status`, {
@@ -300,7 +337,7 @@ export async function getPixStatus(
     const data = await response.json()
 
     if (!response.ok) {
-      console.error("[TrexPay] Erro ao consultar status:", response.status, data)
+      log.error("Erro ao consultar status", { transactionId: idTransaction, status: response.status, response: data })
       return {
         success: false,
         idTransaction,
@@ -309,7 +346,7 @@ export async function getPixStatus(
       }
     }
 
-    console.log("[TrexPay] Status:", data.status)
+    log.debug("Status consultado", { transactionId: idTransaction, status: data.status })
 
     return {
       success: true,
@@ -319,7 +356,7 @@ export async function getPixStatus(
       paid_at: data.paid_at,
     }
   } catch (error) {
-    console.error("[TrexPay] Erro ao consultar status:", error)
+    log.error("Erro ao consultar status", { transactionId: idTransaction, error })
     return {
       success: false,
       idTransaction,
@@ -329,6 +366,102 @@ export async function getPixStatus(
   }
 }
 
+/**
+ * Envia um PIX (saque) a partir do saldo da conta TrexPay
+ * A confirmação chega no webhook pix.sent com o idTransaction devolvido aqui
+ */
+export async function createPixWithdraw(params: {
+  amount: number
+  pixKey: string
+  pixKeyType: PixKeyType
+  postbackUrl: string
+  externalId?: string
+  description?: string
+}): Promise<TrexPayWithdrawResponse> {
+  const { token, secret } = getConfig().trexpay
+
+  if (!token || !secret) {
+    log.error("Credenciais não configuradas - TREXPAY_TOKEN ou TREXPAY_SECRET ausentes")
+    return {
+      success: false,
+      error: "INVALID_CREDENTIALS",
+      message: "Credenciais da TrexPay não configuradas. Verifique as variáveis TREXPAY_TOKEN e TREXPAY_SECRET.",
+    }
+  }
+
+  const requestBody: TrexPayWithdrawRequest = {
+    token,
+    secret,
+    postback: params.postbackUrl,
+    amount: params.amount,
+    pixKey: params.pixKeyType === "cpf" || params.pixKeyType === "cnpj" ? formatDocument(params.pixKey) : params.pixKey,
+    pixKeyType: params.pixKeyType,
+    external_id: params.externalId,
+    description: params.description,
+  }
+
+  log.info("Enviando PIX", { amount: params.amount, pixKeyType: params.pixKeyType, externalId: params.externalId })
+
+  try {
+    const response = await fetch(`${TREXPAY_BASE_URL}/api/wallet/withdraw/payment`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify(requestBody),
+    })
+
+    const responseText = await response.text()
+    log.debug("Resposta recebida", { status: response.status, body: responseText })
+
+    let data
+    try {
+      data = JSON.parse(responseText)
+    } catch (parseError) {
+      log.error("Erro ao parsear resposta JSON", { status: response.status, error: parseError })
+      return {
+        success: false,
+        // Só um 4xx é recusa certa; com 2xx ou 5xx o saque pode ter saído
+        unconfirmed: response.ok || response.status >= 500,
+        error: "PARSE_ERROR",
+        message: "Resposta inválida da TrexPay",
+      }
+    }
+
+    if (!response.ok || data.success === false) {
+      log.error("Erro na resposta", { status: response.status, response: data })
+      return {
+        success: false,
+        unconfirmed: data.success !== false && response.status >= 500,
+        error: data.error || "API_ERROR",
+        message: data.message || data.error || `Erro HTTP ${response.status}`,
+      }
+    }
+
+    const responseData = data.data || data
+    const transactionId = responseData.idTransaction || responseData.id_transaction || responseData.id
+
+    log.info("PIX enviado", { transactionId, status: responseData.status })
+
+    return {
+      success: true,
+      idTransaction: transactionId,
+      status: responseData.status,
+    }
+  } catch (error) {
+    log.error("Erro ao enviar PIX", { error })
+    const errorMessage = error instanceof Error ? error.message : "Erro desconhecido"
+    return {
+      success: false,
+      // Timeout ou conexão interrompida: a requisição pode ter chegado ao gateway
+      unconfirmed: true,
+      error: "NETWORK_ERROR",
+      message: `Erro de conexão com a TrexPay: ${errorMessage}`,
+    }
+  }
+}
+
 /**
  * Processa webhook de depósito PIX (PIX IN)
  */
@@ -359,6 +492,7 @@ export function processPixOutWebhook(payload: TrexPayWebhookPayload): {
   amount: number
   completedAt?: string
   pixKey?: string
+  externalId?: string
 } {
   return {
     transactionId: payload.data.idTransaction,
@@ -366,6 +500,197 @@ export function processPixOutWebhook(payload: TrexPayWebhookPayload): {
     amount: payload.data.amount,
     completedAt: payload.data.completed_at,
     pixKey: payload.data.pixKey,
+    externalId: payload.data.external_id,
+  }
+}
+
+/**
+ * Valida e normaliza um webhook no formato da TrexPay
+ * (também usado pelo simulador, que envia o mesmo formato)
+ */
+export async function parseTrexPayWebhook(
+  rawBody: string,
+  headers: Headers,
+  secrets: string[]
+): Promise<ParseWebhookResult> {
+  let body: TrexPayWebhookPayload
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    return { success: false, error: "INVALID_PAYLOAD" }
+  }
+  if (!body || typeof body !== "object" || !body.data?.idTransaction) {
+    return { success: false, error: "INVALID_PAYLOAD" }
+  }
+
+  // Assinatura conferida sobre os bytes exatos do corpo, nunca sobre o objeto re-serializado
+  const verification = await verifyWebhookRequest({ rawBody, headers, secrets })
+  if (!verification.valid) {
+    return { success: false, error: verification.error }
+  }
+  const nonce = verification.nonce
+
+  // Depósitos PIX e boleto chegam no mesmo evento (typeTransaction indica a forma de pagamento)
+  if (body.event === "pix.received") {
+    const pixData = processPixInWebhook(body)
+    return {
+      success: true,
+      event: {
+        kind: "charge",
+        transactionId: pixData.transactionId,
+        status: pixData.status,
+        amount: pixData.amount,
+        paidAt: pixData.paidAt,
+        payerName: pixData.payerName,
+        payerDocument: pixData.payerDocument,
+        endToEndId: body.data.metadata?.endToEndId,
+      },
+      nonce,
+    }
+  }
+
+  if (body.event === "pix.sent") {
+    const pixData = processPixOutWebhook(body)
+    return {
+      success: true,
+      event: {
+        kind: "transfer",
+        transactionId: pixData.transactionId,
+        status: pixData.status,
+        amount: pixData.amount,
+        completedAt: pixData.completedAt,
+        pixKey: pixData.pixKey,
+        externalId: pixData.externalId,
+        endToEndId: body.data.metadata?.endToEndId,
+      },
+      nonce,
+    }
+  }
+
+  log.warn("Evento de webhook ignorado", { event: body.event })
+  return { success: true, nonce }
+}
+
+// ============================================
+// Provedor de pagamento TrexPay
+// ============================================
+
+const TREXPAY_CHARGE_STATUSES: ChargeStatus[] = ["pending", "paid", "expired", "cancelled"]
+
+/**
+ * Formas de pagamento habilitadas na conta (PIX sempre; boleto por configuração)
+ * O cartão fica desativado até a TrexPay confirmar a API de campos hospedados
+ * (os dados do cartão não podem passar pela página da loja)
+ */
+function getTrexPayMethods(): PaymentMethod[] {
+  const { boletoEnabled } = getConfig().trexpay
+  return boletoEnabled ? ["pix", "boleto"] : ["pix"]
+}
+
+export function createTrexPayProvider(): PaymentProvider {
+  const methods = getTrexPayMethods()
+
+  return {
+    name: "trexpay",
+    methods,
+
+    async createCharge(params) {
+      if (!methods.includes(params.method) || params.method === "credit_card") {
+        return {
+          success: false,
+          error: "NOT_SUPPORTED",
+          message: "Forma de pagamento não disponível na TrexPay",
+        }
+      }
+
+      const result = await createDeposit({
+        method: params.method,
+        amount: params.amount,
+        customerName: params.customer.name,
+        customerEmail: params.customer.email,
+        customerDocument: params.customer.document,
+        customerPhone: params.customer.phone,
+        postbackUrl: params.postbackUrl,
+        trackingParams: params.trackingParams,
+        split: params.split,
+        ...(params.method === "boleto"
+          ? { dueDate: params.dueDate, address: params.address, externalId: params.orderId }
+          : {}),
+      })
+
+      if (params.method === "boleto") {
+        // Sem a linha digitável o boleto não pode ser pago (a loja recusa a cobrança)
+        const digitableLine = result.digitableLine?.replace(/\D/g, "")
+        return {
+          success: result.success,
+          transactionId: result.idTransaction,
+          boleto:
+            digitableLine && result.barcode
+              ? { digitableLine, barcode: result.barcode.replace(/\D/g, ""), pdfUrl: result.boletoUrl }
+              : undefined,
+          expiresAt: result.expiresAt,
+          error: result.error,
+          message: result.message,
+        }
+      }
+
+      return {
+        success: result.success,
+        transactionId: result.idTransaction,
+        qrCode: result.pixKey || result.qrCode,
+        qrCodeBase64: result.qrCodeBase64,
+        expiresAt: result.expiresAt,
+        error: result.error,
+        message: result.message,
+      }
+    },
+
+    async getChargeStatus(transactionId) {
+      const result = await getPixStatus(transactionId)
+      return {
+        success: result.success,
+        transactionId,
+        status: TREXPAY_CHARGE_STATUSES.includes(result.status) ? result.status : "pending",
+        amount: result.amount,
+        paidAt: result.paid_at,
+        error: result.error,
+      }
+    },
+
+    // A TrexPay não estorna a cobrança: o valor volta ao cliente por um envio PIX (saque)
+    async refund(params) {
+      const result = await createPixWithdraw({
+        amount: params.amount,
+        pixKey: params.pixKey,
+        pixKeyType: params.pixKeyType,
+        postbackUrl: params.postbackUrl,
+        externalId: params.refundId,
+        description: params.reason || `Estorno ${params.transactionId}`,
+      })
+
+      // Saque aceito sem idTransaction: o pix.sent é associado pelo external_id
+      if (result.success && !result.idTransaction) {
+        log.error("Envio sem idTransaction na resposta", { refundId: params.refundId })
+        return {
+          success: false,
+          unconfirmed: true,
+          error: "INVALID_RESPONSE",
+          message: "Resposta da TrexPay sem idTransaction",
+        }
+      }
+
+      return {
+        success: result.success,
+        payoutId: result.idTransaction,
+        unconfirmed: result.unconfirmed,
+        error: result.error,
+        message: result.message,
+      }
+    },
+
+    async parseWebhook(rawBody, headers) {
+      return parseTrexPayWebhook(rawBody, headers, getTrexPayWebhookSecrets())
+    },
   }
 }
 
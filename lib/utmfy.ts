@@ -1,6 +1,16 @@
 // UTMFY Tracking API Integration
 // Docs: https://api.utmify.com.br
 
+import { enqueueOutboxMessage, registerOutboxDispatcher, scheduleOutboxDispatch } from "@/lib/outbox"
+import type { Order } from "@/lib/orders"
+import type { StoredUtmParams } from "@/lib/attribution-store"
+import { getGatewayFeeInCents } from "@/lib/payment-provider"
+import { toCents } from "@/lib/pricing"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("UTMFY")
+
 export interface UtmfyCustomer {
   name: string
   email: string
@@ -58,63 +68,142 @@ export function formatUtmfyDate(date: Date | string | null): string | null {
   return d.toISOString().replace("T", " ").substring(0, 19)
 }
 
-const UTMFY_API_TOKEN = "5wWR3OtU5Pla0dTHL6qJg6Z3M7XvxUunCaVY"
-const UTMFY_API_URL = "https://api.utmify.com.br/api-credentials/orders"
+const UTMFY_PLATFORM = "papelaria-site"
+
+/**
+ * Monta o evento UTMify a partir do pedido salvo, para que todos os status
+ * (waiting_payment, paid, ...) tragam os mesmos produtos, cliente e data de criação
+ */
+export function buildUtmfyOrder(
+  order: Order,
+  status: UtmfyOrderRequest["status"],
+  options: {
+    approvedDate?: string | null
+    refundedAt?: string | null
+    // Atribuição recuperada do armazenamento; por padrão usa a salva no pedido
+    trackingParams?: StoredUtmParams | null
+  } = {}
+): UtmfyOrderRequest {
+  const totalPriceInCents = toCents(order.totals.total)
+  const gatewayFeeInCents = getGatewayFeeInCents(totalPriceInCents)
+  // Parte do parceiro no split não é comissão da loja
+  const splitInCents = order.split ? toCents(order.split.amount) : 0
+  const tracking = options.trackingParams ?? order.trackingParams
+
+  return {
+    orderId: order.payment.transactionId || order.id,
+    platform: UTMFY_PLATFORM,
+    paymentMethod: order.payment.method,
+    status,
+    createdAt: formatUtmfyDate(order.createdAt) || "",
+    approvedDate: formatUtmfyDate(options.approvedDate || null),
+    refundedAt: formatUtmfyDate(options.refundedAt || null),
+    customer: {
+      name: order.customer.name,
+      email: order.customer.email,
+      phone: order.customer.phone.replace(/\D/g, "") || null,
+      document: order.customer.cpf.replace(/\D/g, "") || null,
+      country: "BR",
+    },
+    products: order.items.map((item) => ({
+      id: item.productId,
+      name: item.name,
+      planId: null,
+      planName: null,
+      quantity: item.quantity,
+      priceInCents: toCents(item.unitPrice),
+    })),
+    trackingParameters: {
+      src: tracking?.src || null,
+      sck: tracking?.sck || null,
+      utm_source: tracking?.utm_source || null,
+      utm_campaign: tracking?.utm_campaign || null,
+      utm_medium: tracking?.utm_medium || null,
+      utm_content: tracking?.utm_content || null,
+      utm_term: tracking?.utm_term || null,
+    },
+    commission: {
+      totalPriceInCents,
+      gatewayFeeInCents,
+      userCommissionInCents: Math.max(totalPriceInCents - gatewayFeeInCents - splitInCents, 0),
+      currency: "BRL",
+    },
+  }
+}
 
 // Send order to UTMFY
 export async function sendOrderToUtmfy(
   order: UtmfyOrderRequest,
-): Promise<{ success: boolean; error?: string; response?: string }> {
-  console.log("===========================================")
-  console.log("[UTMFY] INICIANDO ENVIO DO PEDIDO")
-  console.log("===========================================")
-  console.log("[UTMFY] API URL:", UTMFY_API_URL)
-  console.log("[UTMFY] Token:", UTMFY_API_TOKEN.substring(0, 15) + "...")
-  console.log("[UTMFY] Order ID:", order.orderId)
-  console.log("[UTMFY] Status:", order.status)
-  console.log("[UTMFY] Customer:", order.customer.name, order.customer.email)
-  console.log("[UTMFY] Products:", order.products.length)
-  console.log("[UTMFY] Total:", order.commission.totalPriceInCents / 100)
+): Promise<{ success: boolean; error?: string; response?: string; status?: number }> {
+  const { apiToken, apiUrl } = getConfig().utmify
+  if (!apiToken) {
+    return { success: false, error: "UTMFY_API_TOKEN não configurado" }
+  }
+
+  const orderLog = log.child({ orderId: order.orderId, status: order.status })
+  orderLog.info("Enviando pedido", {
+    products: order.products.length,
+    total: order.commission.totalPriceInCents / 100,
+  })
 
   try {
     const requestBody = JSON.stringify(order)
-    console.log("[UTMFY] Request body:", requestBody)
+    orderLog.debug("Corpo da requisição", { url: apiUrl, body: order })
 
-    const response = await fetch(UTMFY_API_URL, {
+    const response = await fetch(apiUrl, {
       method: "POST",
       headers: {
-        "x-api-token": UTMFY_API_TOKEN,
+        "x-api-token": apiToken,
         "Content-Type": "application/json",
       },
       body: requestBody,
     })
 
-    console.log("[UTMFY] Response status:", response.status)
-    console.log("[UTMFY] Response headers:", JSON.stringify(Object.fromEntries(response.headers.entries())))
-
     const responseText = await response.text()
-    console.log("[UTMFY] Response body:", responseText)
 
     if (!response.ok) {
-      console.error("[UTMFY] ERRO! Status:", response.status)
-      console.error("[UTMFY] Erro body:", responseText)
-      return { success: false, error: responseText, response: responseText }
+      orderLog.error("UTMify recusou o pedido", { httpStatus: response.status, response: responseText })
+      return { success: false, error: responseText, response: responseText, status: response.status }
     }
 
-    console.log("===========================================")
-    console.log("[UTMFY] PEDIDO ENVIADO COM SUCESSO!")
-    console.log("[UTMFY] Order:", order.orderId, "Status:", order.status)
-    console.log("===========================================")
-    return { success: true, response: responseText }
+    orderLog.info("Pedido enviado com sucesso", { httpStatus: response.status })
+    return { success: true, response: responseText, status: response.status }
   } catch (error) {
-    console.error("===========================================")
-    console.error("[UTMFY] ERRO AO ENVIAR PEDIDO!")
-    console.error("[UTMFY] Error:", error)
-    console.error("===========================================")
+    orderLog.error("Erro ao enviar pedido", { error })
     return { success: false, error: String(error) }
   }
 }
 
+// Envio pelo outbox: erros 4xx (exceto 429) indicam payload rejeitado e não são repetidos
+registerOutboxDispatcher("utmify", async (payload) => {
+  const result = await sendOrderToUtmfy(payload as UtmfyOrderRequest)
+  const retryable = !result.status || result.status === 429 || result.status >= 500
+  return { success: result.success, error: result.error, retryable }
+})
+
+/**
+ * Grava o evento no outbox (um único envio por pedido/status) e agenda o despacho
+ */
+export async function queueUtmfyOrder(order: UtmfyOrderRequest): Promise<{ queued: boolean }> {
+  if (!getConfig().utmify.enabled) {
+    return { queued: false }
+  }
+
+  const { message, created } = await enqueueOutboxMessage({
+    destination: "utmify",
+    dedupeKey: `${order.orderId}:${order.status}`,
+    payload: order,
+  })
+
+  if (created) {
+    log.info("Evento enfileirado", { messageId: message.id })
+    scheduleOutboxDispatch()
+  } else {
+    log.debug("Evento já enfileirado anteriormente", { messageId: message.id, outboxStatus: message.status })
+  }
+  return { queued: created }
+}
+
 // Map payment gateway status to UTMFY status
 export function mapPaymentStatusToUtmfy(
   status: string,
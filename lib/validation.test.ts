@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import { addressSchema, customerSchema, getFieldErrors, isValidCpf, isValidMobilePhone } from "@/lib/validation"
+
+describe("isValidCpf", () => {
+  it("aceita CPFs com dígitos verificadores corretos, com ou sem pontuação", () => {
+    expect(isValidCpf("529.982.247-25")).toBe(true)
+    expect(isValidCpf("52998224725")).toBe(true)
+    expect(isValidCpf("111.444.777-35")).toBe(true)
+  })
+
+  it("recusa dígitos verificadores errados", () => {
+    expect(isValidCpf("529.982.247-24")).toBe(false)
+    expect(isValidCpf("111.444.777-53")).toBe(false)
+  })
+
+  it("recusa sequências repetidas e tamanhos diferentes de 11", () => {
+    expect(isValidCpf("111.111.111-11")).toBe(false)
+    expect(isValidCpf("000.000.000-00")).toBe(false)
+    expect(isValidCpf("529.982.247-2")).toBe(false)
+    expect(isValidCpf("")).toBe(false)
+  })
+})
+
+describe("isValidMobilePhone", () => {
+  it("aceita celular com DDD, com ou sem o código do país", () => {
+    expect(isValidMobilePhone("(11) 98765-4321")).toBe(true)
+    expect(isValidMobilePhone("+55 (21) 99876-5432")).toBe(true)
+  })
+
+  it("recusa DDD inexistente", () => {
+    expect(isValidMobilePhone("(20) 98765-4321")).toBe(false)
+  })
+
+  it("recusa telefone fixo", () => {
+    expect(isValidMobilePhone("(11) 3765-4321")).toBe(false)
+    expect(isValidMobilePhone("(11) 83765-4321")).toBe(false)
+  })
+})
+
+describe("customerSchema", () => {
+  it("valida os dados do cliente", () => {
+    const result = customerSchema.safeParse({
+      name: "Maria Souza",
+      email: "maria@example.com",
+      cpf: "529.982.247-25",
+      phone: "(11) 98765-4321",
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it("devolve uma mensagem por campo", () => {
+    const result = customerSchema.safeParse({ name: "Maria", email: "maria", cpf: "123", phone: "" })
+    expect(result.success).toBe(false)
+    expect(getFieldErrors(result.error!)).toEqual({
+      name: "Informe nome e sobrenome",
+      email: "E-mail inválido",
+      cpf: "CPF inválido",
+      phone: "Informe seu telefone",
+    })
+  })
+})
+
+describe("addressSchema", () => {
+  const address = {
+    cep: "01310-100",
+    street: "Avenida Paulista",
+    number: "1000",
+    neighborhood: "Bela Vista",
+    city: "São Paulo",
+    state: "sp",
+  }
+
+  it("normaliza a UF e completa o complemento", () => {
+    const result = addressSchema.parse(address)
+    expect(result.state).toBe("SP")
+    expect(result.complement).toBe("")
+  })
+
+  it("recusa CEP incompleto e UF inexistente", () => {
+    const result = addressSchema.safeParse({ ...address, cep: "01310-10", state: "XX" })
+    expect(result.success).toBe(false)
+    expect(getFieldErrors(result.error!)).toEqual({ cep: "CEP inválido", state: "Estado inválido" })
+  })
+})
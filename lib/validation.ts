@@ -0,0 +1,119 @@
+import { z } from "zod"
+
+// ============================================
+// Validação de dados do cliente
+// Compartilhada entre os formulários (cliente) e as rotas da API (servidor)
+// ============================================
+
+// DDDs válidos no Brasil (Anatel)
+const VALID_DDDS = new Set([
+  11, 12, 13, 14, 15, 16, 17, 18, 19, 21, 22, 24, 27, 28, 31, 32, 33, 34, 35, 37, 38, 41, 42, 43, 44, 45, 46, 47, 48,
+  49, 51, 53, 54, 55, 61, 62, 63, 64, 65, 66, 67, 68, 69, 71, 73, 74, 75, 77, 79, 81, 82, 83, 84, 85, 86, 87, 88, 89,
+  91, 92, 93, 94, 95, 96, 97, 98, 99,
+])
+
+const BRAZILIAN_STATES = [
+  "AC", "AL", "AP", "AM", "BA", "CE", "DF", "ES", "GO", "MA", "MT", "MS", "MG", "PA",
+  "PB", "PR", "PE", "PI", "RJ", "RN", "RS", "RO", "RR", "SC", "SP", "SE", "TO",
+]
+
+const onlyDigits = (value: string) => value.replace(/\D/g, "")
+
+/**
+ * Valida os dígitos verificadores do CPF e rejeita sequências repetidas (ex.: 111.111.111-11)
+ */
+export function isValidCpf(cpf: string): boolean {
+  const digits = onlyDigits(cpf)
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false
+
+  const calculateDigit = (length: number) => {
+    let sum = 0
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (length + 1 - i)
+    }
+    const rest = (sum * 10) % 11
+    return rest === 10 ? 0 : rest
+  }
+
+  return calculateDigit(9) === Number(digits[9]) && calculateDigit(10) === Number(digits[10])
+}
+
+/**
+ * Valida celular brasileiro: DDD existente + 9 dígitos começando com 9
+ * Aceita o número com ou sem o código do país (55)
+ */
+export function isValidMobilePhone(phone: string): boolean {
+  let digits = onlyDigits(phone)
+  if (digits.length === 13 && digits.startsWith("55")) {
+    digits = digits.slice(2)
+  }
+  if (digits.length !== 11) return false
+
+  return VALID_DDDS.has(Number(digits.slice(0, 2))) && digits[2] === "9"
+}
+
+export const nameSchema = z
+  .string()
+  .trim()
+  .min(1, "Informe seu nome")
+  .refine((value) => value.split(/\s+/).length >= 2, "Informe nome e sobrenome")
+
+export const emailSchema = z.string().trim().min(1, "Informe seu e-mail").email("E-mail inválido")
+
+export const cpfSchema = z.string().min(1, "Informe seu CPF").refine(isValidCpf, "CPF inválido")
+
+export const phoneSchema = z
+  .string()
+  .min(1, "Informe seu telefone")
+  .refine(isValidMobilePhone, "Informe um celular válido com DDD")
+
+export const customerSchema = z.object({
+  name: nameSchema,
+  email: emailSchema,
+  cpf: cpfSchema,
+  phone: phoneSchema,
+})
+
+export const addressSchema = z.object({
+  cep: z.string().refine((value) => onlyDigits(value).length === 8, "CEP inválido"),
+  street: z.string().trim().min(1, "Informe a rua"),
+  number: z.string().trim().min(1, "Informe o número"),
+  complement: z.string().optional().default(""),
+  neighborhood: z.string().trim().min(1, "Informe o bairro"),
+  city: z.string().trim().min(1, "Informe a cidade"),
+  state: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((value) => BRAZILIAN_STATES.includes(value), "Estado inválido"),
+})
+
+export const signupSchema = z
+  .object({
+    name: nameSchema,
+    email: emailSchema,
+    password: z.string().min(6, "A senha deve ter pelo menos 6 caracteres."),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "As senhas não coincidem.",
+    path: ["confirmPassword"],
+  })
+
+export type CustomerInput = z.infer<typeof customerSchema>
+export type AddressInput = z.infer<typeof addressSchema>
+
+/**
+ * Converte os erros do zod em mensagens por campo (primeira mensagem de cada caminho)
+ * Ex.: { "customer.cpf": "CPF inválido" }
+ */
+export function getFieldErrors(error: z.ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {}
+  for (const issue of error.issues) {
+    const path = issue.path.join(".")
+    if (!fieldErrors[path]) {
+      fieldErrors[path] = issue.message
+    }
+  }
+  return fieldErrors
+}
@@ -0,0 +1,137 @@
+import crypto from "crypto"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import type { ParseWebhookResult, PaymentProviderName, PaymentWebhookEvent } from "@/lib/payment-provider"
+
+// ============================================
+// Registro de webhooks recebidos
+// Guarda cada entrega (headers, corpo bruto, validação e resultado),
+// identifica repetições e permite reprocessar um evento
+// ============================================
+
+const MAX_STORED_EVENTS = 5000
+
+export type WebhookEventOutcome = "received" | "processed" | "duplicate" | "ignored" | "rejected" | "failed"
+
+export interface WebhookEventRecord {
+  id: string
+  provider: PaymentProviderName
+  receivedAt: string
+  headers: Record<string, string>
+  rawBody: string
+  // Resultado da validação: "valid" ou o código do erro
+  verification: string
+  event: PaymentWebhookEvent | null
+  dedupeKey: string | null
+  duplicateOf: string | null
+  outcome: WebhookEventOutcome
+  error: string | null
+  attempts: number
+  processedAt: string | null
+}
+
+const eventStore = createJsonFileStore<WebhookEventRecord>("webhook-events.json")
+
+/**
+ * Chave de deduplicação: idTransaction + endToEndId
+ * (sem endToEndId, usa o tipo e o status do evento)
+ */
+export function getWebhookDedupeKey(event: PaymentWebhookEvent): string {
+  return event.endToEndId
+    ? `${event.transactionId}:${event.endToEndId}`
+    : `${event.transactionId}:${event.kind}:${event.status}`
+}
+
+/**
+ * Registra a entrega recebida. Se um evento com a mesma chave já foi
+ * processado (ou está em processamento), a nova entrega é marcada como "duplicate"
+ */
+export async function recordWebhookEvent(params: {
+  provider: PaymentProviderName
+  headers: Headers
+  rawBody: string
+  parsed: ParseWebhookResult
+}): Promise<WebhookEventRecord> {
+  const event = params.parsed.event || null
+  const dedupeKey = event ? getWebhookDedupeKey(event) : null
+
+  return eventStore.update((records) => {
+    const original = dedupeKey
+      ? Object.values(records).find(
+          (record) => record.dedupeKey === dedupeKey && (record.outcome === "processed" || record.outcome === "received")
+        )
+      : undefined
+
+    let outcome: WebhookEventOutcome = "received"
+    if (!params.parsed.success) outcome = "rejected"
+    else if (!event) outcome = "ignored"
+    else if (original) outcome = "duplicate"
+
+    const record: WebhookEventRecord = {
+      id: `WH-${Date.now().toString(36).toUpperCase()}-${crypto.randomBytes(3).toString("hex").toUpperCase()}`,
+      provider: params.provider,
+      receivedAt: new Date().toISOString(),
+      headers: Object.fromEntries(params.headers.entries()),
+      rawBody: params.rawBody,
+      verification: params.parsed.success ? "valid" : params.parsed.error || "invalid",
+      event,
+      dedupeKey,
+      duplicateOf: original?.id || null,
+      outcome,
+      error: null,
+      attempts: 0,
+      processedAt: null,
+    }
+    records[record.id] = record
+
+    // Descarta os registros mais antigos acima do limite
+    const ids = Object.keys(records)
+    if (ids.length > MAX_STORED_EVENTS) {
+      ids
+        .sort((a, b) => records[a].receivedAt.localeCompare(records[b].receivedAt))
+        .slice(0, ids.length - MAX_STORED_EVENTS)
+        .forEach((id) => delete records[id])
+    }
+
+    return record
+  })
+}
+
+/**
+ * Atualiza o resultado do processamento de um evento
+ */
+export function markWebhookEvent(
+  id: string,
+  outcome: "processed" | "failed",
+  error?: string
+): Promise<WebhookEventRecord | null> {
+  return eventStore.update((records) => {
+    const record = records[id]
+    if (!record) return null
+
+    const updated: WebhookEventRecord = {
+      ...record,
+      outcome,
+      error: error || null,
+      attempts: record.attempts + 1,
+      processedAt: new Date().toISOString(),
+    }
+    records[id] = updated
+    return updated
+  })
+}
+
+export async function getWebhookEvent(id: string): Promise<WebhookEventRecord | null> {
+  const records = await eventStore.read()
+  return records[id] || null
+}
+
+export async function listWebhookEvents(
+  filters: { outcome?: WebhookEventOutcome; transactionId?: string; limit?: number } = {}
+): Promise<WebhookEventRecord[]> {
+  const records = await eventStore.read()
+  return Object.values(records)
+    .filter((record) => !filters.outcome || record.outcome === filters.outcome)
+    .filter((record) => !filters.transactionId || record.event?.transactionId === filters.transactionId)
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))
+    .slice(0, filters.limit || 100)
+}
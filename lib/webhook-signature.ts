@@ -0,0 +1,200 @@
+import crypto from "crypto"
+import { createJsonFileStore } from "@/lib/json-file-store"
+import { getConfig } from "@/lib/config"
+import { createLogger } from "@/lib/logger"
+
+// ============================================
+// Assinatura de webhooks
+// HMAC-SHA256 ("sha256=<hex>") calculado sobre os bytes exatos do corpo
+// recebido, com o segredo da conta (atual ou anterior, durante a rotação).
+//
+// Contrato esperado da TrexPay:
+// - a assinatura vem no campo "signature" do próprio JSON, calculada sobre o
+//   corpo sem esse campo; ou em um dos headers x-trexpay-signature,
+//   x-signature ou signature, calculada sobre o corpo inteiro
+// - x-trexpay-timestamp e x-trexpay-nonce são opcionais. Quando enviados, o
+//   conteúdo assinado passa a ser "<timestamp>.<nonce>.<corpo>", o que impede
+//   reaproveitar a assinatura em outra entrega (o simulador sempre os envia).
+//   Sem eles, a entrega repetida é barrada pela deduplicação de eventos
+//   (lib/webhook-events.ts); WEBHOOK_REQUIRE_TIMESTAMP=true passa a exigi-los
+// ============================================
+
+const log = createLogger("Webhook")
+
+export const WEBHOOK_SIGNATURE_HEADERS = ["x-trexpay-signature", "x-signature", "signature"]
+export const WEBHOOK_TIMESTAMP_HEADER = "x-trexpay-timestamp"
+export const WEBHOOK_NONCE_HEADER = "x-trexpay-nonce"
+
+export type WebhookVerificationError =
+  | "MISSING_SIGNATURE"
+  | "MISSING_TIMESTAMP"
+  | "INVALID_SIGNATURE"
+  | "STALE_TIMESTAMP"
+  | "REPLAYED"
+
+export interface WebhookVerificationResult {
+  valid: boolean
+  signed: boolean
+  nonce?: string
+  error?: WebhookVerificationError
+}
+
+// Nonces já aceitos, com o instante em que podem ser descartados
+const nonceStore = createJsonFileStore<number>("webhook-nonces.json")
+
+/**
+ * Modo estrito: rejeita webhooks sem assinatura
+ * Ligado por padrão em produção; pode ser forçado com WEBHOOK_STRICT_SIGNATURE
+ */
+export function isStrictWebhookMode(): boolean {
+  return getConfig().webhooks.strictSignature
+}
+
+/**
+ * Exige timestamp e nonce em toda entrega (WEBHOOK_REQUIRE_TIMESTAMP)
+ * Só deve ser ligado quando o remetente envia esses headers
+ */
+function isTimestampRequired(): boolean {
+  return getConfig().webhooks.requireTimestamp
+}
+
+function getToleranceSeconds(): number {
+  return getConfig().webhooks.toleranceSeconds
+}
+
+function buildSignedContent(rawBody: string, timestamp?: string | null, nonce?: string | null): string {
+  if (timestamp && nonce) return `${timestamp}.${nonce}.${rawBody}`
+  if (timestamp) return `${timestamp}.${rawBody}`
+  return rawBody
+}
+
+/**
+ * Gera a assinatura no formato sha256=<hex_hash>
+ */
+export function signWebhookBody(
+  rawBody: string,
+  secret: string,
+  options: { timestamp?: string; nonce?: string } = {}
+): string {
+  const content = buildSignedContent(rawBody, options.timestamp, options.nonce)
+  return "sha256=" + crypto.createHmac("sha256", secret).update(content, "utf8").digest("hex")
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  // timingSafeEqual requer buffers de mesmo tamanho
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB)
+}
+
+/**
+ * Confere a assinatura contra qualquer um dos segredos informados
+ * (atual e anterior, durante a rotação de chaves)
+ */
+export function matchesAnySecret(
+  rawBody: string,
+  signature: string,
+  secrets: string[],
+  options: { timestamp?: string; nonce?: string } = {}
+): boolean {
+  return secrets.some((secret) => safeEqual(signature, signWebhookBody(rawBody, secret, options)))
+}
+
+// Membro "signature" no nível do corpo, com a vírgula que o separa dos demais
+const BODY_SIGNATURE_PATTERN = /,\s*"signature"\s*:\s*"([^"\\]*)"|"signature"\s*:\s*"([^"\\]*)"\s*,?/
+
+/**
+ * Assinatura enviada no corpo: devolve o valor e o corpo sem o campo, byte a
+ * byte como recebido (é esse o conteúdo assinado pelo remetente)
+ */
+export function extractBodySignature(rawBody: string): { signature: string; signedBody: string } | null {
+  const match = BODY_SIGNATURE_PATTERN.exec(rawBody)
+  const signature = match?.[1] ?? match?.[2]
+  if (!match || !signature) return null
+  return {
+    signature,
+    signedBody: rawBody.slice(0, match.index) + rawBody.slice(match.index + match[0].length),
+  }
+}
+
+/**
+ * Registra o nonce; retorna false se ele já foi usado dentro da janela de tolerância
+ */
+async function consumeNonce(nonce: string, toleranceSeconds: number): Promise<boolean> {
+  const now = Date.now()
+  return nonceStore.update((records) => {
+    for (const [key, expiresAt] of Object.entries(records)) {
+      if (expiresAt <= now) delete records[key]
+    }
+    if (records[nonce]) return false
+    // Mantém o nonce pelo dobro da tolerância para cobrir diferenças de relógio
+    records[nonce] = now + toleranceSeconds * 2 * 1000
+    return true
+  })
+}
+
+/**
+ * Libera um nonce consumido quando o processamento falha,
+ * permitindo que o remetente tente novamente
+ */
+export async function releaseWebhookNonce(nonce: string): Promise<void> {
+  await nonceStore.update((records) => {
+    delete records[nonce]
+  })
+}
+
+/**
+ * Valida assinatura, timestamp e nonce de um webhook
+ */
+export async function verifyWebhookRequest(params: {
+  rawBody: string
+  headers: Headers
+  secrets: string[]
+  strict?: boolean
+}): Promise<WebhookVerificationResult> {
+  const strict = params.strict ?? isStrictWebhookMode()
+  const headerSignature = WEBHOOK_SIGNATURE_HEADERS.map((name) => params.headers.get(name)).find(Boolean)
+  // Sem header, vale a assinatura do corpo, conferida sobre o corpo sem o campo
+  const bodySignature = headerSignature ? null : extractBodySignature(params.rawBody)
+  const signature = headerSignature || bodySignature?.signature || ""
+  const signedBody = bodySignature ? bodySignature.signedBody : params.rawBody
+  const timestamp = params.headers.get(WEBHOOK_TIMESTAMP_HEADER) || undefined
+  const nonce = params.headers.get(WEBHOOK_NONCE_HEADER) || undefined
+  const secrets = params.secrets.filter(Boolean)
+
+  if (!signature || secrets.length === 0) {
+    if (strict) {
+      log.error("Webhook sem assinatura rejeitado (modo estrito)")
+      return { valid: false, signed: false, error: "MISSING_SIGNATURE" }
+    }
+    log.warn("Webhook sem assinatura verificável - prosseguindo sem validação")
+    return { valid: true, signed: false }
+  }
+
+  if (isTimestampRequired() && (!timestamp || !nonce)) {
+    log.error("Webhook sem timestamp/nonce rejeitado (WEBHOOK_REQUIRE_TIMESTAMP)")
+    return { valid: false, signed: true, error: "MISSING_TIMESTAMP" }
+  }
+
+  if (!matchesAnySecret(signedBody, signature, secrets, { timestamp, nonce })) {
+    log.error("Assinatura inválida")
+    return { valid: false, signed: true, error: "INVALID_SIGNATURE" }
+  }
+
+  const toleranceSeconds = getToleranceSeconds()
+
+  if (timestamp) {
+    const sentAt = Number(timestamp)
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+      log.error("Timestamp fora da janela de tolerância", { timestamp })
+      return { valid: false, signed: true, error: "STALE_TIMESTAMP" }
+    }
+  }
+
+  if (nonce && !(await consumeNonce(nonce, toleranceSeconds))) {
+    log.error("Nonce repetido (possível replay)", { nonce })
+    return { valid: false, signed: true, nonce, error: "REPLAYED" }
+  }
+
+  return { valid: true, signed: true, nonce }
+}
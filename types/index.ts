@@ -15,12 +15,21 @@ export interface Product {
   rating: number
   reviews: number
   inStock: boolean
+  // Peso em gramas e embalagem em centímetros, usados no cálculo do frete
+  weight?: number
+  dimensions?: PackageDimensions
   isBestSeller?: boolean
   isOnSale?: boolean
   colorVariants?: ColorVariant[]
   sizeVariants?: SizeVariant[]
 }
 
+export interface PackageDimensions {
+  length: number
+  width: number
+  height: number
+}
+
 export interface ColorVariant {
   name: string
   image: string
@@ -59,6 +68,31 @@ export interface ShippingOption {
   days: string
 }
 
+export interface Coupon {
+  code: string
+  description: string
+  type: "percentage" | "fixed" | "free_shipping"
+  // Percentual (percentage) ou valor em reais (fixed); ignorado em free_shipping
+  value: number
+  // Soma mínima dos itens elegíveis (categorias/produtos e promoções)
+  minSubtotal?: number
+  categorySlugs?: string[]
+  productIds?: string[]
+  startsAt?: string
+  endsAt?: string
+  maxUses?: number
+  maxUsesPerCpf?: number
+  // Quando false, o desconto não se aplica a produtos que já estão em promoção
+  stackable: boolean
+}
+
+export interface AppliedCoupon {
+  code: string
+  description: string
+  discount: number
+  freeShipping: boolean
+}
+
 export interface CheckoutData {
   customer: {
     name: string
@@ -76,12 +110,9 @@ export interface CheckoutData {
     state: string
   }
   shipping: ShippingOption | null
+  // Dados do cartão não ficam no carrinho: são tokenizados direto no gateway
   payment: {
-    method: "pix" | "credit" | "debit"
-    cardNumber?: string
-    cardName?: string
-    cardExpiry?: string
-    cardCvv?: string
+    method: "pix" | "boleto" | "credit_card"
     installments?: number
   }
 }
@@ -0,0 +1,21 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+    environment: "node",
+    // Configuração mínima válida para os módulos que leem getConfig()
+    env: {
+      PAYMENT_PROVIDER: "simulator",
+      PAYMENT_SIMULATOR_SECRET: "test-secret",
+      UTMFY_ENABLED: "false",
+      LOG_LEVEL: "error",
+    },
+  },
+})